@@ -0,0 +1,24 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './src/app.module';
+import { RecordService } from './src/api/record/record.service';
+
+// Stores the prices that scheduled changes and sales have started or ended
+// since the last run, so listings show them. Meant to be run periodically
+// (e.g. every minute from cron); orders use the scheduled price either way.
+async function applyRecordPrices() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const repriced = await app.get(RecordService).applyScheduledPrices();
+    console.log(`Repriced ${repriced} records.`);
+  } catch (error) {
+    console.error('Error applying scheduled record prices:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+applyRecordPrices();
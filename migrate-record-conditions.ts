@@ -0,0 +1,37 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import { AppConfig } from './src/app.config';
+import { RECORD_DEFAULT_CONDITION } from './src/api/record/record.condition';
+
+// Grades records created before conditions existed as new stock (M/M), then
+// syncs indexes so the unique index includes the conditions. Safe to re-run.
+async function migrateRecordConditions() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    for (const field of ['mediaCondition', 'sleeveCondition']) {
+      const { modifiedCount } = await recordModel.updateMany(
+        { [field]: { $exists: false } },
+        { $set: { [field]: RECORD_DEFAULT_CONDITION } },
+        // Backfilling is bookkeeping, not an edit of the record
+        { timestamps: false },
+      );
+      console.log(`Backfilled ${field} on ${modifiedCount} records.`);
+    }
+
+    await recordModel.syncIndexes();
+    console.log('Record indexes synced.');
+  } catch (error) {
+    console.error('Error migrating record conditions:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateRecordConditions();
@@ -0,0 +1,56 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import { Order, OrderSchema } from './src/api/order/order.schema';
+import { AppConfig } from './src/app.config';
+
+// Labels records and orders written before currencies existed with the base
+// currency (BASE_CURRENCY), which their prices were always in. Run it before
+// changing BASE_CURRENCY, never after. Safe to re-run.
+async function migrateRecordCurrency() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+  const orderModel: mongoose.Model<Order> = mongoose.model<Order>(
+    'Order',
+    OrderSchema,
+  );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    const records = await recordModel.updateMany(
+      { currency: { $exists: false } },
+      { $set: { currency: AppConfig.baseCurrency } },
+      // Backfilling is bookkeeping, not an edit of the record
+      { timestamps: false },
+    );
+    console.log(
+      `Set currency ${AppConfig.baseCurrency} on ${records.modifiedCount} records.`,
+    );
+
+    const orders = await orderModel.updateMany(
+      { currency: { $exists: false } },
+      [
+        {
+          $set: {
+            currency: AppConfig.baseCurrency,
+            exchangeRate: 1,
+            basePrice: '$price',
+          },
+        },
+      ],
+      { timestamps: false },
+    );
+    console.log(
+      `Set currency ${AppConfig.baseCurrency} on ${orders.modifiedCount} orders.`,
+    );
+  } catch (error) {
+    console.error('Error migrating record currency:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateRecordCurrency();
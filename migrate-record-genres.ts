@@ -0,0 +1,42 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import { AppConfig } from './src/app.config';
+
+// Gives records created before genres and tags existed their category as
+// their only genre and an empty tag list, so genre filters find them. Safe
+// to re-run.
+async function migrateRecordGenres() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    const { modifiedCount } = await recordModel.updateMany(
+      { genres: { $exists: false } },
+      [
+        {
+          $set: {
+            genres: ['$category'],
+            tags: { $ifNull: ['$tags', []] },
+          },
+        },
+      ],
+      // Backfilling is bookkeeping, not an edit of the record
+      { timestamps: false },
+    );
+    console.log(`Backfilled genres on ${modifiedCount} records.`);
+
+    await recordModel.syncIndexes();
+    console.log('Record indexes synced.');
+  } catch (error) {
+    console.error('Error migrating record genres:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateRecordGenres();
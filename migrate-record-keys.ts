@@ -0,0 +1,56 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import { AppConfig } from './src/app.config';
+import { normalizeText } from './src/common/utils/normalize-text.util';
+
+// Backfills artistKey/albumKey on live records created before they existed and
+// drops them from soft-deleted ones, then syncs indexes so the case- and
+// accent-insensitive unique index can be built.
+async function migrateRecordKeys() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    const records = await recordModel
+      .find({ artistKey: { $exists: false }, deletedAt: { $exists: false } })
+      .select('artist album')
+      .lean();
+
+    if (records.length) {
+      await recordModel.bulkWrite(
+        records.map((record) => ({
+          updateOne: {
+            filter: { _id: record._id },
+            update: {
+              $set: {
+                artistKey: normalizeText(record.artist),
+                albumKey: normalizeText(record.album),
+              },
+            },
+          },
+        })),
+      );
+    }
+    console.log(`Backfilled keys on ${records.length} records.`);
+
+    const { modifiedCount } = await recordModel.updateMany(
+      { deletedAt: { $exists: true }, artistKey: { $exists: true } },
+      { $unset: { artistKey: 1, albumKey: 1 } },
+    );
+    console.log(`Released keys of ${modifiedCount} deleted records.`);
+
+    await recordModel.syncIndexes();
+    console.log('Record indexes synced.');
+  } catch (error) {
+    console.error('Error migrating record keys:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateRecordKeys();
@@ -0,0 +1,58 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import {
+  RecordStockMovement,
+  RecordStockMovementSchema,
+} from './src/api/record/record-stock-movement.schema';
+import { RECORD_DEFAULT_STOCK_LOCATION } from './src/api/record/record.stock';
+import { AppConfig } from './src/app.config';
+
+// Places the stock of records written before locations existed (or seeded by
+// setup:db) at the first of STOCK_LOCATIONS, and labels their stock movements
+// with it. Run it before reconcile:record-stock. Safe to re-run.
+async function migrateRecordLocations() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+  const movementModel: mongoose.Model<RecordStockMovement> =
+    mongoose.model<RecordStockMovement>(
+      'RecordStockMovement',
+      RecordStockMovementSchema,
+    );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    const records = await recordModel.updateMany(
+      { 'stock.0': { $exists: false } },
+      [
+        {
+          $set: {
+            stock: [{ location: RECORD_DEFAULT_STOCK_LOCATION, qty: '$qty' }],
+          },
+        },
+      ],
+      // Backfilling is bookkeeping, not an edit of the record
+      { timestamps: false },
+    );
+    console.log(
+      `Placed the stock of ${records.modifiedCount} records at ${RECORD_DEFAULT_STOCK_LOCATION}.`,
+    );
+
+    const movements = await movementModel.updateMany(
+      { location: { $exists: false } },
+      { $set: { location: RECORD_DEFAULT_STOCK_LOCATION } },
+    );
+    console.log(
+      `Labelled ${movements.modifiedCount} stock movements with ${RECORD_DEFAULT_STOCK_LOCATION}.`,
+    );
+  } catch (error) {
+    console.error('Error migrating record locations:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateRecordLocations();
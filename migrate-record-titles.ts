@@ -0,0 +1,53 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AppModule } from './src/app.module';
+import { Record } from './src/api/record/record.schema';
+import { TitleService } from './src/api/title/title.service';
+
+const BATCH_SIZE = 500;
+
+// Links records created before titles existed (or seeded by setup:db) to the
+// title of their artist + album, creating titles as needed. Safe to re-run.
+async function migrateRecordTitles() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const recordModel = app.get<Model<Record>>(getModelToken('Record'));
+    const titleService = app.get(TitleService);
+    let linked = 0;
+
+    for (;;) {
+      const records = await recordModel
+        .find({ titleId: { $exists: false } })
+        .select('artist album')
+        .limit(BATCH_SIZE)
+        .lean();
+      if (!records.length) break;
+
+      const titleIds = await titleService.resolveTitleIds(records);
+      await recordModel.bulkWrite(
+        records.map((record, i) => ({
+          updateOne: {
+            filter: { _id: record._id },
+            update: { $set: { titleId: titleIds[i] } },
+            // Linking is bookkeeping, not an edit of the record
+            timestamps: false,
+          },
+        })),
+      );
+      linked += records.length;
+    }
+
+    console.log(`Linked ${linked} records to their titles.`);
+  } catch (error) {
+    console.error('Error migrating record titles:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+migrateRecordTitles();
@@ -0,0 +1,26 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './src/app.module';
+import { RecordService } from './src/api/record/record.service';
+import { AppConfig } from './src/app.config';
+
+// Hard-deletes records that have been soft-deleted for longer than
+// RECORD_TRASH_RETENTION_DAYS. Meant to be run periodically (e.g. from cron).
+async function purgeRecordTrash() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const purged = await app.get(RecordService).purgeTrash();
+    console.log(
+      `Purged ${purged} records deleted more than ${AppConfig.recordTrashRetentionDays} days ago.`,
+    );
+  } catch (error) {
+    console.error('Error purging record trash:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+purgeRecordTrash();
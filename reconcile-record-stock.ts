@@ -0,0 +1,96 @@
+import * as mongoose from 'mongoose';
+import { Record, RecordSchema } from './src/api/record/record.schema';
+import {
+  RecordStockMovement,
+  RecordStockMovementSchema,
+} from './src/api/record/record-stock-movement.schema';
+import { RecordStockMovementType } from './src/api/record/record.stock';
+import { AppConfig } from './src/app.config';
+
+// Books the stock of records written before the ledger existed (or seeded by
+// setup:db) as opening movements, and a correction wherever the stock at a
+// location differs from the sum of its movements there. Run it after
+// migrate:record-locations. Safe to re-run.
+async function reconcileRecordStock() {
+  const recordModel: mongoose.Model<Record> = mongoose.model<Record>(
+    'Record',
+    RecordSchema,
+  );
+  const movementModel: mongoose.Model<RecordStockMovement> =
+    mongoose.model<RecordStockMovement>(
+      'RecordStockMovement',
+      RecordStockMovementSchema,
+    );
+
+  try {
+    await mongoose.connect(AppConfig.mongoUrl);
+
+    // Booked stock per record and location
+    const ledger = new Map<string, Map<string, number>>();
+    for (const { _id, qty } of await movementModel.aggregate<{
+      _id: { recordId: mongoose.Types.ObjectId; location: string };
+      qty: number;
+    }>([
+      {
+        $group: {
+          _id: { recordId: '$recordId', location: '$location' },
+          qty: { $sum: '$quantity' },
+        },
+      },
+    ])) {
+      const recordId = String(_id.recordId);
+      if (!ledger.has(recordId)) ledger.set(recordId, new Map());
+      ledger.get(recordId).set(_id.location, qty);
+    }
+
+    let openings = 0;
+    let corrections = 0;
+    for await (const record of recordModel.find().select('stock').lean()) {
+      const booked = ledger.get(String(record._id));
+      const stock = new Map(
+        (record.stock ?? []).map(({ location, qty }) => [location, qty]),
+      );
+
+      for (const location of new Set([
+        ...stock.keys(),
+        ...(booked?.keys() ?? []),
+      ])) {
+        const qty = stock.get(location) ?? 0;
+        const difference = qty - (booked?.get(location) ?? 0);
+        if (!difference) continue;
+
+        await movementModel.create(
+          booked
+            ? {
+                recordId: record._id,
+                type: RecordStockMovementType.CORRECTION,
+                location,
+                quantity: difference,
+                balance: qty,
+                reason: 'Reconciled with the stored stock',
+              }
+            : {
+                recordId: record._id,
+                type: RecordStockMovementType.OPENING,
+                location,
+                quantity: qty,
+                balance: qty,
+              },
+        );
+        if (booked) corrections++;
+        else openings++;
+      }
+    }
+
+    console.log(
+      `Booked ${openings} opening movements and ${corrections} corrections.`,
+    );
+  } catch (error) {
+    console.error('Error reconciling record stock:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+reconcileRecordStock();
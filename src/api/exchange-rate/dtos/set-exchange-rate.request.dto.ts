@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsNumber, IsPositive } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetExchangeRateRequestDTO {
+  @ApiProperty({
+    description: 'Units of the currency per unit of the base currency',
+    type: Number,
+    example: 0.8567,
+  })
+  @IsNotEmpty()
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+}
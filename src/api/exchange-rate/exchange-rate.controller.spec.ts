@@ -0,0 +1,49 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExchangeRateController } from './exchange-rate.controller';
+import { ExchangeRateService } from './exchange-rate.service';
+
+describe('ExchangeRateController', () => {
+  let controller: ExchangeRateController;
+  let service: jest.Mocked<ExchangeRateService>;
+
+  const gbp = { currency: 'GBP', rate: 0.8567 };
+
+  beforeEach(async () => {
+    const mockExchangeRateService = {
+      findAll: jest.fn(),
+      setRate: jest.fn(),
+      deleteRate: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ExchangeRateController],
+      providers: [
+        { provide: ExchangeRateService, useValue: mockExchangeRateService },
+      ],
+    }).compile();
+
+    controller = module.get<ExchangeRateController>(ExchangeRateController);
+    service = module.get(ExchangeRateService);
+  });
+
+  it('should list the rates', async () => {
+    service.findAll.mockResolvedValue({ base: 'EUR', rates: [gbp] } as any);
+
+    expect(await controller.findAll()).toEqual({ base: 'EUR', rates: [gbp] });
+  });
+
+  it('should set a rate', async () => {
+    service.setRate.mockResolvedValue(gbp as any);
+
+    const result = await controller.setRate('GBP', { rate: 0.8567 });
+
+    expect(result).toEqual(gbp);
+    expect(service.setRate).toHaveBeenCalledWith('GBP', 0.8567);
+  });
+
+  it('should delete a rate', async () => {
+    await controller.deleteRate('GBP');
+
+    expect(service.deleteRate).toHaveBeenCalledWith('GBP');
+  });
+});
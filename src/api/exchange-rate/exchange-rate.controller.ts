@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Put,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import {
+  ExchangeRateService,
+  ExchangeRateTable,
+} from './exchange-rate.service';
+import { ExchangeRate } from './exchange-rate.schema';
+import { SetExchangeRateRequestDTO } from './dtos/set-exchange-rate.request.dto';
+
+@Controller('exchange-rates')
+export class ExchangeRateController {
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List the base currency and the rates against it',
+  })
+  @ApiResponse({ status: 200, description: 'Base currency and rates' })
+  async findAll(): Promise<ExchangeRateTable> {
+    return await this.exchangeRateService.findAll();
+  }
+
+  @Put(':currency')
+  @ApiOperation({ summary: 'Set the rate of a currency against the base' })
+  @ApiParam({ name: 'currency', example: 'GBP' })
+  @ApiResponse({ status: 200, description: 'Rate set' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid currency code, or the base currency',
+  })
+  async setRate(
+    @Param('currency') currency: string,
+    @Body() dto: SetExchangeRateRequestDTO,
+  ): Promise<ExchangeRate> {
+    return await this.exchangeRateService.setRate(currency, dto.rate);
+  }
+
+  @Delete(':currency')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Remove the rate of a currency' })
+  @ApiParam({ name: 'currency', example: 'GBP' })
+  @ApiResponse({ status: 204, description: 'Rate removed' })
+  @ApiResponse({ status: 404, description: 'No rate for the currency' })
+  async deleteRate(@Param('currency') currency: string): Promise<void> {
+    await this.exchangeRateService.deleteRate(currency);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExchangeRateController } from './exchange-rate.controller';
+import { ExchangeRateService } from './exchange-rate.service';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+import { ExchangeRateSchema } from './exchange-rate.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: 'ExchangeRate', schema: ExchangeRateSchema },
+    ]),
+  ],
+  controllers: [ExchangeRateController],
+  providers: [ExchangeRateService, ExchangeRateRepository],
+  exports: [ExchangeRateService],
+})
+export class ExchangeRateModule {}
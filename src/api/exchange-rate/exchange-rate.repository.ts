@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ExchangeRate } from './exchange-rate.schema';
+
+@Injectable()
+export class ExchangeRateRepository {
+  constructor(
+    @InjectModel('ExchangeRate')
+    private readonly exchangeRateModel: Model<ExchangeRate>,
+  ) {}
+
+  async findAll(): Promise<ExchangeRate[]> {
+    return await this.exchangeRateModel.find().sort({ currency: 1 }).exec();
+  }
+
+  async findByCurrency(currency: string): Promise<ExchangeRate | null> {
+    return await this.exchangeRateModel.findOne({ currency }).exec();
+  }
+
+  async upsert(currency: string, rate: number): Promise<ExchangeRate> {
+    return await this.exchangeRateModel
+      .findOneAndUpdate(
+        { currency },
+        { currency, rate },
+        { new: true, upsert: true, runValidators: true },
+      )
+      .exec();
+  }
+
+  async delete(currency: string): Promise<boolean> {
+    const { deletedCount } = await this.exchangeRateModel
+      .deleteOne({ currency })
+      .exec();
+    return deletedCount > 0;
+  }
+}
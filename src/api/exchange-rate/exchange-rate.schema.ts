@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/** Rate of one currency against the base currency prices are stored in */
+@Schema({ timestamps: true })
+export class ExchangeRate extends Document {
+  /** ISO 4217 code, e.g. GBP */
+  @Prop({ required: true, unique: true })
+  currency: string;
+
+  /** Units of the currency per unit of the base currency */
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
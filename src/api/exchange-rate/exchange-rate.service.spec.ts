@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ExchangeRateService } from './exchange-rate.service';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService;
+  let exchangeRateRepository: jest.Mocked<ExchangeRateRepository>;
+
+  const gbp = { currency: 'GBP', rate: 0.8567 };
+
+  beforeEach(async () => {
+    const mockExchangeRateRepository = {
+      findAll: jest.fn(),
+      findByCurrency: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangeRateService,
+        {
+          provide: ExchangeRateRepository,
+          useValue: mockExchangeRateRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExchangeRateService>(ExchangeRateService);
+    exchangeRateRepository = module.get(ExchangeRateRepository);
+  });
+
+  it('should list the rates with the base currency', async () => {
+    exchangeRateRepository.findAll.mockResolvedValue([gbp] as any);
+
+    expect(await service.findAll()).toEqual({ base: 'EUR', rates: [gbp] });
+  });
+
+  describe('setRate', () => {
+    it('should store the rate under the uppercase code', async () => {
+      exchangeRateRepository.upsert.mockResolvedValue(gbp as any);
+
+      const result = await service.setRate('gbp', 0.8567);
+
+      expect(result).toEqual(gbp);
+      expect(exchangeRateRepository.upsert).toHaveBeenCalledWith('GBP', 0.8567);
+    });
+
+    it('should reject codes outside ISO 4217', async () => {
+      await expect(service.setRate('XYZ', 2)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(exchangeRateRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a rate for the base currency', async () => {
+      await expect(service.setRate('EUR', 2)).rejects.toThrow(
+        'EUR is the base currency; its rate is always 1',
+      );
+    });
+  });
+
+  describe('deleteRate', () => {
+    it('should remove the rate', async () => {
+      exchangeRateRepository.delete.mockResolvedValue(true);
+
+      await service.deleteRate('GBP');
+
+      expect(exchangeRateRepository.delete).toHaveBeenCalledWith('GBP');
+    });
+
+    it('should throw NotFoundException when there is no rate', async () => {
+      exchangeRateRepository.delete.mockResolvedValue(false);
+
+      await expect(service.deleteRate('GBP')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getRate', () => {
+    it('should be 1 for the base currency', async () => {
+      expect(await service.getRate('EUR')).toBe(1);
+      expect(exchangeRateRepository.findByCurrency).not.toHaveBeenCalled();
+    });
+
+    it('should look up other currencies', async () => {
+      exchangeRateRepository.findByCurrency.mockResolvedValue(gbp as any);
+
+      expect(await service.getRate('GBP')).toBe(0.8567);
+    });
+
+    it('should explain how to add a missing rate', async () => {
+      exchangeRateRepository.findByCurrency.mockResolvedValue(null);
+
+      await expect(service.getRate('GBP')).rejects.toThrow(
+        'No exchange rate for GBP; set one with PUT /exchange-rates/GBP',
+      );
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { isISO4217CurrencyCode } from 'class-validator';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+import { ExchangeRate } from './exchange-rate.schema';
+import { AppConfig } from '../../app.config';
+
+export interface ExchangeRateTable {
+  /** Currency record prices are stored in */
+  base: string;
+  rates: ExchangeRate[];
+}
+
+@Injectable()
+export class ExchangeRateService {
+  readonly baseCurrency = AppConfig.baseCurrency;
+
+  constructor(
+    private readonly exchangeRateRepository: ExchangeRateRepository,
+  ) {}
+
+  async findAll(): Promise<ExchangeRateTable> {
+    return {
+      base: this.baseCurrency,
+      rates: await this.exchangeRateRepository.findAll(),
+    };
+  }
+
+  /** @param rate units of the currency per unit of the base currency */
+  async setRate(currency: string, rate: number): Promise<ExchangeRate> {
+    const code = this.parseCurrency(currency);
+    if (code === this.baseCurrency) {
+      throw new BadRequestException(
+        `${code} is the base currency; its rate is always 1`,
+      );
+    }
+    return await this.exchangeRateRepository.upsert(code, rate);
+  }
+
+  async deleteRate(currency: string): Promise<void> {
+    const code = this.parseCurrency(currency);
+    if (!(await this.exchangeRateRepository.delete(code))) {
+      throw new NotFoundException(`No exchange rate for ${code}`);
+    }
+  }
+
+  /**
+   * Units of the currency per unit of the base currency: 1 for the base
+   * itself, otherwise the rate from the table.
+   */
+  async getRate(currency: string): Promise<number> {
+    const code = this.parseCurrency(currency);
+    if (code === this.baseCurrency) return 1;
+
+    const exchangeRate = await this.exchangeRateRepository.findByCurrency(code);
+    if (!exchangeRate) {
+      throw new BadRequestException(
+        `No exchange rate for ${code}; set one with PUT /exchange-rates/${code}`,
+      );
+    }
+    return exchangeRate.rate;
+  }
+
+  // Codes are accepted in any case and stored uppercase
+  private parseCurrency(currency: string): string {
+    const code = currency.toUpperCase();
+    if (!isISO4217CurrencyCode(code)) {
+      throw new BadRequestException(
+        `"${currency}" is not an ISO 4217 currency code`,
+      );
+    }
+    return code;
+  }
+}
@@ -1,5 +1,17 @@
-import { IsNotEmpty, IsNumber, Min, IsMongoId } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsNumber,
+  Min,
+  IsMongoId,
+  IsOptional,
+  IsISO4217CurrencyCode,
+  IsString,
+  MaxLength,
+  IsIn,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { AppConfig } from '../../../app.config';
 
 export class CreateOrderRequestDTO {
   @ApiProperty({
@@ -20,4 +32,38 @@ export class CreateOrderRequestDTO {
   @IsNumber()
   @Min(1)
   quantity: number;
+
+  @ApiProperty({
+    description:
+      'ISO 4217 code to charge in; defaults to the base currency (see GET /exchange-rates)',
+    example: 'GBP',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Coupon code of a promotion (see GET /promotions)',
+    example: 'SPRING25',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  couponCode?: string;
+
+  @ApiProperty({
+    description:
+      'Location the order is fulfilled from; defaults to the first of STOCK_LOCATIONS',
+    enum: AppConfig.stockLocations,
+    example: 'warehouse',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(AppConfig.stockLocations)
+  location?: string;
 }
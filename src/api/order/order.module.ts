@@ -5,11 +5,15 @@ import { OrderService } from './order.service';
 import { OrderRepository } from './order.repository';
 import { OrderSchema } from './order.schema';
 import { RecordModule } from '../record/record.module';
+import { ExchangeRateModule } from '../exchange-rate/exchange-rate.module';
+import { PromotionModule } from '../promotion/promotion.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: 'Order', schema: OrderSchema }]),
     RecordModule,
+    ExchangeRateModule,
+    PromotionModule,
   ],
   controllers: [OrderController],
   providers: [OrderService, OrderRepository],
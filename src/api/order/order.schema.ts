@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { AppConfig } from '../../app.config';
 
 @Schema({ timestamps: true })
 export class Order extends Document {
@@ -9,8 +10,39 @@ export class Order extends Document {
   @Prop({ required: true, min: 1 })
   quantity: number;
 
+  // Where the stock was taken from
+  @Prop({ required: false })
+  location?: string;
+
+  // Unit list price in the order currency, before any promotion
   @Prop({ required: true, min: 0 })
   price: number;
+
+  // Taken off the order by the promotion applied, in the order currency
+  @Prop({ required: true, default: 0, min: 0 })
+  discount: number;
+
+  // Amount charged: quantity × price − discount
+  @Prop({ required: true, min: 0 })
+  total: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Promotion', required: false })
+  promotionId?: Types.ObjectId;
+
+  // Coupon quoted for the promotion applied
+  @Prop({ required: false })
+  couponCode?: string;
+
+  @Prop({ required: true, default: () => AppConfig.baseCurrency })
+  currency: string;
+
+  // Units of the order currency per unit of the base currency, as charged
+  @Prop({ required: true, default: 1 })
+  exchangeRate: number;
+
+  // Record price in the base currency at order time
+  @Prop({ min: 0 })
+  basePrice?: number;
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order);
@@ -2,14 +2,22 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { OrderService } from './order.service';
 import { OrderRepository } from './order.repository';
 import { RecordService } from '../record/record.service';
-import { ConflictException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { Types } from 'mongoose';
 import { RecordCategory, RecordFormat } from '../record/record.enum';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { PromotionService } from '../promotion/promotion.service';
 
 describe('OrderService', () => {
   let service: OrderService;
   let orderRepository: jest.Mocked<OrderRepository>;
   let recordService: jest.Mocked<RecordService>;
+  let exchangeRateService: jest.Mocked<ExchangeRateService>;
+  let promotionService: jest.Mocked<PromotionService>;
 
   const mockRecordId = new Types.ObjectId('507f1f77bcf86cd799439011');
 
@@ -37,9 +45,22 @@ describe('OrderService', () => {
     };
 
     const mockRecordService = {
-      findById: jest.fn(),
+      findById: jest.fn().mockResolvedValue(mockRecord),
       decrementStockIfAvailable: jest.fn(),
       incrementStock: jest.fn(),
+      resolvePrice: jest.fn(async (record: { price: number }) => record.price),
+      alertLowStock: jest.fn(),
+    };
+
+    const mockExchangeRateService = {
+      baseCurrency: 'EUR',
+      getRate: jest.fn().mockResolvedValue(1),
+    };
+
+    const mockPromotionService = {
+      quote: jest.fn().mockResolvedValue([]),
+      redeem: jest.fn().mockResolvedValue(null),
+      release: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -47,12 +68,16 @@ describe('OrderService', () => {
         OrderService,
         { provide: OrderRepository, useValue: mockOrderRepository },
         { provide: RecordService, useValue: mockRecordService },
+        { provide: ExchangeRateService, useValue: mockExchangeRateService },
+        { provide: PromotionService, useValue: mockPromotionService },
       ],
     }).compile();
 
     service = module.get<OrderService>(OrderService);
     orderRepository = module.get(OrderRepository);
     recordService = module.get(RecordService);
+    exchangeRateService = module.get(ExchangeRateService);
+    promotionService = module.get(PromotionService);
   });
 
   describe('create', () => {
@@ -72,15 +97,74 @@ describe('OrderService', () => {
       const result = await service.create(createDto);
 
       expect(result).toEqual(mockOrder);
+      // The sale in the stock ledger refers to the order
+      const [, , { reference }] =
+        recordService.decrementStockIfAvailable.mock.calls[0];
       expect(recordService.decrementStockIfAvailable).toHaveBeenCalledWith(
         createDto.recordId,
         createDto.quantity,
+        { location: 'shop-floor', reference },
       );
       expect(orderRepository.create).toHaveBeenCalledWith({
+        _id: new Types.ObjectId(reference),
         recordId: mockRecordId,
         quantity: 2,
+        location: 'shop-floor',
         price: 25,
+        currency: 'EUR',
+        exchangeRate: 1,
+        basePrice: 25,
+        discount: 0,
+        total: 50,
       });
+      expect(exchangeRateService.getRate).toHaveBeenCalledWith('EUR');
+    });
+
+    it('should charge in the requested currency at the current rate', async () => {
+      exchangeRateService.getRate.mockResolvedValue(0.8567);
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 8,
+      } as any);
+      orderRepository.create.mockResolvedValue(mockOrder as any);
+
+      await service.create({ ...createDto, currency: 'GBP' });
+
+      expect(exchangeRateService.getRate).toHaveBeenCalledWith('GBP');
+      expect(orderRepository.create).toHaveBeenCalledWith({
+        _id: expect.any(Types.ObjectId),
+        recordId: mockRecordId,
+        quantity: 2,
+        location: 'shop-floor',
+        price: 21.42,
+        currency: 'GBP',
+        exchangeRate: 0.8567,
+        basePrice: 25,
+        discount: 0,
+        total: 42.84,
+      });
+    });
+
+    it('should not take stock when the currency has no rate', async () => {
+      exchangeRateService.getRate.mockRejectedValue(
+        new BadRequestException('No exchange rate for GBP'),
+      );
+
+      await expect(
+        service.create({ ...createDto, currency: 'GBP' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(recordService.decrementStockIfAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should not take stock for an unknown record', async () => {
+      recordService.findById.mockRejectedValue(
+        new NotFoundException(`Record with ID ${mockRecordId} not found`),
+      );
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(recordService.decrementStockIfAvailable).not.toHaveBeenCalled();
     });
 
     it('should throw ConflictException when insufficient stock', async () => {
@@ -104,18 +188,45 @@ describe('OrderService', () => {
       await expect(service.create(createDto)).rejects.toThrow('Database error');
       expect(recordService.incrementStock).toHaveBeenCalledTimes(1);
 
-      const [calledRecordId, calledQuantity] =
+      const [calledRecordId, calledQuantity, movement] =
         recordService.incrementStock.mock.calls[0];
       expect(String(calledRecordId)).toMatch(/^[a-f0-9]{24}$/);
       expect(calledQuantity).toBe(createDto.quantity);
+      expect(movement).toEqual({
+        location: 'shop-floor',
+        reason: 'Order could not be placed',
+        reference:
+          recordService.decrementStockIfAvailable.mock.calls[0][2].reference,
+      });
     });
 
-    it('should capture price from record at order time', async () => {
-      const recordWithHighPrice = { ...mockRecord, price: 100, qty: 8 };
+    it('should take the stock from the fulfilment location', async () => {
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 8,
+      } as any);
+      orderRepository.create.mockResolvedValue(mockOrder as any);
 
-      recordService.decrementStockIfAvailable.mockResolvedValue(
-        recordWithHighPrice as any,
+      await service.create({ ...createDto, location: 'warehouse' });
+
+      expect(recordService.decrementStockIfAvailable).toHaveBeenCalledWith(
+        createDto.recordId,
+        createDto.quantity,
+        expect.objectContaining({ location: 'warehouse' }),
+      );
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ location: 'warehouse' }),
       );
+    });
+
+    it('should capture price from record at order time', async () => {
+      const recordWithHighPrice = { ...mockRecord, price: 100 };
+
+      recordService.findById.mockResolvedValue(recordWithHighPrice as any);
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...recordWithHighPrice,
+        qty: 8,
+      } as any);
       orderRepository.create.mockResolvedValue({
         ...mockOrder,
         price: 100,
@@ -129,6 +240,124 @@ describe('OrderService', () => {
       );
     });
 
+    it('should charge the scheduled price in effect at order time', async () => {
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 8,
+      } as any);
+      recordService.resolvePrice.mockResolvedValue(19.99);
+      orderRepository.create.mockResolvedValue(mockOrder as any);
+
+      await service.create(createDto);
+
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ price: 19.99, basePrice: 19.99 }),
+      );
+    });
+
+    it('should apply the promotion redeemed for the order', async () => {
+      const promotionId = new Types.ObjectId();
+      const offers = [
+        { promotion: { _id: promotionId, code: 'SPRING25' }, discount: 12.5 },
+      ];
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 8,
+      } as any);
+      promotionService.quote.mockResolvedValue(offers as any);
+      promotionService.redeem.mockResolvedValue(offers[0] as any);
+      orderRepository.create.mockResolvedValue(mockOrder as any);
+
+      await service.create({ ...createDto, couponCode: 'spring25' });
+
+      expect(promotionService.quote).toHaveBeenCalledWith({
+        record: mockRecord,
+        quantity: 2,
+        unitPrice: 25,
+        currency: 'EUR',
+        exchangeRate: 1,
+        couponCode: 'spring25',
+      });
+      expect(promotionService.redeem).toHaveBeenCalledWith(offers);
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          price: 25,
+          discount: 12.5,
+          total: 37.5,
+          promotionId,
+          couponCode: 'SPRING25',
+        }),
+      );
+    });
+
+    it('should give back stock and the promotion use on failure', async () => {
+      const promotionId = new Types.ObjectId();
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 8,
+      } as any);
+      promotionService.redeem.mockResolvedValue({
+        promotion: { _id: promotionId },
+        discount: 5,
+      } as any);
+      orderRepository.create.mockRejectedValue(new Error('Database error'));
+
+      await expect(service.create(createDto)).rejects.toThrow('Database error');
+      expect(promotionService.release).toHaveBeenCalledWith(promotionId);
+      expect(recordService.incrementStock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not take stock when the coupon does not apply', async () => {
+      promotionService.quote.mockRejectedValue(
+        new BadRequestException('Coupon "CDS" does not apply to this order'),
+      );
+
+      await expect(
+        service.create({ ...createDto, couponCode: 'CDS' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(recordService.decrementStockIfAvailable).not.toHaveBeenCalled();
+      expect(promotionService.redeem).not.toHaveBeenCalled();
+      expect(recordService.incrementStock).not.toHaveBeenCalled();
+      expect(orderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should check the stock left once the order is placed', async () => {
+      const updatedRecord = { ...mockRecord, qty: 1 };
+      recordService.decrementStockIfAvailable.mockResolvedValue(
+        updatedRecord as any,
+      );
+      orderRepository.create.mockResolvedValue(mockOrder as any);
+
+      await service.create(createDto);
+
+      expect(recordService.alertLowStock).toHaveBeenCalledWith(
+        updatedRecord,
+        2,
+      );
+    });
+
+    it('should not wait for the stock alert', async () => {
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 1,
+      } as any);
+      recordService.alertLowStock.mockReturnValue(new Promise(() => {}));
+      orderRepository.create.mockResolvedValue(mockOrder as any);
+
+      await expect(service.create(createDto)).resolves.toEqual(mockOrder);
+    });
+
+    it('should not check the stock of a failed order', async () => {
+      recordService.decrementStockIfAvailable.mockResolvedValue({
+        ...mockRecord,
+        qty: 1,
+      } as any);
+      orderRepository.create.mockRejectedValue(new Error('Database error'));
+
+      await expect(service.create(createDto)).rejects.toThrow('Database error');
+      expect(recordService.alertLowStock).not.toHaveBeenCalled();
+    });
+
     it('should handle order with quantity of 1', async () => {
       const singleItemDto = { recordId: mockRecordId.toString(), quantity: 1 };
       const updatedRecord = { ...mockRecord, qty: 9 };
@@ -4,6 +4,13 @@ import { Order } from './order.schema';
 import { RecordService } from '../record/record.service';
 import { OrderRepository } from './order.repository';
 import { CreateOrderRequestDTO } from './dtos/create-order.request.dto';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import {
+  PromotionRedemption,
+  PromotionService,
+} from '../promotion/promotion.service';
+import { convertMoney, roundMoney } from '../../common/utils/money.util';
+import { RECORD_DEFAULT_STOCK_LOCATION } from '../record/record.stock';
 
 @Injectable()
 export class OrderService {
@@ -12,33 +19,86 @@ export class OrderService {
   constructor(
     private readonly orderRepository: OrderRepository,
     private readonly recordService: RecordService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly promotionService: PromotionService,
   ) {}
 
   async create(dto: CreateOrderRequestDTO): Promise<Order> {
+    // Resolved first, so an unknown currency fails before stock is taken
+    const currency = dto.currency ?? this.exchangeRateService.baseCurrency;
+    const exchangeRate = await this.exchangeRateService.getRate(currency);
+
+    // Priced and checked against promotions before stock is taken, so an
+    // order refused for its coupon leaves nothing in the stock ledger.
+    // Scheduled prices and sales apply from their start, whether or not the
+    // stored price has caught up yet
+    const record = await this.recordService.findById(dto.recordId);
+    const basePrice = await this.recordService.resolvePrice(record);
+    const price = convertMoney(basePrice, exchangeRate, currency);
+    const offers = await this.promotionService.quote({
+      record,
+      quantity: dto.quantity,
+      unitPrice: price,
+      currency,
+      exchangeRate,
+      couponCode: dto.couponCode,
+    });
+
+    // Known up front so the stock movement can refer to the order
+    const orderId = new Types.ObjectId();
+    const location = dto.location ?? RECORD_DEFAULT_STOCK_LOCATION;
     const updatedRecord = await this.recordService.decrementStockIfAvailable(
       dto.recordId,
       dto.quantity,
+      { location, reference: String(orderId) },
     );
 
     if (!updatedRecord) {
-      throw new ConflictException('Insufficient stock');
+      throw new ConflictException(`Insufficient stock at ${location}`);
     }
 
+    let redemption: PromotionRedemption | null = null;
+    let order: Order;
     try {
-      return await this.orderRepository.create({
+      redemption = await this.promotionService.redeem(offers);
+      const discount = redemption?.discount ?? 0;
+
+      order = await this.orderRepository.create({
+        _id: orderId,
         recordId: updatedRecord._id as Types.ObjectId,
         quantity: dto.quantity,
-        price: updatedRecord.price,
+        location,
+        price,
+        currency,
+        exchangeRate,
+        basePrice,
+        discount,
+        total: roundMoney(price * dto.quantity - discount, currency),
+        promotionId: redemption?.promotion._id as Types.ObjectId,
+        couponCode: redemption?.promotion.code,
       });
     } catch (error) {
       this.logger.error(
         `Order creation failed, rolling back stock: ${error.message}`,
       );
+      if (redemption) {
+        await this.promotionService.release(redemption.promotion._id as string);
+      }
       await this.recordService.incrementStock(
         updatedRecord._id as string,
         dto.quantity,
+        {
+          location,
+          reason: 'Order could not be placed',
+          reference: String(orderId),
+        },
       );
       throw error;
     }
+
+    // Not awaited: alertLowStock logs its own failures, and a slow alert
+    // endpoint must not hold up the order
+    void this.recordService.alertLowStock(updatedRecord, dto.quantity);
+    return order;
   }
 }
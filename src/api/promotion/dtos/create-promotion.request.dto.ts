@@ -0,0 +1,169 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PromotionType } from '../promotion.enum';
+import { normalizeCouponCode } from '../promotion.rules';
+import { RecordCategory, RecordFormat } from '../../record/record.enum';
+
+// Scope lists are kept short; a long list of records is better as a category
+const PROMOTION_MAX_SCOPE = 100;
+
+export class CreatePromotionRequestDTO {
+  @ApiProperty({ description: 'Shown to staff', example: '20% off Jazz vinyl' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: PromotionType, example: PromotionType.PERCENTAGE })
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @ApiProperty({
+    description:
+      'Percentage off (percentage), or amount off each unit in the base currency (fixed-amount)',
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiProperty({
+    description: 'Units to pay for per group (buy-x-get-y)',
+    example: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiProperty({
+    description: 'Free units per group (buy-x-get-y)',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  freeQuantity?: number;
+
+  @ApiProperty({
+    description:
+      'Only records in one of these categories (GET /taxonomy/category)',
+    example: [RecordCategory.JAZZ],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PROMOTION_MAX_SCOPE)
+  @IsString({ each: true })
+  categories?: string[];
+
+  @ApiProperty({
+    description: 'Only records in one of these formats (GET /taxonomy/format)',
+    example: [RecordFormat.VINYL],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PROMOTION_MAX_SCOPE)
+  @IsString({ each: true })
+  formats?: string[];
+
+  @ApiProperty({
+    description: 'Only records by one of these artists (case-insensitive)',
+    example: ['Miles Davis'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PROMOTION_MAX_SCOPE)
+  @IsString({ each: true })
+  artists?: string[];
+
+  @ApiProperty({
+    description: 'Only these records',
+    example: ['507f1f77bcf86cd799439011'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(PROMOTION_MAX_SCOPE)
+  @IsMongoId({ each: true })
+  recordIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Coupon code; when set the promotion only applies to orders quoting it',
+    example: 'SPRING25',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? normalizeCouponCode(value) : value,
+  )
+  @Matches(/^[A-Z0-9_-]{3,32}$/, {
+    message: 'code must be 3 to 32 letters, digits, - or _',
+  })
+  code?: string;
+
+  @ApiProperty({
+    description: 'Start of the promotion (ISO 8601); open-ended when unset',
+    example: '2025-11-28T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startsAt?: Date;
+
+  @ApiProperty({
+    description: 'End of the promotion (ISO 8601); open-ended when unset',
+    example: '2025-12-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date;
+
+  @ApiProperty({
+    description: 'Orders the promotion can apply to in total',
+    example: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiProperty({
+    description: 'Inactive promotions are kept but never applied',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
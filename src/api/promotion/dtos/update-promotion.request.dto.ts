@@ -0,0 +1,43 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { CreatePromotionRequestDTO } from './create-promotion.request.dto';
+
+// Validation is inherited; IsOptional lets null through, which removes the field
+export class UpdatePromotionRequestDTO extends PartialType(
+  CreatePromotionRequestDTO,
+) {
+  @ApiProperty({
+    description:
+      'Coupon code; null removes it so the promotion applies to every order',
+    example: 'SPRING25',
+    required: false,
+    nullable: true,
+  })
+  code?: string | null;
+
+  @ApiProperty({
+    description: 'Start of the promotion (ISO 8601); null makes it open-ended',
+    example: '2025-11-28T00:00:00.000Z',
+    type: String,
+    required: false,
+    nullable: true,
+  })
+  startsAt?: Date | null;
+
+  @ApiProperty({
+    description: 'End of the promotion (ISO 8601); null makes it open-ended',
+    example: '2025-12-01T00:00:00.000Z',
+    type: String,
+    required: false,
+    nullable: true,
+  })
+  endsAt?: Date | null;
+
+  @ApiProperty({
+    description:
+      'Orders the promotion can apply to in total; null lifts the limit',
+    example: 100,
+    required: false,
+    nullable: true,
+  })
+  usageLimit?: number | null;
+}
@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PromotionController } from './promotion.controller';
+import { PromotionService } from './promotion.service';
+import { PromotionType } from './promotion.enum';
+
+describe('PromotionController', () => {
+  let controller: PromotionController;
+  let service: jest.Mocked<PromotionService>;
+
+  const promotionId = '507f1f77bcf86cd799439031';
+  const promotion = {
+    _id: promotionId,
+    name: '20% off Jazz vinyl',
+    type: PromotionType.PERCENTAGE,
+    value: 20,
+  };
+
+  beforeEach(async () => {
+    const mockPromotionService = {
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PromotionController],
+      providers: [
+        { provide: PromotionService, useValue: mockPromotionService },
+      ],
+    }).compile();
+
+    controller = module.get<PromotionController>(PromotionController);
+    service = module.get(PromotionService);
+  });
+
+  it('should list promotions', async () => {
+    service.findAll.mockResolvedValue([promotion] as any);
+
+    expect(await controller.findAll()).toEqual([promotion]);
+  });
+
+  it('should get a promotion', async () => {
+    service.findById.mockResolvedValue(promotion as any);
+
+    expect(await controller.findById(promotionId)).toEqual(promotion);
+    expect(service.findById).toHaveBeenCalledWith(promotionId);
+  });
+
+  it('should create a promotion', async () => {
+    const dto = {
+      name: '20% off Jazz vinyl',
+      type: PromotionType.PERCENTAGE,
+      value: 20,
+    };
+    service.create.mockResolvedValue(promotion as any);
+
+    expect(await controller.create(dto)).toEqual(promotion);
+    expect(service.create).toHaveBeenCalledWith(dto);
+  });
+
+  it('should update a promotion', async () => {
+    service.update.mockResolvedValue({ ...promotion, active: false } as any);
+
+    await controller.update(promotionId, { active: false });
+
+    expect(service.update).toHaveBeenCalledWith(promotionId, {
+      active: false,
+    });
+  });
+
+  it('should delete a promotion', async () => {
+    await controller.delete(promotionId);
+
+    expect(service.delete).toHaveBeenCalledWith(promotionId);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { PromotionService } from './promotion.service';
+import { Promotion } from './promotion.schema';
+import { CreatePromotionRequestDTO } from './dtos/create-promotion.request.dto';
+import { UpdatePromotionRequestDTO } from './dtos/update-promotion.request.dto';
+
+@Controller('promotions')
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List promotions, newest first' })
+  @ApiResponse({ status: 200, description: 'Promotions' })
+  async findAll(): Promise<Promotion[]> {
+    return await this.promotionService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a promotion with its usage count' })
+  @ApiParam({ name: 'id', description: 'Promotion ID' })
+  @ApiResponse({ status: 200, description: 'Promotion' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  async findById(@Param('id') id: string): Promise<Promotion> {
+    return await this.promotionService.findById(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a promotion' })
+  @ApiResponse({ status: 201, description: 'Promotion created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid rule, scope or date window',
+  })
+  @ApiResponse({ status: 409, description: 'Coupon code already in use' })
+  async create(@Body() dto: CreatePromotionRequestDTO): Promise<Promotion> {
+    return await this.promotionService.create(dto);
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Change a promotion; orders already placed keep their discount',
+  })
+  @ApiParam({ name: 'id', description: 'Promotion ID' })
+  @ApiResponse({ status: 200, description: 'Promotion updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid rule, scope or date window',
+  })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  @ApiResponse({ status: 409, description: 'Coupon code already in use' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdatePromotionRequestDTO,
+  ): Promise<Promotion> {
+    return await this.promotionService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a promotion' })
+  @ApiParam({ name: 'id', description: 'Promotion ID' })
+  @ApiResponse({ status: 204, description: 'Promotion deleted' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  async delete(@Param('id') id: string): Promise<void> {
+    await this.promotionService.delete(id);
+  }
+}
@@ -0,0 +1,8 @@
+export enum PromotionType {
+  // value is a percentage off the list price
+  PERCENTAGE = 'percentage',
+  // value is an amount off each unit, in the base currency
+  FIXED_AMOUNT = 'fixed-amount',
+  // Of every buyQuantity + freeQuantity units, freeQuantity are free
+  BUY_X_GET_Y = 'buy-x-get-y',
+}
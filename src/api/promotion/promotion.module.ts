@@ -0,0 +1,20 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PromotionController } from './promotion.controller';
+import { PromotionService } from './promotion.service';
+import { PromotionRepository } from './promotion.repository';
+import { PromotionSchema } from './promotion.schema';
+import { TaxonomyModule } from '../taxonomy/taxonomy.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: 'Promotion', schema: PromotionSchema }]),
+    // Scope values are checked against the taxonomy, which imports this
+    // module to rename them
+    forwardRef(() => TaxonomyModule),
+  ],
+  controllers: [PromotionController],
+  providers: [PromotionService, PromotionRepository],
+  exports: [PromotionService],
+})
+export class PromotionModule {}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, UpdateQuery } from 'mongoose';
+import { Promotion } from './promotion.schema';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
+
+// Scope list holding the values of each taxonomy kind
+const SCOPE_FIELDS: { [kind in TaxonomyKind]: 'formats' | 'categories' } = {
+  [TaxonomyKind.FORMAT]: 'formats',
+  [TaxonomyKind.CATEGORY]: 'categories',
+};
+
+@Injectable()
+export class PromotionRepository {
+  constructor(
+    @InjectModel('Promotion')
+    private readonly promotionModel: Model<Promotion>,
+  ) {}
+
+  async create(data: Partial<Promotion>): Promise<Promotion> {
+    return await this.promotionModel.create(data);
+  }
+
+  async findAll(): Promise<Promotion[]> {
+    return await this.promotionModel.find().sort({ createdAt: -1 }).exec();
+  }
+
+  async findById(id: string): Promise<Promotion | null> {
+    return await this.promotionModel.findById(id).exec();
+  }
+
+  /** Sets the fields in `data` and removes those listed in `unset` */
+  async update(
+    id: string,
+    data: Partial<Promotion>,
+    unset: (keyof Promotion)[] = [],
+  ): Promise<Promotion> {
+    const update: UpdateQuery<Promotion> = { $set: data };
+    if (unset.length) {
+      update.$unset = Object.fromEntries(unset.map((field) => [field, 1]));
+    }
+    return await this.promotionModel
+      .findByIdAndUpdate(id, update, { new: true, runValidators: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { deletedCount } = await this.promotionModel
+      .deleteOne({ _id: id })
+      .exec();
+    return deletedCount > 0;
+  }
+
+  async countByTaxonomyValue(
+    kind: TaxonomyKind,
+    value: string,
+  ): Promise<number> {
+    return await this.promotionModel
+      .countDocuments({ [SCOPE_FIELDS[kind]]: value })
+      .exec();
+  }
+
+  /**
+   * Replaces `from` with `to` in the scope of every promotion using it,
+   * dropping the duplicate when the scope already lists `to`. Returns how
+   * many promotions changed.
+   */
+  async reassignTaxonomyValue(
+    kind: TaxonomyKind,
+    from: string,
+    to: string,
+  ): Promise<number> {
+    const field = SCOPE_FIELDS[kind];
+    const { modifiedCount } = await this.promotionModel
+      .updateMany({ [field]: from }, [
+        {
+          $set: {
+            [field]: {
+              $setUnion: [
+                {
+                  $map: {
+                    input: `$${field}`,
+                    in: { $cond: [{ $eq: ['$$this', from] }, to, '$$this'] },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      ])
+      .exec();
+    return modifiedCount;
+  }
+
+  /**
+   * Active promotions whose window includes `at`: those without a coupon,
+   * plus the one with `code` when given. Scope and usage are left to the
+   * caller.
+   */
+  async findRunning(at: Date, code?: string): Promise<Promotion[]> {
+    return await this.promotionModel
+      .find({
+        active: true,
+        code: code ? { $in: [null, code] } : null,
+        $and: [
+          { $or: [{ startsAt: null }, { startsAt: { $lte: at } }] },
+          { $or: [{ endsAt: null }, { endsAt: { $gt: at } }] },
+        ],
+      })
+      .exec();
+  }
+
+  /**
+   * Counts one use unless the limit is reached, in a single update so
+   * concurrent orders cannot exceed it. Returns null when used up.
+   */
+  async incrementUsage(id: string): Promise<Promotion | null> {
+    return await this.promotionModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          $or: [
+            { usageLimit: null },
+            { $expr: { $lt: ['$usageCount', '$usageLimit'] } },
+          ],
+        },
+        { $inc: { usageCount: 1 } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async decrementUsage(id: string): Promise<void> {
+    await this.promotionModel
+      .updateOne(
+        { _id: id, usageCount: { $gt: 0 } },
+        { $inc: { usageCount: -1 } },
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,118 @@
+import { Types } from 'mongoose';
+import { PromotionType } from './promotion.enum';
+import { normalizeText } from '../../common/utils/normalize-text.util';
+import { convertMoney, roundMoney } from '../../common/utils/money.util';
+
+/** Fields that decide what a promotion takes off and when */
+export interface PromotionRule {
+  type: PromotionType;
+  value?: number;
+  buyQuantity?: number;
+  freeQuantity?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+}
+
+export interface PromotionCandidate extends PromotionRule {
+  categories: string[];
+  formats: string[];
+  artists: string[];
+  recordIds: Types.ObjectId[];
+  usageLimit?: number;
+  usageCount: number;
+  active: boolean;
+}
+
+/** What scopes can match on a record */
+export interface PromotionTarget {
+  _id: unknown;
+  artist: string;
+  format: string;
+  category: string;
+}
+
+/** Why the rule is inconsistent, or null when it can be applied */
+export function promotionRuleError(rule: PromotionRule): string | null {
+  switch (rule.type) {
+    case PromotionType.PERCENTAGE:
+      if (!(rule.value > 0 && rule.value <= 100)) {
+        return 'A percentage promotion needs a value above 0 and up to 100';
+      }
+      break;
+    case PromotionType.FIXED_AMOUNT:
+      if (!(rule.value > 0)) {
+        return 'A fixed-amount promotion needs a value above 0';
+      }
+      break;
+    case PromotionType.BUY_X_GET_Y:
+      if (!rule.buyQuantity || !rule.freeQuantity) {
+        return 'A buy-x-get-y promotion needs buyQuantity and freeQuantity';
+      }
+      break;
+  }
+  if (rule.startsAt && rule.endsAt && rule.endsAt <= rule.startsAt) {
+    return 'endsAt must be after startsAt';
+  }
+  return null;
+}
+
+// Coupons are matched case-insensitively and stored uppercase
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Active, within its window, not used up and scoped to include the record */
+export function promotionAppliesTo(
+  promotion: PromotionCandidate,
+  record: PromotionTarget,
+  at: Date,
+): boolean {
+  if (!promotion.active) return false;
+  if (promotion.startsAt && promotion.startsAt > at) return false;
+  if (promotion.endsAt && promotion.endsAt <= at) return false;
+  if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) {
+    return false;
+  }
+
+  const inScope = <T>(values: readonly T[], matches: (value: T) => boolean) =>
+    !values?.length || values.some(matches);
+  const artistKey = normalizeText(record.artist);
+
+  return (
+    inScope(promotion.categories, (category) => category === record.category) &&
+    inScope(promotion.formats, (format) => format === record.format) &&
+    inScope(
+      promotion.artists,
+      (artist) => normalizeText(artist) === artistKey,
+    ) &&
+    inScope(promotion.recordIds, (id) => String(id) === String(record._id))
+  );
+}
+
+/**
+ * Amount taken off `quantity` units at `unitPrice`, in the order currency.
+ * Fixed amounts are in the base currency and converted at `exchangeRate`;
+ * no unit is discounted below zero.
+ */
+export function promotionDiscount(
+  rule: PromotionRule,
+  unitPrice: number,
+  quantity: number,
+  exchangeRate: number,
+  currency: string,
+): number {
+  switch (rule.type) {
+    case PromotionType.PERCENTAGE:
+      return roundMoney((unitPrice * quantity * rule.value) / 100, currency);
+    case PromotionType.FIXED_AMOUNT: {
+      const amount = convertMoney(rule.value, exchangeRate, currency);
+      return roundMoney(Math.min(amount, unitPrice) * quantity, currency);
+    }
+    case PromotionType.BUY_X_GET_Y: {
+      const groups = Math.floor(
+        quantity / (rule.buyQuantity + rule.freeQuantity),
+      );
+      return roundMoney(groups * rule.freeQuantity * unitPrice, currency);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PromotionType } from './promotion.enum';
+
+@Schema({ timestamps: true })
+export class Promotion extends Document {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, enum: PromotionType })
+  type: PromotionType;
+
+  // Percentage or amount off; unused by buy-x-get-y
+  @Prop({ min: 0 })
+  value?: number;
+
+  @Prop({ min: 1 })
+  buyQuantity?: number;
+
+  @Prop({ min: 1 })
+  freeQuantity?: number;
+
+  // Scope: a record must match every list that is not empty, so a
+  // promotion without any applies to the whole catalog
+  @Prop({ type: [String], default: [] })
+  categories: string[];
+
+  @Prop({ type: [String], default: [] })
+  formats: string[];
+
+  // Matched case- and accent-insensitively
+  @Prop({ type: [String], default: [] })
+  artists: string[];
+
+  @Prop({ type: [Types.ObjectId], ref: 'Record', default: [] })
+  recordIds: Types.ObjectId[];
+
+  // Uppercase coupon; promotions with one only apply to orders quoting it
+  @Prop({ required: false })
+  code?: string;
+
+  @Prop({ required: false })
+  startsAt?: Date;
+
+  @Prop({ required: false })
+  endsAt?: Date;
+
+  // Orders the promotion can be applied to in total; unlimited when unset
+  @Prop({ min: 1 })
+  usageLimit?: number;
+
+  @Prop({ required: true, default: 0, min: 0 })
+  usageCount: number;
+
+  @Prop({ required: true, default: true })
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PromotionSchema = SchemaFactory.createForClass(Promotion);
+
+PromotionSchema.index(
+  { code: 1 },
+  { unique: true, partialFilterExpression: { code: { $type: 'string' } } },
+);
+PromotionSchema.index({ active: 1, startsAt: 1, endsAt: 1 });
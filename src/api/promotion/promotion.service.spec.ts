@@ -0,0 +1,370 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PromotionOrder, PromotionService } from './promotion.service';
+import { PromotionRepository } from './promotion.repository';
+import { PromotionType } from './promotion.enum';
+import { RecordCategory, RecordFormat } from '../record/record.enum';
+import { TaxonomyService } from '../taxonomy/taxonomy.service';
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+  let promotionRepository: jest.Mocked<PromotionRepository>;
+  let taxonomyService: jest.Mocked<TaxonomyService>;
+
+  const now = new Date('2025-06-01T12:00:00.000Z');
+  const promotionId = '507f1f77bcf86cd799439031';
+
+  const record = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    artist: 'Miles Davis',
+    format: RecordFormat.VINYL,
+    category: RecordCategory.JAZZ,
+  };
+
+  const promotion = (fields: object = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Promotion',
+    type: PromotionType.PERCENTAGE,
+    value: 20,
+    categories: [],
+    formats: [],
+    artists: [],
+    recordIds: [],
+    usageCount: 0,
+    active: true,
+    ...fields,
+  });
+
+  const order = (fields: object = {}) => ({
+    record,
+    quantity: 4,
+    unitPrice: 25,
+    currency: 'EUR',
+    exchangeRate: 1,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    const mockPromotionRepository = {
+      create: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      findRunning: jest.fn().mockResolvedValue([]),
+      incrementUsage: jest.fn(async (id: string) => ({ _id: id })),
+      decrementUsage: jest.fn(),
+    };
+
+    const mockTaxonomyService = {
+      hasValue: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionService,
+        { provide: PromotionRepository, useValue: mockPromotionRepository },
+        { provide: TaxonomyService, useValue: mockTaxonomyService },
+      ],
+    }).compile();
+
+    service = module.get<PromotionService>(PromotionService);
+    promotionRepository = module.get(PromotionRepository);
+    taxonomyService = module.get(TaxonomyService);
+  });
+
+  describe('create', () => {
+    it('should store the promotion with record ids as ObjectIds', async () => {
+      promotionRepository.create.mockResolvedValue(promotion() as any);
+
+      await service.create({
+        name: '20% off Jazz vinyl',
+        type: PromotionType.PERCENTAGE,
+        value: 20,
+        categories: [RecordCategory.JAZZ],
+        recordIds: [String(record._id)],
+      });
+
+      expect(promotionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          categories: [RecordCategory.JAZZ],
+          recordIds: [record._id],
+        }),
+      );
+    });
+
+    it('should reject formats missing from the taxonomy', async () => {
+      taxonomyService.hasValue.mockImplementation(
+        async (kind, value) => value !== 'Wax Cylinder',
+      );
+
+      await expect(
+        service.create({
+          name: 'Cylinders',
+          type: PromotionType.PERCENTAGE,
+          value: 10,
+          formats: [RecordFormat.VINYL, 'Wax Cylinder'],
+        }),
+      ).rejects.toThrow(
+        'formats must only contain values listed by GET /taxonomy/format',
+      );
+      expect(promotionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ type: PromotionType.PERCENTAGE, value: 120 }, 'up to 100'],
+      [{ type: PromotionType.FIXED_AMOUNT }, 'needs a value above 0'],
+      [{ type: PromotionType.BUY_X_GET_Y, buyQuantity: 3 }, 'freeQuantity'],
+      [
+        {
+          type: PromotionType.PERCENTAGE,
+          value: 10,
+          startsAt: now,
+          endsAt: now,
+        },
+        'endsAt must be after startsAt',
+      ],
+    ])('should reject the inconsistent rule %j', async (rule, message) => {
+      await expect(service.create({ name: 'Bad', ...rule })).rejects.toThrow(
+        message,
+      );
+      expect(promotionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException for a coupon code in use', async () => {
+      promotionRepository.create.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.create({
+          name: 'Spring',
+          type: PromotionType.PERCENTAGE,
+          value: 10,
+          code: 'SPRING25',
+        }),
+      ).rejects.toThrow('Coupon code "SPRING25" is already in use');
+    });
+  });
+
+  describe('update', () => {
+    it('should check the rule against the stored fields', async () => {
+      promotionRepository.findById.mockResolvedValue(
+        promotion({ type: PromotionType.BUY_X_GET_Y, value: undefined }) as any,
+      );
+
+      await expect(
+        service.update(promotionId, { buyQuantity: 3 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(promotionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should update the promotion', async () => {
+      promotionRepository.findById.mockResolvedValue(promotion() as any);
+      promotionRepository.update.mockResolvedValue(
+        promotion({ value: 30 }) as any,
+      );
+
+      const result = await service.update(promotionId, { value: 30 });
+
+      expect(result.value).toBe(30);
+      expect(promotionRepository.update).toHaveBeenCalledWith(
+        promotionId,
+        { value: 30, recordIds: undefined },
+        [],
+      );
+    });
+
+    it('should remove the optional fields sent as null', async () => {
+      promotionRepository.findById.mockResolvedValue(
+        promotion({
+          code: 'SPRING25',
+          startsAt: new Date('2025-06-10T00:00:00.000Z'),
+          endsAt: new Date('2025-06-20T00:00:00.000Z'),
+          usageLimit: 10,
+        }) as any,
+      );
+      promotionRepository.update.mockResolvedValue(promotion() as any);
+
+      // Ending before the old start is fine once the start is removed
+      await service.update(promotionId, {
+        code: null,
+        startsAt: null,
+        endsAt: new Date('2025-06-05T00:00:00.000Z'),
+        usageLimit: null,
+      });
+
+      expect(promotionRepository.update).toHaveBeenCalledWith(
+        promotionId,
+        { endsAt: new Date('2025-06-05T00:00:00.000Z'), recordIds: undefined },
+        ['code', 'startsAt', 'usageLimit'],
+      );
+    });
+
+    it('should throw ConflictException for a coupon code in use', async () => {
+      promotionRepository.findById.mockResolvedValue(promotion() as any);
+      promotionRepository.update.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.update(promotionId, { code: 'SPRING25' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw NotFoundException for an unknown id', async () => {
+      await expect(service.update('not-an-id', { value: 30 })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(promotionRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should throw NotFoundException when nothing was deleted', async () => {
+      promotionRepository.delete.mockResolvedValue(false);
+
+      await expect(service.delete(promotionId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('quote and redeem', () => {
+    // The best offer for the order, its use counted
+    const best = async (promotionOrder: PromotionOrder) =>
+      await service.redeem(await service.quote(promotionOrder, now));
+
+    it('should return null when no promotion applies', async () => {
+      expect(await best(order())).toBeNull();
+      expect(promotionRepository.findRunning).toHaveBeenCalledWith(
+        now,
+        undefined,
+      );
+    });
+
+    it('should take a percentage off the order', async () => {
+      const jazz = promotion({ categories: [RecordCategory.JAZZ] });
+      promotionRepository.findRunning.mockResolvedValue([jazz] as any);
+
+      const redemption = await best(order());
+
+      expect(redemption.discount).toBe(20);
+      expect(promotionRepository.incrementUsage).toHaveBeenCalledWith(jazz._id);
+    });
+
+    it('should give every fourth unit free on buy 3 get 1', async () => {
+      promotionRepository.findRunning.mockResolvedValue([
+        promotion({
+          type: PromotionType.BUY_X_GET_Y,
+          value: undefined,
+          buyQuantity: 3,
+          freeQuantity: 1,
+        }),
+      ] as any);
+
+      expect((await best(order({ quantity: 7 }))).discount).toBe(25);
+      expect(await best(order({ quantity: 3 }))).toBeNull();
+    });
+
+    it('should convert fixed amounts and not discount below zero', async () => {
+      promotionRepository.findRunning.mockResolvedValue([
+        promotion({ type: PromotionType.FIXED_AMOUNT, value: 5 }),
+      ] as any);
+
+      const gbp = order({ currency: 'GBP', exchangeRate: 0.8567 });
+      expect((await best(gbp)).discount).toBe(17.12);
+
+      const cheap = order({ unitPrice: 3, quantity: 2 });
+      expect((await best(cheap)).discount).toBe(6);
+    });
+
+    it('should skip promotions scoped to other records', async () => {
+      promotionRepository.findRunning.mockResolvedValue([
+        promotion({ formats: [RecordFormat.CD] }),
+        promotion({ artists: ['John Coltrane'] }),
+        promotion({ recordIds: [new Types.ObjectId()] }),
+        promotion({ endsAt: now }),
+        promotion({ usageLimit: 5, usageCount: 5 }),
+        promotion({ active: false }),
+      ] as any);
+
+      expect(await best(order())).toBeNull();
+    });
+
+    it('should match artists case- and accent-insensitively', async () => {
+      promotionRepository.findRunning.mockResolvedValue([
+        promotion({ artists: ['miles  DAVIS'] }),
+      ] as any);
+
+      expect(await best(order())).not.toBeNull();
+    });
+
+    it('should apply the largest discount and not stack', async () => {
+      const small = promotion({ value: 10 });
+      const large = promotion({ value: 30 });
+      promotionRepository.findRunning.mockResolvedValue([small, large] as any);
+
+      const redemption = await best(order());
+
+      expect(redemption.discount).toBe(30);
+      expect(promotionRepository.incrementUsage).toHaveBeenCalledTimes(1);
+      expect(promotionRepository.incrementUsage).toHaveBeenCalledWith(
+        large._id,
+      );
+    });
+
+    it('should fall back when the best promotion was used up meanwhile', async () => {
+      const small = promotion({ value: 10 });
+      const large = promotion({ value: 30, usageLimit: 1 });
+      promotionRepository.findRunning.mockResolvedValue([small, large] as any);
+      promotionRepository.incrementUsage.mockImplementation(async (id) =>
+        String(id) === String(large._id) ? null : ({ _id: id } as any),
+      );
+
+      expect((await best(order())).discount).toBe(10);
+    });
+
+    it('should look up a quoted coupon in uppercase', async () => {
+      const spring = promotion({ code: 'SPRING25', value: 25 });
+      promotionRepository.findRunning.mockResolvedValue([spring] as any);
+
+      const redemption = await best(order({ couponCode: ' spring25 ' }));
+
+      expect(redemption.discount).toBe(25);
+      expect(promotionRepository.findRunning).toHaveBeenCalledWith(
+        now,
+        'SPRING25',
+      );
+    });
+
+    it('should refuse a coupon that does not apply', async () => {
+      promotionRepository.findRunning.mockResolvedValue([
+        promotion({ code: 'CDS', formats: [RecordFormat.CD] }),
+      ] as any);
+
+      await expect(
+        service.quote(order({ couponCode: 'CDS' }), now),
+      ).rejects.toThrow('Coupon "CDS" does not apply to this order');
+      expect(promotionRepository.incrementUsage).not.toHaveBeenCalled();
+    });
+
+    it('should not count a use while quoting', async () => {
+      promotionRepository.findRunning.mockResolvedValue([promotion()] as any);
+
+      const offers = await service.quote(order(), now);
+
+      expect(offers).toHaveLength(1);
+      expect(promotionRepository.incrementUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should give back a use', async () => {
+    await service.release(promotionId);
+
+    expect(promotionRepository.decrementUsage).toHaveBeenCalledWith(
+      promotionId,
+    );
+  });
+});
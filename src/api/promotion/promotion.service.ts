@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PromotionRepository } from './promotion.repository';
+import { Promotion } from './promotion.schema';
+import {
+  PromotionRule,
+  PromotionTarget,
+  normalizeCouponCode,
+  promotionAppliesTo,
+  promotionDiscount,
+  promotionRuleError,
+} from './promotion.rules';
+import { CreatePromotionRequestDTO } from './dtos/create-promotion.request.dto';
+import { UpdatePromotionRequestDTO } from './dtos/update-promotion.request.dto';
+import { TaxonomyService } from '../taxonomy/taxonomy.service';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
+import { MongoErrorCode } from '../../common/constants/error-codes.constants';
+
+export interface PromotionOrder {
+  record: PromotionTarget;
+  quantity: number;
+  /** List price of one unit, in the order currency */
+  unitPrice: number;
+  currency: string;
+  /** Units of the order currency per unit of the base currency */
+  exchangeRate: number;
+  couponCode?: string;
+}
+
+export interface PromotionRedemption {
+  promotion: Promotion;
+  /** Taken off the order total, in the order currency */
+  discount: number;
+}
+
+// Optional fields an update removes when they are sent as null
+const PROMOTION_CLEARABLE_FIELDS = [
+  'code',
+  'startsAt',
+  'endsAt',
+  'usageLimit',
+] as const;
+
+@Injectable()
+export class PromotionService {
+  constructor(
+    private readonly promotionRepository: PromotionRepository,
+    // The taxonomy moves promotions along when a value is renamed
+    @Inject(forwardRef(() => TaxonomyService))
+    private readonly taxonomyService: TaxonomyService,
+  ) {}
+
+  async findAll(): Promise<Promotion[]> {
+    return await this.promotionRepository.findAll();
+  }
+
+  async findById(id: string): Promise<Promotion> {
+    const promotion = Types.ObjectId.isValid(id)
+      ? await this.promotionRepository.findById(id)
+      : null;
+    if (!promotion) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+    return promotion;
+  }
+
+  async create(dto: CreatePromotionRequestDTO): Promise<Promotion> {
+    this.checkRule(dto);
+    await this.checkScope(dto);
+    return await this.save(dto.code, () =>
+      this.promotionRepository.create({
+        ...dto,
+        recordIds: dto.recordIds?.map((id) => new Types.ObjectId(id)),
+      }),
+    );
+  }
+
+  async update(id: string, dto: UpdatePromotionRequestDTO): Promise<Promotion> {
+    const promotion = await this.findById(id);
+    this.checkRule({
+      type: dto.type ?? promotion.type,
+      value: dto.value ?? promotion.value,
+      buyQuantity: dto.buyQuantity ?? promotion.buyQuantity,
+      freeQuantity: dto.freeQuantity ?? promotion.freeQuantity,
+      startsAt:
+        dto.startsAt === null
+          ? undefined
+          : (dto.startsAt ?? promotion.startsAt),
+      endsAt:
+        dto.endsAt === null ? undefined : (dto.endsAt ?? promotion.endsAt),
+    });
+    await this.checkScope(dto);
+
+    const changes = {
+      ...dto,
+      recordIds: dto.recordIds?.map((recordId) => new Types.ObjectId(recordId)),
+    };
+    // Sent as null: removed rather than set
+    const cleared = PROMOTION_CLEARABLE_FIELDS.filter(
+      (field) => dto[field] === null,
+    );
+    for (const field of cleared) delete changes[field];
+
+    const updated = await this.save(dto.code, () =>
+      this.promotionRepository.update(id, changes, cleared),
+    );
+    if (!updated) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+    return updated;
+  }
+
+  // Orders keep the id of a deleted promotion; deactivate one to keep it listed
+  async delete(id: string): Promise<void> {
+    const deleted =
+      Types.ObjectId.isValid(id) && (await this.promotionRepository.delete(id));
+    if (!deleted) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+  }
+
+  /**
+   * The promotions that apply to the order, the one taking the most off
+   * first. A coupon is only considered when quoted, and a quoted coupon that
+   * does not apply to the order is refused. Nothing is counted yet.
+   */
+  async quote(
+    order: PromotionOrder,
+    at = new Date(),
+  ): Promise<PromotionRedemption[]> {
+    const code = order.couponCode && normalizeCouponCode(order.couponCode);
+    const offers = (await this.promotionRepository.findRunning(at, code))
+      .filter((promotion) => promotionAppliesTo(promotion, order.record, at))
+      .map((promotion) => ({
+        promotion,
+        discount: promotionDiscount(
+          promotion,
+          order.unitPrice,
+          order.quantity,
+          order.exchangeRate,
+          order.currency,
+        ),
+      }))
+      .filter(({ discount }) => discount > 0)
+      .sort((a, b) => b.discount - a.discount);
+
+    if (code && !offers.some(({ promotion }) => promotion.code === code)) {
+      throw new BadRequestException(
+        `Coupon "${code}" does not apply to this order`,
+      );
+    }
+    return offers;
+  }
+
+  /**
+   * Counts the use of the best of the quoted offers; promotions do not
+   * stack. Returns null when none is left.
+   */
+  async redeem(
+    offers: PromotionRedemption[],
+  ): Promise<PromotionRedemption | null> {
+    // One used up since it was quoted gives way to the next best
+    for (const offer of offers) {
+      const promotion = await this.promotionRepository.incrementUsage(
+        offer.promotion._id as string,
+      );
+      if (promotion) return { promotion, discount: offer.discount };
+    }
+    return null;
+  }
+
+  async countByTaxonomyValue(
+    kind: TaxonomyKind,
+    value: string,
+  ): Promise<number> {
+    return await this.promotionRepository.countByTaxonomyValue(kind, value);
+  }
+
+  /**
+   * Moves promotions scoped to a format or category to another value of the
+   * same kind, so a renamed value keeps matching. Returns how many moved.
+   */
+  async reassignTaxonomyValue(
+    kind: TaxonomyKind,
+    from: string,
+    to: string,
+  ): Promise<number> {
+    return await this.promotionRepository.reassignTaxonomyValue(kind, from, to);
+  }
+
+  /** Gives back a use counted by redeem, for an order that failed */
+  async release(promotionId: string): Promise<void> {
+    await this.promotionRepository.decrementUsage(promotionId);
+  }
+
+  private checkRule(rule: PromotionRule): void {
+    const error = promotionRuleError(rule);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
+  // Checked here rather than with IsTaxonomyValue, whose module cannot be
+  // the first of the taxonomy and record modules to load
+  private async checkScope(dto: UpdatePromotionRequestDTO): Promise<void> {
+    const scopes: [TaxonomyKind, string, string[]][] = [
+      [TaxonomyKind.CATEGORY, 'categories', dto.categories],
+      [TaxonomyKind.FORMAT, 'formats', dto.formats],
+    ];
+    for (const [kind, property, values] of scopes) {
+      for (const value of values ?? []) {
+        if (!(await this.taxonomyService.hasValue(kind, value))) {
+          throw new BadRequestException(
+            `${property} must only contain values listed by GET /taxonomy/${kind}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async save(
+    code: string | undefined,
+    write: () => Promise<Promotion>,
+  ): Promise<Promotion> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error.code === MongoErrorCode.DUPLICATE_KEY) {
+        throw new ConflictException(`Coupon code "${code}" is already in use`);
+      }
+      throw error;
+    }
+  }
+}
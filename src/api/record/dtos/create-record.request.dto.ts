@@ -5,12 +5,19 @@ import {
   Min,
   Max,
   IsInt,
-  IsEnum,
   IsOptional,
+  IsEnum,
   IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  Length,
+  Matches,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { RecordFormat, RecordCategory } from '../record.enum';
+import { RecordFormat, RecordCategory, RecordCondition } from '../record.enum';
+import { IsTaxonomyValue } from '../../taxonomy/taxonomy.validator';
+import { TaxonomyKind } from '../../taxonomy/taxonomy.enum';
+import { RECORD_MAX_TAGS, RECORD_TAG_MAX_LENGTH } from '../record.genres';
 
 export class CreateRecordRequestDTO {
   @ApiProperty({ description: 'Artist of the record', example: 'The Beatles' })
@@ -35,18 +42,78 @@ export class CreateRecordRequestDTO {
   @Max(100)
   qty: number;
 
-  @ApiProperty({ description: 'Format (Vinyl, CD, etc.)', enum: RecordFormat })
+  @ApiProperty({
+    description:
+      'Stock level to reorder at; defaults to the category threshold (GET /taxonomy/category)',
+    example: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  reorderThreshold?: number;
+
+  @ApiProperty({
+    description: 'Format, one of GET /taxonomy/format',
+    example: RecordFormat.VINYL,
+  })
   @IsNotEmpty()
-  @IsEnum(RecordFormat)
-  format: RecordFormat;
+  @IsTaxonomyValue(TaxonomyKind.FORMAT)
+  format: string;
 
   @ApiProperty({
-    description: 'Category (Rock, Jazz, etc.)',
-    enum: RecordCategory,
+    description: 'Category (the primary genre), one of GET /taxonomy/category',
+    example: RecordCategory.ROCK,
   })
   @IsNotEmpty()
-  @IsEnum(RecordCategory)
-  category: RecordCategory;
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY)
+  category: string;
+
+  @ApiProperty({
+    description:
+      'Further genres besides the category, from GET /taxonomy/category',
+    example: [RecordCategory.JAZZ, RecordCategory.HIPHOP],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY, { each: true })
+  genres?: string[];
+
+  @ApiProperty({
+    description: 'Free-form tags, stored lowercased',
+    example: ['limited', '180g', 'staff-pick'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(RECORD_MAX_TAGS)
+  @IsString({ each: true })
+  @Length(1, RECORD_TAG_MAX_LENGTH, { each: true })
+  // Tag filters are comma-separated
+  @Matches(/^[^,]*$/, { each: true, message: 'tags cannot contain commas' })
+  tags?: string[];
+
+  @ApiProperty({
+    description:
+      'Condition of the media on the Goldmine scale; defaults to M (new stock)',
+    enum: RecordCondition,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RecordCondition)
+  mediaCondition?: RecordCondition;
+
+  @ApiProperty({
+    description:
+      'Condition of the sleeve on the Goldmine scale; defaults to M (new stock)',
+    enum: RecordCondition,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RecordCondition)
+  sleeveCondition?: RecordCondition;
 
   @ApiProperty({
     description: 'MusicBrainz identifier (UUID)',
@@ -0,0 +1,69 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RECORD_ADJUSTMENT_TYPES,
+  RECORD_DEFAULT_STOCK_LOCATION,
+  RecordStockMovementType,
+} from '../record.stock';
+import { AppConfig } from '../../../app.config';
+
+export class CreateStockAdjustmentRequestDTO {
+  @ApiProperty({
+    description:
+      'Kind of movement; receipts and returns add stock, damage and shrinkage take it out',
+    enum: RECORD_ADJUSTMENT_TYPES,
+    example: RecordStockMovementType.RECEIPT,
+  })
+  @IsIn(RECORD_ADJUSTMENT_TYPES)
+  type: (typeof RECORD_ADJUSTMENT_TYPES)[number];
+
+  @ApiProperty({
+    description:
+      'Number of units; corrections take a signed change (-2 removes two units)',
+    example: 5,
+  })
+  @IsInt()
+  @NotEquals(0)
+  @Min(-1000)
+  @Max(1000)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Why the stock changed',
+    example: 'Delivery from the distributor',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  reason: string;
+
+  @ApiProperty({
+    description: "What caused it, e.g. a supplier's delivery note",
+    example: 'DN-2025-0142',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiProperty({
+    description: 'Location whose stock changes; defaults to the first one',
+    enum: AppConfig.stockLocations,
+    example: RECORD_DEFAULT_STOCK_LOCATION,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(AppConfig.stockLocations)
+  location?: string;
+}
@@ -0,0 +1,41 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { FindRecordsRequestDTO } from './find-records.request.dto';
+import { RecordFormat } from '../record.enum';
+import { IsTaxonomyValue } from '../../taxonomy/taxonomy.validator';
+import { TaxonomyKind } from '../../taxonomy/taxonomy.enum';
+import {
+  RECORD_TRANSFER_FORMATS,
+  RecordTransferFormat,
+} from '../record.transfer';
+
+export class ExportRecordsRequestDTO extends OmitType(FindRecordsRequestDTO, [
+  'format',
+  'currency',
+  'sort',
+  'limit',
+  'offset',
+  'cursor',
+  'includeTotal',
+  'collapse',
+] as const) {
+  @ApiProperty({
+    description: 'File format of the export',
+    enum: RECORD_TRANSFER_FORMATS,
+    default: 'csv',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(RECORD_TRANSFER_FORMATS)
+  format?: RecordTransferFormat;
+
+  // `format` names the file format here, so the record format filter is renamed
+  @ApiProperty({
+    description: 'Filter by record format, one of GET /taxonomy/format',
+    example: RecordFormat.VINYL,
+    required: false,
+  })
+  @IsOptional()
+  @IsTaxonomyValue(TaxonomyKind.FORMAT)
+  recordFormat?: string;
+}
@@ -0,0 +1,7 @@
+import { PickType } from '@nestjs/swagger';
+import { FindRecordsRequestDTO } from './find-records.request.dto';
+
+export class FindLowStockRequestDTO extends PickType(FindRecordsRequestDTO, [
+  'limit',
+  'offset',
+] as const) {}
@@ -0,0 +1,28 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RECORD_COVER_SIZES,
+  RECORD_COVER_THUMB_SIZE,
+  RecordCoverSize,
+} from '../record.cover';
+
+export class FindRecordCoverRequestDTO {
+  @ApiProperty({
+    description: `Image size; thumb fits in a square of ${RECORD_COVER_THUMB_SIZE} pixels`,
+    enum: RECORD_COVER_SIZES,
+    default: 'full',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(RECORD_COVER_SIZES)
+  size?: RecordCoverSize;
+
+  @ApiProperty({
+    description:
+      'Cover version from the record coverUrl; a current version is served as immutable',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  v?: string;
+}
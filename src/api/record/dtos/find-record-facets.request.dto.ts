@@ -0,0 +1,31 @@
+import { IsArray, IsIn, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { FindRecordsRequestDTO } from './find-records.request.dto';
+import { RECORD_FACETS, RecordFacetName } from '../record.facets';
+import { toList } from '../../../common/utils/to-list.util';
+
+export class FindRecordFacetsRequestDTO extends OmitType(
+  FindRecordsRequestDTO,
+  [
+    'currency',
+    'sort',
+    'limit',
+    'offset',
+    'cursor',
+    'includeTotal',
+    'collapse',
+  ] as const,
+) {
+  @ApiProperty({
+    description: `Comma-separated facets to count (${RECORD_FACETS.join(', ')}). Defaults to all`,
+    example: 'format,category',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsIn(RECORD_FACETS, { each: true })
+  facets?: RecordFacetName[];
+}
@@ -0,0 +1,280 @@
+import {
+  IsString,
+  IsNumber,
+  Min,
+  Max,
+  IsInt,
+  IsOptional,
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsArray,
+  IsEnum,
+  IsISO4217CurrencyCode,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { RecordFormat, RecordCategory, RecordCondition } from '../record.enum';
+import { IsTaxonomyValue } from '../../taxonomy/taxonomy.validator';
+import { TaxonomyKind } from '../../taxonomy/taxonomy.enum';
+import { toBoolean } from '../../../common/utils/to-boolean.util';
+import { AppConfig } from '../../../app.config';
+import { toList } from '../../../common/utils/to-list.util';
+import { RECORD_MATCH_MODES, RecordMatchMode } from '../record.genres';
+import { toRecordCondition } from '../record.condition';
+
+export class FindRecordsRequestDTO {
+  @ApiProperty({
+    description:
+      'Full-text search on artist and album, ranked by relevance; partial words fall back to a prefix match',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiProperty({ description: 'Filter by artist name', required: false })
+  @IsOptional()
+  @IsString()
+  artist?: string;
+
+  @ApiProperty({ description: 'Filter by album name', required: false })
+  @IsOptional()
+  @IsString()
+  album?: string;
+
+  @ApiProperty({
+    description: 'Filter by record format, one of GET /taxonomy/format',
+    example: RecordFormat.VINYL,
+    required: false,
+  })
+  @IsOptional()
+  @IsTaxonomyValue(TaxonomyKind.FORMAT)
+  format?: string;
+
+  @ApiProperty({
+    description: 'Filter by record category, one of GET /taxonomy/category',
+    example: RecordCategory.ROCK,
+    required: false,
+  })
+  @IsOptional()
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY)
+  category?: string;
+
+  @ApiProperty({
+    description:
+      'Comma-separated genres; matches records with any of them (or all, see genresMatch)',
+    example: 'Jazz,Hip-Hop',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY, { each: true })
+  genres?: string[];
+
+  @ApiProperty({
+    description: 'Whether records need any (default) or all of the genres',
+    enum: RECORD_MATCH_MODES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(RECORD_MATCH_MODES)
+  genresMatch?: RecordMatchMode;
+
+  @ApiProperty({
+    description:
+      'Comma-separated tags (case-insensitive); matches records with any of them (or all, see tagsMatch)',
+    example: 'limited,180g',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Whether records need any (default) or all of the tags',
+    enum: RECORD_MATCH_MODES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(RECORD_MATCH_MODES)
+  tagsMatch?: RecordMatchMode;
+
+  @ApiProperty({
+    description:
+      'Minimum media condition (inclusive, Goldmine scale from M down to P)',
+    enum: RecordCondition,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toRecordCondition)
+  @IsEnum(RecordCondition)
+  minCondition?: RecordCondition;
+
+  @ApiProperty({
+    description: 'Minimum sleeve condition (inclusive)',
+    enum: RecordCondition,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toRecordCondition)
+  @IsEnum(RecordCondition)
+  minSleeveCondition?: RecordCondition;
+
+  @ApiProperty({
+    description: 'Minimum price (inclusive)',
+    example: 10,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @ApiProperty({
+    description: 'Maximum price (inclusive)',
+    example: 50,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @ApiProperty({
+    description:
+      'ISO 4217 code to list prices in, converted from the base currency through GET /exchange-rates; minPrice and maxPrice are in this currency too',
+    example: 'GBP',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Only records with stock (true) or sold out (false)',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  inStock?: boolean;
+
+  @ApiProperty({
+    description: 'Minimum quantity in stock (inclusive)',
+    example: 5,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minQty?: number;
+
+  @ApiProperty({
+    description:
+      'Only records stocked at this location; inStock and minQty then apply to its stock',
+    enum: AppConfig.stockLocations,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(AppConfig.stockLocations)
+  location?: string;
+
+  @ApiProperty({
+    description: 'Only records created after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdAfter?: Date;
+
+  @ApiProperty({
+    description: 'Only records updated at or after this date (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  updatedSince?: Date;
+
+  @ApiProperty({
+    description: 'Only records with (true) or without (false) a MusicBrainz id',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasMbid?: boolean;
+
+  @ApiProperty({
+    description:
+      'Comma-separated sort fields, prefix with - for descending (e.g. price,-createdAt,artist)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  sort?: string;
+
+  @ApiProperty({ description: 'Page size', example: 20, required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Number of records to skip (ignored when cursor is set)',
+    example: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiProperty({
+    description: 'Opaque cursor from a previous response nextCursor',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({
+    description:
+      'Count all matching records (defaults to true for offset pages, false for cursor pages)',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeTotal?: boolean;
+
+  @ApiProperty({
+    description:
+      'Collapse results to one entry per title, each listing its matching format variants (offset pages only)',
+    enum: ['title'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['title'])
+  collapse?: 'title';
+}
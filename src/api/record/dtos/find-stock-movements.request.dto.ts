@@ -0,0 +1,18 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { FindRecordsRequestDTO } from './find-records.request.dto';
+import { RecordStockMovementType } from '../record.stock';
+
+export class FindStockMovementsRequestDTO extends PickType(
+  FindRecordsRequestDTO,
+  ['limit', 'offset'] as const,
+) {
+  @ApiProperty({
+    description: 'Only movements of this type',
+    enum: RecordStockMovementType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RecordStockMovementType)
+  type?: RecordStockMovementType;
+}
@@ -0,0 +1,19 @@
+import { IsArray, IsIn, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { RECORD_CACHE_SCOPES, RecordCacheScope } from '../record.cache';
+import { toList } from '../../../common/utils/to-list.util';
+
+export class FlushRecordCacheRequestDTO {
+  @ApiProperty({
+    description: `Comma-separated namespaces to flush (${RECORD_CACHE_SCOPES.join(', ')}). Defaults to all`,
+    example: 'list,facets',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsIn(RECORD_CACHE_SCOPES, { each: true })
+  namespaces?: RecordCacheScope[];
+}
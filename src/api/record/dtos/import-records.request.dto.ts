@@ -0,0 +1,49 @@
+import { IsBoolean, IsIn, IsObject, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RECORD_IMPORT_FIELDS,
+  RECORD_TRANSFER_FORMATS,
+  RecordColumnMapping,
+  RecordTransferFormat,
+} from '../record.transfer';
+import { toBoolean } from '../../../common/utils/to-boolean.util';
+
+export class ImportRecordsRequestDTO {
+  @ApiProperty({
+    description:
+      'File format; inferred from the file extension or content type when omitted',
+    enum: RECORD_TRANSFER_FORMATS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(RECORD_TRANSFER_FORMATS)
+  format?: RecordTransferFormat;
+
+  @ApiProperty({
+    description: 'Validate and check for duplicates without creating records',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    description: `JSON object mapping file columns to record fields (${RECORD_IMPORT_FIELDS.join(', ')}). Unmapped columns are matched by name`,
+    example: '{"Artist Name":"artist","Price (EUR)":"price"}',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  mapping?: RecordColumnMapping;
+}
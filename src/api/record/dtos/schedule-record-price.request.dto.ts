@@ -0,0 +1,45 @@
+import {
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ScheduleRecordPriceRequestDTO {
+  @ApiProperty({
+    description: 'Price in the base currency (see GET /exchange-rates)',
+    example: 24.99,
+  })
+  @IsNotEmpty()
+  @IsNumber()
+  @Min(0)
+  @Max(10000)
+  price: number;
+
+  @ApiProperty({
+    description: 'When the price takes effect (ISO 8601); defaults to now',
+    example: '2025-11-28T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startsAt?: Date;
+
+  @ApiProperty({
+    description:
+      'Makes the price a sale: the regular price is back from this moment (ISO 8601)',
+    example: '2025-12-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date;
+}
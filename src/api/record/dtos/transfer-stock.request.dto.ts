@@ -0,0 +1,57 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { AppConfig } from '../../../app.config';
+
+export class TransferStockRequestDTO {
+  // Any location, so stock can be moved out of one no longer configured
+  @ApiProperty({
+    description: 'Location the stock leaves',
+    example: 'warehouse',
+  })
+  @IsString()
+  @IsNotEmpty()
+  from: string;
+
+  @ApiProperty({
+    description: 'Location the stock goes to',
+    enum: AppConfig.stockLocations,
+    example: 'shop-floor',
+  })
+  @IsIn(AppConfig.stockLocations)
+  to: string;
+
+  @ApiProperty({ description: 'Number of units', example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Why the stock moved',
+    example: 'Restocking the shop floor',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+
+  @ApiProperty({
+    description: 'What caused it, e.g. a picking list',
+    example: 'PL-0042',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+}
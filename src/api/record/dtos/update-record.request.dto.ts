@@ -4,12 +4,19 @@ import {
   Min,
   Max,
   IsInt,
-  IsEnum,
   IsOptional,
+  IsEnum,
   IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  Length,
+  Matches,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { RecordFormat, RecordCategory } from '../record.enum';
+import { RecordFormat, RecordCategory, RecordCondition } from '../record.enum';
+import { IsTaxonomyValue } from '../../taxonomy/taxonomy.validator';
+import { TaxonomyKind } from '../../taxonomy/taxonomy.enum';
+import { RECORD_MAX_TAGS, RECORD_TAG_MAX_LENGTH } from '../record.genres';
 
 export class UpdateRecordRequestDTO {
   @ApiProperty({
@@ -42,7 +49,8 @@ export class UpdateRecordRequestDTO {
   price?: number;
 
   @ApiProperty({
-    description: 'Quantity in stock',
+    description:
+      'Quantity in stock; only accepted unchanged, stock moves through POST /records/:id/adjustments',
     example: 10,
     required: false,
   })
@@ -53,22 +61,77 @@ export class UpdateRecordRequestDTO {
   qty?: number;
 
   @ApiProperty({
-    description: 'Format (Vinyl, CD, etc.)',
-    enum: RecordFormat,
+    description:
+      'Stock level to reorder at; defaults to the category threshold (GET /taxonomy/category); null falls back again',
+    example: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  reorderThreshold?: number;
+
+  @ApiProperty({
+    description: 'Format, one of GET /taxonomy/format',
+    example: RecordFormat.VINYL,
+    required: false,
+  })
+  @IsOptional()
+  @IsTaxonomyValue(TaxonomyKind.FORMAT)
+  format?: string;
+
+  @ApiProperty({
+    description: 'Category (the primary genre), one of GET /taxonomy/category',
+    example: RecordCategory.ROCK,
+    required: false,
+  })
+  @IsOptional()
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY)
+  category?: string;
+
+  @ApiProperty({
+    description:
+      'Genres, replacing the current ones; category is always kept among them',
+    example: [RecordCategory.JAZZ, RecordCategory.HIPHOP],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsTaxonomyValue(TaxonomyKind.CATEGORY, { each: true })
+  genres?: string[];
+
+  @ApiProperty({
+    description: 'Free-form tags, stored lowercased',
+    example: ['limited', '180g', 'staff-pick'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(RECORD_MAX_TAGS)
+  @IsString({ each: true })
+  @Length(1, RECORD_TAG_MAX_LENGTH, { each: true })
+  // Tag filters are comma-separated
+  @Matches(/^[^,]*$/, { each: true, message: 'tags cannot contain commas' })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Condition of the media on the Goldmine scale',
+    enum: RecordCondition,
     required: false,
   })
   @IsOptional()
-  @IsEnum(RecordFormat)
-  format?: RecordFormat;
+  @IsEnum(RecordCondition)
+  mediaCondition?: RecordCondition;
 
   @ApiProperty({
-    description: 'Category (Rock, Jazz, etc.)',
-    enum: RecordCategory,
+    description: 'Condition of the sleeve on the Goldmine scale',
+    enum: RecordCondition,
     required: false,
   })
   @IsOptional()
-  @IsEnum(RecordCategory)
-  category?: RecordCategory;
+  @IsEnum(RecordCondition)
+  sleeveCondition?: RecordCondition;
 
   @ApiProperty({
     description: 'MusicBrainz identifier (UUID)',
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RecordPriceRepository } from './record-price.repository';
+import { RecordPrice } from './record-price.schema';
+import { RecordPriceKind } from './record.price';
+
+describe('RecordPriceRepository', () => {
+  let repository: RecordPriceRepository;
+  let model: jest.Mocked<Model<RecordPrice>>;
+
+  const recordId = '507f1f77bcf86cd799439011';
+  const at = new Date('2025-11-01T00:00:00.000Z');
+
+  const chainResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    const mockModel = {
+      create: jest.fn(),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      countDocuments: jest.fn(),
+      distinct: jest.fn(),
+      updateMany: jest.fn().mockReturnValue({ exec: jest.fn() }),
+      deleteMany: jest.fn().mockReturnValue({ exec: jest.fn() }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecordPriceRepository,
+        { provide: getModelToken('RecordPrice'), useValue: mockModel },
+      ],
+    }).compile();
+
+    repository = module.get<RecordPriceRepository>(RecordPriceRepository);
+    model = module.get(getModelToken('RecordPrice'));
+  });
+
+  it('should page the schedule of a record, latest start first', async () => {
+    const chain = chainResolving([]);
+    model.find.mockReturnValue(chain as any);
+    model.countDocuments.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(0),
+    } as any);
+
+    const result = await repository.findByRecordId(recordId, 10, 0);
+
+    expect(result).toEqual({ data: [], total: 0, limit: 10, offset: 0 });
+    expect(chain.sort).toHaveBeenCalledWith({ startsAt: -1, _id: -1 });
+  });
+
+  it('should find the regular price started last by a moment', async () => {
+    const chain = chainResolving({ price: 30 });
+    model.findOne.mockReturnValue(chain as any);
+
+    expect(await repository.findLatestChange(recordId, at)).toEqual({
+      price: 30,
+    });
+    expect(model.findOne).toHaveBeenCalledWith({
+      recordId,
+      kind: RecordPriceKind.CHANGE,
+      startsAt: { $lte: at },
+    });
+    expect(chain.sort).toHaveBeenCalledWith({ startsAt: -1, _id: -1 });
+  });
+
+  it('should find the sale running at a moment', async () => {
+    model.findOne.mockReturnValue(chainResolving(null) as any);
+
+    await repository.findActiveSale(recordId, at);
+
+    expect(model.findOne).toHaveBeenCalledWith({
+      recordId,
+      kind: RecordPriceKind.SALE,
+      startsAt: { $lte: at },
+      endsAt: { $gt: at },
+    });
+  });
+
+  it('should find the records with a start or an end due', async () => {
+    model.distinct.mockReturnValue({
+      exec: jest.fn().mockResolvedValue([recordId]),
+    } as any);
+
+    expect(await repository.findDueRecordIds(at)).toEqual([recordId]);
+    expect(model.distinct).toHaveBeenCalledWith('recordId', {
+      $or: [
+        { appliedAt: { $exists: false }, startsAt: { $lte: at } },
+        { revertedAt: { $exists: false }, endsAt: { $lte: at } },
+      ],
+    });
+  });
+
+  it('should mark due starts and ends as applied', async () => {
+    await repository.markApplied(recordId, at);
+
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { recordId, appliedAt: { $exists: false }, startsAt: { $lte: at } },
+      { $set: { appliedAt: at } },
+    );
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { recordId, revertedAt: { $exists: false }, endsAt: { $lte: at } },
+      { $set: { revertedAt: at } },
+    );
+  });
+
+  it('should delete the schedules of purged records', async () => {
+    await repository.deleteByRecordIds([recordId]);
+
+    expect(model.deleteMany).toHaveBeenCalledWith({
+      recordId: { $in: [recordId] },
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RecordPrice } from './record-price.schema';
+import { RecordPriceKind } from './record.price';
+
+export interface RecordPricePage {
+  /** Price charged right now, sales included */
+  current: number;
+  data: RecordPrice[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+@Injectable()
+export class RecordPriceRepository {
+  constructor(
+    @InjectModel('RecordPrice')
+    private readonly recordPriceModel: Model<RecordPrice>,
+  ) {}
+
+  async create(data: Partial<RecordPrice>): Promise<RecordPrice> {
+    return await this.recordPriceModel.create(data);
+  }
+
+  async findByRecordId(
+    recordId: string,
+    limit = 20,
+    offset = 0,
+  ): Promise<Omit<RecordPricePage, 'current'>> {
+    const query = { recordId };
+    const [data, total] = await Promise.all([
+      this.recordPriceModel
+        .find(query)
+        .sort({ startsAt: -1, _id: -1 })
+        .limit(limit)
+        .skip(offset)
+        .exec(),
+      this.recordPriceModel.countDocuments(query).exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+
+  async findById(
+    recordId: string,
+    priceId: string,
+  ): Promise<RecordPrice | null> {
+    return await this.recordPriceModel
+      .findOne({ _id: priceId, recordId })
+      .exec();
+  }
+
+  async hasChanges(recordId: string): Promise<boolean> {
+    return !!(await this.recordPriceModel
+      .exists({ recordId, kind: RecordPriceKind.CHANGE })
+      .exec());
+  }
+
+  /** The regular price started last by `at` (later entries win ties) */
+  async findLatestChange(
+    recordId: string,
+    at: Date,
+  ): Promise<RecordPrice | null> {
+    return await this.recordPriceModel
+      .findOne({
+        recordId,
+        kind: RecordPriceKind.CHANGE,
+        startsAt: { $lte: at },
+      })
+      .sort({ startsAt: -1, _id: -1 })
+      .exec();
+  }
+
+  async findActiveSale(
+    recordId: string,
+    at: Date,
+  ): Promise<RecordPrice | null> {
+    return await this.recordPriceModel
+      .findOne({
+        recordId,
+        kind: RecordPriceKind.SALE,
+        startsAt: { $lte: at },
+        endsAt: { $gt: at },
+      })
+      .sort({ startsAt: -1, _id: -1 })
+      .exec();
+  }
+
+  /** Sales of the record running at some point of [startsAt, endsAt) */
+  async findSales(
+    recordId: string,
+    startsAt: Date,
+    endsAt: Date,
+  ): Promise<RecordPrice[]> {
+    return await this.recordPriceModel
+      .find({
+        recordId,
+        kind: RecordPriceKind.SALE,
+        startsAt: { $lt: endsAt },
+        endsAt: { $gt: startsAt },
+      })
+      .sort({ startsAt: -1, _id: -1 })
+      .exec();
+  }
+
+  /** Records with a price starting or a sale ending by `now` not yet applied */
+  async findDueRecordIds(now: Date): Promise<Types.ObjectId[]> {
+    return await this.recordPriceModel
+      .distinct('recordId', {
+        $or: [
+          { appliedAt: { $exists: false }, startsAt: { $lte: now } },
+          { revertedAt: { $exists: false }, endsAt: { $lte: now } },
+        ],
+      })
+      .exec();
+  }
+
+  async markApplied(recordId: string, now: Date): Promise<void> {
+    await this.recordPriceModel
+      .updateMany(
+        { recordId, appliedAt: { $exists: false }, startsAt: { $lte: now } },
+        { $set: { appliedAt: now } },
+      )
+      .exec();
+    await this.recordPriceModel
+      .updateMany(
+        { recordId, revertedAt: { $exists: false }, endsAt: { $lte: now } },
+        { $set: { revertedAt: now } },
+      )
+      .exec();
+  }
+
+  async endSale(
+    recordId: string,
+    priceId: string,
+    endsAt: Date,
+  ): Promise<RecordPrice | null> {
+    return await this.recordPriceModel
+      .findOneAndUpdate(
+        { _id: priceId, recordId, kind: RecordPriceKind.SALE },
+        { $set: { endsAt } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async deleteByRecordIds(recordIds: string[]): Promise<void> {
+    await this.recordPriceModel
+      .deleteMany({ recordId: { $in: recordIds } })
+      .exec();
+  }
+
+  async delete(recordId: string, priceId: string): Promise<boolean> {
+    const { deletedCount } = await this.recordPriceModel
+      .deleteOne({ _id: priceId, recordId })
+      .exec();
+    return deletedCount > 0;
+  }
+}
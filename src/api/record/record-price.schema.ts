@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { RecordPriceKind, RecordPriceSource } from './record.price';
+
+/** One entry of a record's price schedule, in the base currency */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class RecordPrice extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Record', required: true })
+  recordId: Types.ObjectId;
+
+  @Prop({ enum: RecordPriceKind, required: true })
+  kind: RecordPriceKind;
+
+  @Prop({ enum: RecordPriceSource, required: true })
+  source: RecordPriceSource;
+
+  @Prop({ required: true, min: 0 })
+  price: number;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  // Sales only: the regular price is back from this moment
+  @Prop({ required: false })
+  endsAt?: Date;
+
+  // When the record's stored price caught up with the start, and with the
+  // end of a sale; unset while that is still due
+  @Prop({ required: false })
+  appliedAt?: Date;
+
+  @Prop({ required: false })
+  revertedAt?: Date;
+
+  createdAt: Date;
+}
+
+export const RecordPriceSchema = SchemaFactory.createForClass(RecordPrice);
+
+// Schedule of a record, latest start first, and the price in effect at a moment
+RecordPriceSchema.index({ recordId: 1, kind: 1, startsAt: -1, _id: -1 });
+
+// Entries whose start or end the stored prices have yet to catch up with
+RecordPriceSchema.index({ appliedAt: 1, startsAt: 1 });
+RecordPriceSchema.index({ revertedAt: 1, endsAt: 1 });
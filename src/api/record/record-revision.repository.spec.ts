@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RecordRevisionRepository } from './record-revision.repository';
+import { RecordRevision } from './record-revision.schema';
+import { RecordRevisionSource } from './record.revision';
+
+describe('RecordRevisionRepository', () => {
+  let repository: RecordRevisionRepository;
+  let model: jest.Mocked<Model<RecordRevision>>;
+
+  const mockRevision = {
+    _id: '65f1f77bcf86cd7994390aaa',
+    recordId: '507f1f77bcf86cd799439011',
+    source: RecordRevisionSource.UPDATE,
+    changes: [{ field: 'price', before: 25, after: 30 }],
+  };
+
+  beforeEach(async () => {
+    const mockModel = {
+      create: jest.fn(),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      countDocuments: jest.fn(),
+      deleteMany: jest.fn().mockReturnValue({ exec: jest.fn() }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecordRevisionRepository,
+        {
+          provide: getModelToken('RecordRevision'),
+          useValue: mockModel,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<RecordRevisionRepository>(RecordRevisionRepository);
+    model = module.get(getModelToken('RecordRevision'));
+  });
+
+  describe('create', () => {
+    it('should create a revision', async () => {
+      model.create.mockResolvedValue(mockRevision as any);
+
+      const result = await repository.create(mockRevision as any);
+
+      expect(result).toEqual(mockRevision);
+      expect(model.create).toHaveBeenCalledWith(mockRevision);
+    });
+  });
+
+  describe('findByRecordId', () => {
+    it('should page the revisions of a record, newest first', async () => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([mockRevision]),
+      };
+      model.find.mockReturnValue(chain as any);
+      model.countDocuments.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(1),
+      } as any);
+
+      const result = await repository.findByRecordId(
+        '507f1f77bcf86cd799439011',
+        10,
+        0,
+      );
+
+      expect(result).toEqual({
+        data: [mockRevision],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      });
+      expect(model.find).toHaveBeenCalledWith({
+        recordId: '507f1f77bcf86cd799439011',
+      });
+      expect(chain.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+    });
+  });
+
+  describe('findById', () => {
+    it('should only find the revision within the given record', async () => {
+      model.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockRevision),
+      } as any);
+
+      const result = await repository.findById(
+        '507f1f77bcf86cd799439011',
+        '65f1f77bcf86cd7994390aaa',
+      );
+
+      expect(result).toEqual(mockRevision);
+      expect(model.findOne).toHaveBeenCalledWith({
+        _id: '65f1f77bcf86cd7994390aaa',
+        recordId: '507f1f77bcf86cd799439011',
+      });
+    });
+  });
+
+  describe('deleteByRecordIds', () => {
+    it('should delete the history of purged records', async () => {
+      await repository.deleteByRecordIds(['507f1f77bcf86cd799439011']);
+
+      expect(model.deleteMany).toHaveBeenCalledWith({
+        recordId: { $in: ['507f1f77bcf86cd799439011'] },
+      });
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RecordRevision } from './record-revision.schema';
+
+export interface RecordRevisionPage {
+  data: RecordRevision[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+@Injectable()
+export class RecordRevisionRepository {
+  constructor(
+    @InjectModel('RecordRevision')
+    private readonly recordRevisionModel: Model<RecordRevision>,
+  ) {}
+
+  async create(data: Partial<RecordRevision>): Promise<RecordRevision> {
+    return await this.recordRevisionModel.create(data);
+  }
+
+  async findByRecordId(
+    recordId: string,
+    limit = 20,
+    offset = 0,
+  ): Promise<RecordRevisionPage> {
+    const query = { recordId };
+    const [data, total] = await Promise.all([
+      this.recordRevisionModel
+        .find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .skip(offset)
+        .exec(),
+      this.recordRevisionModel.countDocuments(query).exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+
+  async deleteByRecordIds(recordIds: string[]): Promise<void> {
+    await this.recordRevisionModel
+      .deleteMany({ recordId: { $in: recordIds } })
+      .exec();
+  }
+
+  async findById(
+    recordId: string,
+    revisionId: string,
+  ): Promise<RecordRevision | null> {
+    return await this.recordRevisionModel
+      .findOne({ _id: revisionId, recordId })
+      .exec();
+  }
+}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import {
+  RECORD_REVISION_FIELDS,
+  RecordRevisionChange,
+  RecordRevisionSource,
+} from './record.revision';
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class RecordRevision extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Record', required: true })
+  recordId: Types.ObjectId;
+
+  @Prop({ enum: RecordRevisionSource, required: true })
+  source: RecordRevisionSource;
+
+  @Prop({
+    type: [
+      raw({
+        _id: false,
+        field: { type: String, enum: RECORD_REVISION_FIELDS, required: true },
+        before: MongooseSchema.Types.Mixed,
+        after: MongooseSchema.Types.Mixed,
+      }),
+    ],
+    required: true,
+  })
+  changes: RecordRevisionChange[];
+
+  // Set on revert revisions: the revision that was undone
+  @Prop({ type: Types.ObjectId, required: false })
+  revertedRevisionId?: Types.ObjectId;
+
+  createdAt: Date;
+}
+
+export const RecordRevisionSchema =
+  SchemaFactory.createForClass(RecordRevision);
+
+// History of a record, newest first
+RecordRevisionSchema.index({ recordId: 1, createdAt: -1, _id: -1 });
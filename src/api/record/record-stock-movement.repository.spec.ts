@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RecordStockMovementRepository } from './record-stock-movement.repository';
+import { RecordStockMovement } from './record-stock-movement.schema';
+import { RecordStockMovementType } from './record.stock';
+
+describe('RecordStockMovementRepository', () => {
+  let repository: RecordStockMovementRepository;
+  let model: jest.Mocked<Model<RecordStockMovement>>;
+
+  const recordId = '507f1f77bcf86cd799439011';
+
+  const chainResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    const mockModel = {
+      create: jest.fn(),
+      insertMany: jest.fn(),
+      find: jest.fn(),
+      countDocuments: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecordStockMovementRepository,
+        { provide: getModelToken('RecordStockMovement'), useValue: mockModel },
+      ],
+    }).compile();
+
+    repository = module.get<RecordStockMovementRepository>(
+      RecordStockMovementRepository,
+    );
+    model = module.get(getModelToken('RecordStockMovement'));
+  });
+
+  it('should page the ledger of a record, newest first', async () => {
+    const chain = chainResolving([]);
+    model.find.mockReturnValue(chain as any);
+    model.countDocuments.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(0),
+    } as any);
+
+    const result = await repository.findByRecordId(recordId, undefined, 10, 0);
+
+    expect(result).toEqual({ data: [], total: 0, limit: 10, offset: 0 });
+    expect(model.find).toHaveBeenCalledWith({ recordId });
+    expect(chain.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+  });
+
+  it('should filter the ledger by movement type', async () => {
+    model.find.mockReturnValue(chainResolving([]) as any);
+    model.countDocuments.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(0),
+    } as any);
+
+    await repository.findByRecordId(recordId, RecordStockMovementType.SALE);
+
+    expect(model.countDocuments).toHaveBeenCalledWith({
+      recordId,
+      type: RecordStockMovementType.SALE,
+    });
+  });
+
+  it('should not write an empty batch', async () => {
+    await repository.insertMany([]);
+
+    expect(model.insertMany).not.toHaveBeenCalled();
+  });
+});
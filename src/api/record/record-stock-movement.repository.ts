@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { RecordStockMovement } from './record-stock-movement.schema';
+import { RecordStockMovementType } from './record.stock';
+
+export interface RecordStockMovementPage {
+  data: RecordStockMovement[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+@Injectable()
+export class RecordStockMovementRepository {
+  constructor(
+    @InjectModel('RecordStockMovement')
+    private readonly recordStockMovementModel: Model<RecordStockMovement>,
+  ) {}
+
+  async create(
+    data: Partial<RecordStockMovement>,
+  ): Promise<RecordStockMovement> {
+    return await this.recordStockMovementModel.create(data);
+  }
+
+  async insertMany(data: Partial<RecordStockMovement>[]): Promise<void> {
+    if (!data.length) return;
+    await this.recordStockMovementModel.insertMany(data);
+  }
+
+  async findByRecordId(
+    recordId: string,
+    type?: RecordStockMovementType,
+    limit = 20,
+    offset = 0,
+  ): Promise<RecordStockMovementPage> {
+    const query: FilterQuery<RecordStockMovement> = { recordId };
+    if (type) query.type = type;
+
+    const [data, total] = await Promise.all([
+      this.recordStockMovementModel
+        .find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .skip(offset)
+        .exec(),
+      this.recordStockMovementModel.countDocuments(query).exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { RecordStockMovementType } from './record.stock';
+
+/** One entry of a record's stock ledger; entries are never changed */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class RecordStockMovement extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Record', required: true })
+  recordId: Types.ObjectId;
+
+  @Prop({ enum: RecordStockMovementType, required: true })
+  type: RecordStockMovementType;
+
+  // Signed: negative for stock taken out
+  @Prop({ required: true })
+  quantity: number;
+
+  // Where the stock moved; see STOCK_LOCATIONS
+  @Prop({ required: true })
+  location: string;
+
+  // Stock at the location right after the movement
+  @Prop({ required: true, min: 0 })
+  balance: number;
+
+  @Prop({ required: false })
+  reason?: string;
+
+  // What caused it, e.g. an order id or a supplier's delivery note
+  @Prop({ required: false })
+  reference?: string;
+
+  createdAt: Date;
+}
+
+export const RecordStockMovementSchema =
+  SchemaFactory.createForClass(RecordStockMovement);
+
+// Ledger of a record, newest first, optionally of one type
+RecordStockMovementSchema.index({ recordId: 1, createdAt: -1, _id: -1 });
+RecordStockMovementSchema.index({ recordId: 1, type: 1, createdAt: -1 });
@@ -0,0 +1,52 @@
+import { normalizeText } from '../../common/utils/normalize-text.util';
+import { RECORD_DEFAULT_CONDITION } from './record.condition';
+
+export const RECORD_BULK_MAX_ROWS = 1000;
+
+export const RECORD_IMPORT_MAX_ROWS = 10000;
+
+export const RECORD_BULK_BATCH_SIZE = 100;
+
+export enum RecordBulkRowStatus {
+  CREATED = 'created',
+  // Dry runs only: the row would be created
+  VALID = 'valid',
+  DUPLICATE = 'duplicate',
+  INVALID = 'invalid',
+  LOOKUP_FAILED = 'lookup-failed',
+  FAILED = 'failed',
+}
+
+export interface RecordBulkRowResult {
+  index: number;
+  status: RecordBulkRowStatus;
+  id?: string;
+  errors?: string[];
+}
+
+export interface RecordBulkResult {
+  summary: { total: number } & {
+    [status in RecordBulkRowStatus]: number;
+  };
+  results: RecordBulkRowResult[];
+}
+
+/**
+ * Identity under the unique (artistKey, albumKey, format, mediaCondition,
+ * sleeveCondition) index; missing conditions take the schema default.
+ */
+export function recordIdentityKey(record: {
+  artist?: string;
+  album?: string;
+  format?: string;
+  mediaCondition?: string;
+  sleeveCondition?: string;
+}): string {
+  return [
+    normalizeText(record.artist ?? ''),
+    normalizeText(record.album ?? ''),
+    record.format,
+    record.mediaCondition ?? RECORD_DEFAULT_CONDITION,
+    record.sleeveCondition ?? RECORD_DEFAULT_CONDITION,
+  ].join('\u0000');
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+
+/** Cache namespaces: listings, facet counts and single records by id */
+export const RECORD_CACHE_SCOPES = ['list', 'facets', 'record'] as const;
+
+export type RecordCacheScope = (typeof RECORD_CACHE_SCOPES)[number];
+
+export interface RecordCacheScopeStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+export interface RecordCacheStats {
+  store: string;
+  namespaces: { [scope in RecordCacheScope]: RecordCacheScopeStats };
+}
+
+// Current generation of a namespace; replacing it flushes the namespace
+export function recordCacheGenerationKey(scope: RecordCacheScope): string {
+  return `records:${scope}:generation`;
+}
+
+/**
+ * Canonical form of the parameters behind a cached query, so equivalent
+ * queries share an entry: keys are sorted, empty values dropped and scalars
+ * compared as strings (a query string carries '20' where code passes 20).
+ */
+export function normalizeCacheParams(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeCacheParams);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => value[key] != null && value[key] !== '')
+        .map((key) => [key, normalizeCacheParams(value[key])]),
+    );
+  }
+  return String(value);
+}
+
+/**
+ * Entries are keyed by generation: bumping it makes every cached entry of
+ * the namespace unreachable at once, and the orphaned entries simply expire.
+ */
+export function buildRecordCacheKey(
+  scope: RecordCacheScope,
+  generation: string,
+  params: object,
+): string {
+  return `records:${scope}:${generation}:${JSON.stringify(
+    normalizeCacheParams(params),
+  )}`;
+}
+
+export function newRecordCacheGeneration(): string {
+  return randomUUID();
+}
@@ -0,0 +1,22 @@
+import { RecordCondition } from './record.enum';
+
+// New stock, and records created before conditions were graded
+export const RECORD_DEFAULT_CONDITION = RecordCondition.MINT;
+
+/**
+ * class-transformer @Transform for condition query parameters: a `+` left
+ * unencoded in a query string is decoded as a space, so `?minCondition=VG+`
+ * arrives as "VG ". Anything else is passed through for @IsEnum to judge.
+ */
+export const toRecordCondition = ({ value }: { value: unknown }) =>
+  typeof value === 'string' && value.endsWith(' ')
+    ? `${value.trimEnd()}+`
+    : value;
+
+/** Grades at least as good as the given one, best first */
+export function recordConditionsAtLeast(
+  minimum: RecordCondition,
+): RecordCondition[] {
+  const grades = Object.values(RecordCondition);
+  return grades.slice(0, grades.indexOf(minimum) + 1);
+}
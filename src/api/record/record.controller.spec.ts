@@ -4,7 +4,11 @@ import { RecordService } from './record.service';
 import { CreateRecordRequestDTO } from './dtos/create-record.request.dto';
 import { UpdateRecordRequestDTO } from './dtos/update-record.request.dto';
 import { RecordCategory, RecordFormat } from './record.enum';
-import { NotFoundException } from '@nestjs/common';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { Request, Response } from 'express';
+import { RecordStockMovementType } from './record.stock';
+import { CreateStockAdjustmentRequestDTO } from './dtos/create-stock-adjustment.request.dto';
 
 describe('RecordController', () => {
   let controller: RecordController;
@@ -21,13 +25,42 @@ describe('RecordController', () => {
     tracklist: [],
   };
 
+  const mockResponse = () =>
+    ({
+      setHeader: jest.fn(),
+      status: jest.fn(),
+    }) as unknown as jest.Mocked<Response>;
+
   beforeEach(async () => {
     const mockRecordService = {
       create: jest.fn(),
+      bulkCreate: jest.fn(),
+      importRecords: jest.fn(),
+      exportRecords: jest.fn(),
       findAll: jest.fn(),
+      findTitleGroups: jest.fn(),
+      findFacets: jest.fn(),
       findById: jest.fn(),
       update: jest.fn(),
+      patch: jest.fn(),
       delete: jest.fn(),
+      findTrash: jest.fn(),
+      findLowStock: jest.fn(),
+      restore: jest.fn(),
+      findHistory: jest.fn(),
+      revert: jest.fn(),
+      findPrices: jest.fn(),
+      schedulePrice: jest.fn(),
+      findStockMovements: jest.fn(),
+      adjustStock: jest.fn(),
+      findStock: jest.fn(),
+      transferStock: jest.fn(),
+      cancelPrice: jest.fn(),
+      getCacheStats: jest.fn(),
+      flushCache: jest.fn(),
+      uploadCover: jest.fn(),
+      findCover: jest.fn(),
+      readCover: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -89,6 +122,70 @@ describe('RecordController', () => {
     });
   });
 
+  describe('bulkCreate', () => {
+    it('should pass the rows to the service and return its report', async () => {
+      const report = {
+        summary: {
+          total: 1,
+          created: 1,
+          duplicate: 0,
+          invalid: 0,
+          'lookup-failed': 0,
+          failed: 0,
+        },
+        results: [{ index: 0, status: 'created', id: mockRecord._id }],
+      };
+      service.bulkCreate.mockResolvedValue(report as any);
+
+      const result = await controller.bulkCreate([mockRecord]);
+
+      expect(result).toEqual(report);
+      expect(service.bulkCreate).toHaveBeenCalledWith([mockRecord]);
+    });
+  });
+
+  describe('importRecords', () => {
+    it('should infer the file format and pass the import options', async () => {
+      service.importRecords.mockResolvedValue({} as any);
+      const file = {
+        buffer: Buffer.from('{}'),
+        originalname: 'stock.ndjson',
+        mimetype: 'application/octet-stream',
+      } as Express.Multer.File;
+
+      await controller.importRecords(file, {
+        dryRun: true,
+        mapping: { Artist: 'artist' },
+      });
+
+      expect(service.importRecords).toHaveBeenCalledWith('{}', 'ndjson', {
+        dryRun: true,
+        mapping: { Artist: 'artist' },
+      });
+    });
+  });
+
+  describe('exportRecords', () => {
+    it('should stream the export with the matching content type', async () => {
+      service.exportRecords.mockReturnValue(Readable.from(['a\n']));
+
+      const result = await controller.exportRecords({
+        format: 'ndjson',
+        recordFormat: RecordFormat.CD,
+        category: RecordCategory.JAZZ,
+      });
+
+      expect(service.exportRecords).toHaveBeenCalledWith(
+        { category: RecordCategory.JAZZ, format: RecordFormat.CD },
+        'ndjson',
+      );
+      expect(result.getHeaders()).toMatchObject({
+        type: 'application/x-ndjson',
+        disposition: 'attachment; filename="records.ndjson"',
+      });
+    });
+  });
+
   describe('findAll', () => {
     it('should return an array of records', async () => {
       const records = [
@@ -97,49 +194,27 @@ describe('RecordController', () => {
       ];
       service.findAll.mockResolvedValue(records as any);
 
-      const result = await controller.findAll();
+      const result = await controller.findAll({});
 
       expect(result).toEqual(records);
-      expect(service.findAll).toHaveBeenCalledWith({
-        q: undefined,
-        artist: undefined,
-        album: undefined,
-        format: undefined,
-        category: undefined,
-      });
+      expect(service.findAll).toHaveBeenCalledWith({});
     });
 
     it('should filter records by artist', async () => {
       service.findAll.mockResolvedValue([mockRecord] as any);
 
-      const result = await controller.findAll(undefined, 'Beatles');
+      const result = await controller.findAll({ artist: 'Beatles' });
 
       expect(result).toHaveLength(1);
-      expect(service.findAll).toHaveBeenCalledWith({
-        q: undefined,
-        artist: 'Beatles',
-        album: undefined,
-        format: undefined,
-        category: undefined,
-      });
+      expect(service.findAll).toHaveBeenCalledWith({ artist: 'Beatles' });
     });
 
     it('should filter records by category', async () => {
       service.findAll.mockResolvedValue([mockRecord] as any);
 
-      await controller.findAll(
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        RecordCategory.ROCK,
-      );
+      await controller.findAll({ category: RecordCategory.ROCK });
 
       expect(service.findAll).toHaveBeenCalledWith({
-        q: undefined,
-        artist: undefined,
-        album: undefined,
-        format: undefined,
         category: RecordCategory.ROCK,
       });
     });
@@ -147,15 +222,69 @@ describe('RecordController', () => {
     it('should search records with q parameter', async () => {
       service.findAll.mockResolvedValue([mockRecord] as any);
 
-      await controller.findAll('Beatles');
+      await controller.findAll({ q: 'Beatles' });
 
-      expect(service.findAll).toHaveBeenCalledWith({
-        q: 'Beatles',
-        artist: undefined,
-        album: undefined,
-        format: undefined,
-        category: undefined,
+      expect(service.findAll).toHaveBeenCalledWith({ q: 'Beatles' });
+    });
+
+    it('should collapse records by title when asked to', async () => {
+      const page = {
+        data: [
+          {
+            titleId: '65f1f77bcf86cd7994390abc',
+            artist: 'The Beatles',
+            album: 'Abbey Road',
+            variants: [mockRecord],
+          },
+        ],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      };
+      service.findTitleGroups.mockResolvedValue(page as any);
+
+      const result = await controller.findAll({ collapse: 'title' });
+
+      expect(result).toEqual(page);
+      expect(service.findTitleGroups).toHaveBeenCalledWith({
+        collapse: 'title',
       });
+      expect(service.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should pass price, stock, date and mbid filters through', async () => {
+      const query = {
+        minPrice: 10,
+        maxPrice: 50,
+        inStock: true,
+        minQty: 2,
+        createdAfter: new Date('2024-01-01'),
+        updatedSince: new Date('2024-06-01'),
+        hasMbid: false,
+      };
+      service.findAll.mockResolvedValue([mockRecord] as any);
+
+      await controller.findAll(query);
+
+      expect(service.findAll).toHaveBeenCalledWith(query);
+    });
+  });
+
+  describe('findFacets', () => {
+    it('should split the requested facets from the filter', async () => {
+      const facets = { category: [{ value: RecordCategory.ROCK, count: 4 }] };
+      service.findFacets.mockResolvedValue(facets);
+
+      const result = await controller.findFacets({
+        format: RecordFormat.VINYL,
+        facets: ['category'],
+      });
+
+      expect(result).toEqual(facets);
+      expect(service.findFacets).toHaveBeenCalledWith(
+        { format: RecordFormat.VINYL },
+        ['category'],
+      );
     });
   });
 
@@ -163,20 +292,32 @@ describe('RecordController', () => {
     it('should return a record by id', async () => {
       service.findById.mockResolvedValue(mockRecord as any);
 
-      const result = await controller.findById('507f1f77bcf86cd799439011');
+      const result = await controller.findById(
+        '507f1f77bcf86cd799439011',
+        mockResponse(),
+      );
 
       expect(result).toEqual(mockRecord);
       expect(service.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
     });
 
+    it('should set the record version as ETag', async () => {
+      service.findById.mockResolvedValue({ ...mockRecord, __v: 3 } as any);
+      const res = mockResponse();
+
+      await controller.findById('507f1f77bcf86cd799439011', res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"3"');
+    });
+
     it('should throw NotFoundException when record not found', async () => {
       service.findById.mockRejectedValue(
         new NotFoundException('Record not found'),
       );
 
-      await expect(controller.findById('nonexistent')).rejects.toThrow(
-        NotFoundException,
-      );
+      await expect(
+        controller.findById('nonexistent', mockResponse()),
+      ).rejects.toThrow(NotFoundException);
     });
   });
 
@@ -186,25 +327,173 @@ describe('RecordController', () => {
       const updatedRecord = { ...mockRecord, price: 30 };
       service.update.mockResolvedValue(updatedRecord as any);
 
-      const result = await controller.update('507f1f77bcf86cd799439011', dto);
+      const result = await controller.update(
+        '507f1f77bcf86cd799439011',
+        dto,
+        undefined,
+        mockResponse(),
+      );
 
       expect(result.price).toBe(30);
       expect(service.update).toHaveBeenCalledWith(
         '507f1f77bcf86cd799439011',
         dto,
+        null,
       );
     });
 
+    it('should pass the If-Match versions on and return the new ETag', async () => {
+      const dto: UpdateRecordRequestDTO = { price: 30 };
+      service.update.mockResolvedValue({
+        ...mockRecord,
+        price: 30,
+        __v: 4,
+      } as any);
+      const res = mockResponse();
+
+      await controller.update('507f1f77bcf86cd799439011', dto, '"3"', res);
+
+      expect(service.update).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        dto,
+        [3],
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"4"');
+    });
+
     it('should throw NotFoundException when updating non-existent record', async () => {
       const dto: UpdateRecordRequestDTO = { price: 30 };
       service.update.mockRejectedValue(
         new NotFoundException('Record not found'),
       );
 
-      await expect(controller.update('nonexistent', dto)).rejects.toThrow(
-        NotFoundException,
+      await expect(
+        controller.update('nonexistent', dto, undefined, mockResponse()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('patch', () => {
+    it('should pass the patch, its content type and If-Match to the service', async () => {
+      const patch = [{ op: 'replace', path: '/price', value: 30 }];
+      service.patch.mockResolvedValue({
+        ...mockRecord,
+        price: 30,
+        __v: 1,
+      } as any);
+      const res = mockResponse();
+
+      const result = await controller.patch(
+        '507f1f77bcf86cd799439011',
+        patch,
+        'application/json-patch+json',
+        '"0"',
+        res,
+      );
+
+      expect(result.price).toBe(30);
+      expect(service.patch).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        patch,
+        'application/json-patch+json',
+        [0],
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"1"');
+    });
+  });
+
+  describe('covers', () => {
+    const cover = {
+      version: '0123456789abcdef',
+      contentType: 'image/png',
+      width: 600,
+      height: 600,
+      updatedAt: new Date('2024-03-01T12:00:00.000Z'),
+    };
+
+    it('should upload a cover and return the record with its ETag', async () => {
+      service.uploadCover.mockResolvedValue({ ...mockRecord, __v: 2 } as any);
+      const res = mockResponse();
+      const file = { buffer: Buffer.from('image') } as Express.Multer.File;
+
+      await controller.uploadCover('507f1f77bcf86cd799439011', file, res);
+
+      expect(service.uploadCover).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        file.buffer,
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"2"');
+    });
+
+    it('should serve a versioned cover as immutable', async () => {
+      service.findCover.mockResolvedValue(cover);
+      service.readCover.mockResolvedValue(Readable.from(['image']));
+      const res = mockResponse();
+
+      const result = await controller.findCover(
+        '507f1f77bcf86cd799439011',
+        { size: 'thumb', v: cover.version },
+        { fresh: false } as Request,
+        res,
+      );
+
+      expect(result).toBeDefined();
+      expect(service.readCover).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        cover,
+        'thumb',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Cache-Control',
+        'public, max-age=31536000, immutable',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'ETag',
+        '"0123456789abcdef-thumb"',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Last-Modified',
+        'Fri, 01 Mar 2024 12:00:00 GMT',
+      );
+    });
+
+    it('should make unversioned requests revalidate', async () => {
+      service.findCover.mockResolvedValue(cover);
+      service.readCover.mockResolvedValue(Readable.from(['image']));
+      const res = mockResponse();
+
+      await controller.findCover(
+        '507f1f77bcf86cd799439011',
+        {},
+        { fresh: false } as Request,
+        res,
+      );
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Cache-Control',
+        'public, no-cache',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'ETag',
+        '"0123456789abcdef-full"',
       );
     });
+
+    it('should answer 304 without reading the file when the client copy is fresh', async () => {
+      service.findCover.mockResolvedValue(cover);
+      const res = mockResponse();
+
+      const result = await controller.findCover(
+        '507f1f77bcf86cd799439011',
+        {},
+        { fresh: true } as Request,
+        res,
+      );
+
+      expect(result).toBeUndefined();
+      expect(res.status).toHaveBeenCalledWith(304);
+      expect(service.readCover).not.toHaveBeenCalled();
+    });
   });
 
   describe('delete', () => {
@@ -227,4 +516,200 @@ describe('RecordController', () => {
       );
     });
   });
+
+  describe('findTrash', () => {
+    it('should pass paging through to the service', async () => {
+      const page = { data: [mockRecord], total: 1, limit: 10, offset: 0 };
+      service.findTrash.mockResolvedValue(page as any);
+
+      const result = await controller.findTrash({ limit: 10, offset: 0 });
+
+      expect(result).toEqual(page);
+      expect(service.findTrash).toHaveBeenCalledWith(10, 0);
+    });
+  });
+
+  describe('findLowStock', () => {
+    it('should pass paging through to the service', async () => {
+      const page = {
+        data: [{ ...mockRecord, qty: 1, threshold: 2 }],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      };
+      service.findLowStock.mockResolvedValue(page as any);
+
+      const result = await controller.findLowStock({ limit: 10, offset: 0 });
+
+      expect(result).toEqual(page);
+      expect(service.findLowStock).toHaveBeenCalledWith(10, 0);
+    });
+  });
+
+  describe('cache', () => {
+    it('should return the cache statistics', () => {
+      const stats = {
+        store: 'memory',
+        namespaces: {
+          list: { hits: 3, misses: 1, hitRate: 0.75 },
+          facets: { hits: 0, misses: 0, hitRate: 0 },
+          record: { hits: 0, misses: 2, hitRate: 0 },
+        },
+      };
+      service.getCacheStats.mockReturnValue(stats);
+
+      expect(controller.getCacheStats()).toEqual(stats);
+    });
+
+    it('should flush the requested namespaces', async () => {
+      await controller.flushCache({ namespaces: ['list', 'facets'] });
+
+      expect(service.flushCache).toHaveBeenCalledWith(['list', 'facets']);
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a deleted record', async () => {
+      service.restore.mockResolvedValue(mockRecord as any);
+
+      const result = await controller.restore('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(mockRecord);
+      expect(service.restore).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+    });
+
+    it('should propagate a ConflictException from the service', async () => {
+      service.restore.mockRejectedValue(
+        new ConflictException('Record already exists'),
+      );
+
+      await expect(
+        controller.restore('507f1f77bcf86cd799439011'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('prices', () => {
+    const id = '507f1f77bcf86cd799439011';
+
+    it('should pass the record id and paging to the service', async () => {
+      const page = { current: 25, data: [], total: 0, limit: 5, offset: 0 };
+      service.findPrices.mockResolvedValue(page);
+
+      expect(await controller.findPrices(id, { limit: 5, offset: 0 })).toEqual(
+        page,
+      );
+      expect(service.findPrices).toHaveBeenCalledWith(id, 5, 0);
+    });
+
+    it('should schedule a price', async () => {
+      const dto = {
+        price: 20,
+        startsAt: new Date('2025-11-28T00:00:00.000Z'),
+        endsAt: new Date('2025-12-01T00:00:00.000Z'),
+      };
+      service.schedulePrice.mockResolvedValue({ _id: 'price-1' } as any);
+
+      await controller.schedulePrice(id, dto);
+
+      expect(service.schedulePrice).toHaveBeenCalledWith(id, dto);
+    });
+
+    it('should cancel a price', async () => {
+      await controller.cancelPrice(id, 'price-1');
+
+      expect(service.cancelPrice).toHaveBeenCalledWith(id, 'price-1');
+    });
+  });
+
+  describe('stock movements', () => {
+    const id = '507f1f77bcf86cd799439011';
+
+    it('should pass the type filter and paging to the service', async () => {
+      const page = { data: [], total: 0, limit: 5, offset: 0 };
+      service.findStockMovements.mockResolvedValue(page);
+
+      expect(
+        await controller.findStockMovements(id, {
+          type: RecordStockMovementType.DAMAGE,
+          limit: 5,
+          offset: 0,
+        }),
+      ).toEqual(page);
+      expect(service.findStockMovements).toHaveBeenCalledWith(
+        id,
+        RecordStockMovementType.DAMAGE,
+        5,
+        0,
+      );
+    });
+
+    it('should book an adjustment', async () => {
+      const dto: CreateStockAdjustmentRequestDTO = {
+        type: RecordStockMovementType.RECEIPT,
+        quantity: 5,
+        reason: 'Delivery',
+      };
+      service.adjustStock.mockResolvedValue({ _id: 'movement-1' } as any);
+
+      await controller.adjustStock(id, dto);
+
+      expect(service.adjustStock).toHaveBeenCalledWith(id, dto);
+    });
+
+    it('should return the stock per location', async () => {
+      const breakdown = {
+        recordId: id,
+        qty: 3,
+        locations: [{ location: 'shop-floor', qty: 3 }],
+      };
+      service.findStock.mockResolvedValue(breakdown);
+
+      expect(await controller.findStock(id)).toEqual(breakdown);
+    });
+
+    it('should transfer stock between locations', async () => {
+      const dto = { from: 'warehouse', to: 'shop-floor', quantity: 2 };
+
+      await controller.transferStock(id, dto);
+
+      expect(service.transferStock).toHaveBeenCalledWith(id, dto);
+    });
+  });
+
+  describe('findHistory', () => {
+    it('should pass the record id and paging to the service', async () => {
+      const page = { data: [], total: 0, limit: 5, offset: 10 };
+      service.findHistory.mockResolvedValue(page);
+
+      const result = await controller.findHistory('507f1f77bcf86cd799439011', {
+        limit: 5,
+        offset: 10,
+      });
+
+      expect(result).toEqual(page);
+      expect(service.findHistory).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        5,
+        10,
+      );
+    });
+  });
+
+  describe('revert', () => {
+    it('should revert a revision', async () => {
+      service.revert.mockResolvedValue(mockRecord as any);
+
+      const result = await controller.revert(
+        '507f1f77bcf86cd799439011',
+        '65f1f77bcf86cd7994390aaa',
+      );
+
+      expect(result).toEqual(mockRecord);
+      expect(service.revert).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        '65f1f77bcf86cd7994390aaa',
+      );
+    });
+  });
 });
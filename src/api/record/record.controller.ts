@@ -6,15 +6,74 @@ import {
   Param,
   Query,
   Put,
+  Patch,
   Delete,
   HttpCode,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  StreamableFile,
+  Headers,
+  Req,
+  Res,
 } from '@nestjs/common';
-import { ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { Record } from './record.schema';
 import { RecordService } from './record.service';
+import {
+  RecordPage,
+  RecordTitleGroupPage,
+  RecordLowStockPage,
+  RecordTrashPage,
+} from './record.repository';
 import { CreateRecordRequestDTO } from './dtos/create-record.request.dto';
 import { UpdateRecordRequestDTO } from './dtos/update-record.request.dto';
-import { RecordCategory, RecordFormat } from './record.enum';
+import { FindRecordsRequestDTO } from './dtos/find-records.request.dto';
+import { FindRecordFacetsRequestDTO } from './dtos/find-record-facets.request.dto';
+import { FindTrashRequestDTO } from './dtos/find-trash.request.dto';
+import { FindLowStockRequestDTO } from './dtos/find-low-stock.request.dto';
+import { FindRecordHistoryRequestDTO } from './dtos/find-record-history.request.dto';
+import { FlushRecordCacheRequestDTO } from './dtos/flush-record-cache.request.dto';
+import { FindRecordCoverRequestDTO } from './dtos/find-record-cover.request.dto';
+import { RecordRevisionPage } from './record-revision.repository';
+import { RecordPricePage } from './record-price.repository';
+import { RecordPrice } from './record-price.schema';
+import { FindRecordPricesRequestDTO } from './dtos/find-record-prices.request.dto';
+import { ScheduleRecordPriceRequestDTO } from './dtos/schedule-record-price.request.dto';
+import { RecordStockMovementPage } from './record-stock-movement.repository';
+import { RecordStockMovement } from './record-stock-movement.schema';
+import { FindStockMovementsRequestDTO } from './dtos/find-stock-movements.request.dto';
+import { CreateStockAdjustmentRequestDTO } from './dtos/create-stock-adjustment.request.dto';
+import { TransferStockRequestDTO } from './dtos/transfer-stock.request.dto';
+import { RecordStockBreakdown } from './record.stock';
+import { RecordFacets } from './record.facets';
+import { RecordBulkResult } from './record.bulk';
+import { ExportRecordsRequestDTO } from './dtos/export-records.request.dto';
+import { ImportRecordsRequestDTO } from './dtos/import-records.request.dto';
+import { buildRecordETag, parseRecordIfMatch } from './record.etag';
+import { RECORD_PATCH_TYPES } from './record.patch';
+import { RecordCacheStats } from './record.cache';
+import {
+  RECORD_COVER_CACHE_CONTROL,
+  RECORD_COVER_IMMUTABLE_CACHE_CONTROL,
+  RECORD_COVER_MAX_FILE_SIZE,
+  buildRecordCoverETag,
+} from './record.cover';
+import {
+  RECORD_IMPORT_MAX_FILE_SIZE,
+  RECORD_TRANSFER_CONTENT_TYPES,
+  detectRecordTransferFormat,
+} from './record.transfer';
 
 @Controller('records')
 export class RecordController {
@@ -29,6 +88,74 @@ export class RecordController {
     return this.recordService.create(dto);
   }
 
+  @Post('bulk')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Create many records at once with a per-row result report',
+  })
+  @ApiBody({ type: [CreateRecordRequestDTO] })
+  @ApiResponse({ status: 200, description: 'Per-row import report' })
+  @ApiResponse({ status: 400, description: 'Body is not a non-empty array' })
+  async bulkCreate(@Body() rows: unknown[]): Promise<RecordBulkResult> {
+    return this.recordService.bulkCreate(rows);
+  }
+
+  @Post('import')
+  @HttpCode(200)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Import records from a CSV or NDJSON file',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Per-row import report' })
+  @ApiResponse({ status: 400, description: 'Missing, oversized or empty file' })
+  async importRecords(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: RECORD_IMPORT_MAX_FILE_SIZE }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Query() query: ImportRecordsRequestDTO,
+  ): Promise<RecordBulkResult> {
+    return this.recordService.importRecords(
+      file.buffer.toString('utf8'),
+      query.format ??
+        detectRecordTransferFormat(file.originalname, file.mimetype),
+      { dryRun: query.dryRun, mapping: query.mapping },
+    );
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Stream every record matching the filters as CSV or NDJSON',
+  })
+  @ApiProduces(...Object.values(RECORD_TRANSFER_CONTENT_TYPES))
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  async exportRecords(
+    @Query() query: ExportRecordsRequestDTO,
+  ): Promise<StreamableFile> {
+    const { format = 'csv', recordFormat, ...filter } = query;
+    const stream = this.recordService.exportRecords(
+      { ...filter, format: recordFormat },
+      format,
+    );
+
+    return new StreamableFile(stream, {
+      type: RECORD_TRANSFER_CONTENT_TYPES[format],
+      disposition: `attachment; filename="records.${format}"`,
+    });
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all records with optional filters' })
   @ApiResponse({
@@ -36,76 +163,405 @@ export class RecordController {
     description: 'List of records',
     type: [Record],
   })
-  @ApiQuery({
-    name: 'q',
-    required: false,
-    description:
-      'Search query (search across multiple fields like artist, album, category, etc.)',
-    type: String,
+  @ApiResponse({ status: 400, description: 'Invalid filter or pagination' })
+  async findAll(
+    @Query() query: FindRecordsRequestDTO,
+  ): Promise<RecordPage | RecordTitleGroupPage> {
+    return query.collapse === 'title'
+      ? this.recordService.findTitleGroups(query)
+      : this.recordService.findAll(query);
+  }
+
+  @Get('facets')
+  @ApiOperation({
+    summary:
+      'Count records per format, category and price bucket for the given filters',
   })
-  @ApiQuery({
-    name: 'artist',
-    required: false,
-    description: 'Filter by artist name',
-    type: String,
+  @ApiResponse({ status: 200, description: 'Facet counts' })
+  @ApiResponse({ status: 400, description: 'Invalid filter or facet' })
+  async findFacets(
+    @Query() query: FindRecordFacetsRequestDTO,
+  ): Promise<RecordFacets> {
+    const { facets, ...filter } = query;
+    return this.recordService.findFacets(filter, facets);
+  }
+
+  @Get('trash')
+  @ApiOperation({ summary: 'List soft-deleted records, most recent first' })
+  @ApiResponse({ status: 200, description: 'Page of deleted records' })
+  async findTrash(
+    @Query() query: FindTrashRequestDTO,
+  ): Promise<RecordTrashPage> {
+    return this.recordService.findTrash(query.limit, query.offset);
+  }
+
+  @Get('low-stock')
+  @ApiOperation({
+    summary:
+      'List records at or below their reorder threshold, lowest stock first',
   })
-  @ApiQuery({
-    name: 'album',
-    required: false,
-    description: 'Filter by album name',
-    type: String,
+  @ApiResponse({
+    status: 200,
+    description: 'Page of records, each with the threshold that applies',
   })
-  @ApiQuery({
-    name: 'format',
-    required: false,
-    description: 'Filter by record format (Vinyl, CD, etc.)',
-    enum: RecordFormat,
-    type: String,
+  async findLowStock(
+    @Query() query: FindLowStockRequestDTO,
+  ): Promise<RecordLowStockPage> {
+    return this.recordService.findLowStock(query.limit, query.offset);
+  }
+
+  @Get('cache/stats')
+  @ApiOperation({
+    summary: 'Cache hit/miss counts per namespace for this API instance',
   })
-  @ApiQuery({
-    name: 'category',
-    required: false,
-    description: 'Filter by record category (e.g., Rock, Jazz)',
-    enum: RecordCategory,
-    type: String,
+  @ApiResponse({ status: 200, description: 'Cache statistics' })
+  getCacheStats(): RecordCacheStats {
+    return this.recordService.getCacheStats();
+  }
+
+  @Delete('cache')
+  @HttpCode(204)
+  @ApiOperation({
+    summary: 'Flush cached listings, facets and/or records for all instances',
   })
-  async findAll(
-    @Query('q') q?: string,
-    @Query('artist') artist?: string,
-    @Query('album') album?: string,
-    @Query('format') format?: RecordFormat,
-    @Query('category') category?: RecordCategory,
-    @Query('limit') limit?: number,
-    @Query('offset') offset?: number,
-  ): Promise<{ data: Record[]; total: number; limit: number; offset: number }> {
-    return this.recordService.findAll({
-      q,
-      artist,
-      album,
-      format,
-      category,
-      limit,
-      offset,
-    });
+  @ApiResponse({ status: 204, description: 'Cache flushed' })
+  @ApiResponse({ status: 400, description: 'Unknown namespace' })
+  async flushCache(@Query() query: FlushRecordCacheRequestDTO): Promise<void> {
+    await this.recordService.flushCache(query.namespaces);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Restore a soft-deleted record' })
+  @ApiResponse({ status: 200, description: 'Record restored' })
+  @ApiResponse({ status: 404, description: 'Deleted record not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A live record with the same artist, album and format exists',
+  })
+  async restore(@Param('id') id: string): Promise<Record> {
+    return this.recordService.restore(id);
+  }
+
+  @Get(':id/history')
+  @ApiOperation({ summary: 'List the revisions of a record, newest first' })
+  @ApiResponse({ status: 200, description: 'Page of revisions' })
+  async findHistory(
+    @Param('id') id: string,
+    @Query() query: FindRecordHistoryRequestDTO,
+  ): Promise<RecordRevisionPage> {
+    return this.recordService.findHistory(id, query.limit, query.offset);
+  }
+
+  @Post(':id/revert/:revisionId')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Undo a revision, restoring the values it replaced',
+  })
+  @ApiResponse({ status: 200, description: 'Record reverted' })
+  @ApiResponse({ status: 400, description: 'Revision cannot be reverted' })
+  @ApiResponse({ status: 404, description: 'Record or revision not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The fields changed again since the revision',
+  })
+  async revert(
+    @Param('id') id: string,
+    @Param('revisionId') revisionId: string,
+  ): Promise<Record> {
+    return this.recordService.revert(id, revisionId);
+  }
+
+  @Get(':id/prices')
+  @ApiOperation({
+    summary:
+      'Get the price schedule of a record (latest start first) and its current price',
+  })
+  @ApiResponse({ status: 200, description: 'Current price and schedule page' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  async findPrices(
+    @Param('id') id: string,
+    @Query() query: FindRecordPricesRequestDTO,
+  ): Promise<RecordPricePage> {
+    return this.recordService.findPrices(id, query.limit, query.offset);
+  }
+
+  @Post(':id/prices')
+  @ApiOperation({
+    summary:
+      'Schedule a price change, or a sale that reverts at endsAt; prices starting now apply at once',
+  })
+  @ApiResponse({ status: 201, description: 'Price scheduled' })
+  @ApiResponse({
+    status: 400,
+    description: 'Start in the past or end before start',
+  })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  @ApiResponse({ status: 409, description: 'Overlaps another sale' })
+  async schedulePrice(
+    @Param('id') id: string,
+    @Body() dto: ScheduleRecordPriceRequestDTO,
+  ): Promise<RecordPrice> {
+    return this.recordService.schedulePrice(id, dto);
+  }
+
+  @Delete(':id/prices/:priceId')
+  @HttpCode(204)
+  @ApiOperation({
+    summary: 'Cancel a scheduled price, or end a running sale now',
+  })
+  @ApiResponse({ status: 204, description: 'Price cancelled or sale ended' })
+  @ApiResponse({ status: 404, description: 'Record or price not found' })
+  @ApiResponse({ status: 409, description: 'The price already took effect' })
+  async cancelPrice(
+    @Param('id') id: string,
+    @Param('priceId') priceId: string,
+  ): Promise<void> {
+    await this.recordService.cancelPrice(id, priceId);
+  }
+
+  @Get(':id/stock')
+  @ApiOperation({ summary: 'Get the stock of a record per location' })
+  @ApiResponse({ status: 200, description: 'Stock per location' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  async findStock(@Param('id') id: string): Promise<RecordStockBreakdown> {
+    return this.recordService.findStock(id);
+  }
+
+  @Post(':id/transfers')
+  @ApiOperation({
+    summary: 'Move stock between locations; returns the new stock per location',
+  })
+  @ApiResponse({ status: 201, description: 'Stock transferred' })
+  @ApiResponse({ status: 400, description: 'Same or unknown location' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Insufficient stock at the source location',
+  })
+  async transferStock(
+    @Param('id') id: string,
+    @Body() dto: TransferStockRequestDTO,
+  ): Promise<RecordStockBreakdown> {
+    return this.recordService.transferStock(id, dto);
+  }
+
+  @Get(':id/movements')
+  @ApiOperation({
+    summary: 'Get the stock ledger of a record (newest movement first)',
+  })
+  @ApiResponse({ status: 200, description: 'Stock movement page' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  async findStockMovements(
+    @Param('id') id: string,
+    @Query() query: FindStockMovementsRequestDTO,
+  ): Promise<RecordStockMovementPage> {
+    return this.recordService.findStockMovements(
+      id,
+      query.type,
+      query.limit,
+      query.offset,
+    );
+  }
+
+  @Post(':id/adjustments')
+  @ApiOperation({
+    summary:
+      'Book a manual stock movement (receipt, return, damage, shrinkage or correction)',
+  })
+  @ApiResponse({ status: 201, description: 'Movement booked' })
+  @ApiResponse({
+    status: 400,
+    description: 'Quantity does not fit the movement type',
+  })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  @ApiResponse({ status: 409, description: 'Insufficient stock' })
+  async adjustStock(
+    @Param('id') id: string,
+    @Body() dto: CreateStockAdjustmentRequestDTO,
+  ): Promise<RecordStockMovement> {
+    return this.recordService.adjustStock(id, dto);
+  }
+
+  @Post(':id/cover')
+  @HttpCode(200)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Upload the cover image of a record (JPEG or PNG)',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Record with its new coverUrl; the ETag header carries its version',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or oversized file, or not a JPEG or PNG image',
+  })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  async uploadCover(
+    @Param('id') id: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: RECORD_COVER_MAX_FILE_SIZE }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<Record> {
+    const record = await this.recordService.uploadCover(id, file.buffer);
+    res.setHeader('ETag', buildRecordETag(record));
+    return record;
+  }
+
+  @Get(':id/cover')
+  @ApiOperation({ summary: 'Get the cover image of a record' })
+  @ApiProduces('image/jpeg', 'image/png')
+  @ApiResponse({ status: 200, description: 'Cover image' })
+  @ApiResponse({
+    status: 304,
+    description: 'Not modified since the If-None-Match / If-Modified-Since',
+  })
+  @ApiResponse({ status: 404, description: 'Record or cover not found' })
+  async findCover(
+    @Param('id') id: string,
+    @Query() query: FindRecordCoverRequestDTO,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | void> {
+    const { size = 'full', v } = query;
+    const cover = await this.recordService.findCover(id);
+
+    res.setHeader(
+      'Cache-Control',
+      v === cover.version
+        ? RECORD_COVER_IMMUTABLE_CACHE_CONTROL
+        : RECORD_COVER_CACHE_CONTROL,
+    );
+    res.setHeader('ETag', buildRecordCoverETag(cover, size));
+    res.setHeader('Last-Modified', new Date(cover.updatedAt).toUTCString());
+    // Compares the conditional request headers with the ones just set
+    if (req.fresh) {
+      res.status(304);
+      return;
+    }
+
+    return new StreamableFile(
+      await this.recordService.readCover(id, cover, size),
+      { type: cover.contentType },
+    );
   }
 
   @Get(':id')
   @ApiOperation({ summary: 'Get a record by ID' })
-  @ApiResponse({ status: 200, description: 'Record found' })
+  @ApiResponse({
+    status: 200,
+    description: 'Record found; the ETag header carries its version',
+  })
   @ApiResponse({ status: 404, description: 'Record not found' })
-  async findById(@Param('id') id: string): Promise<Record> {
-    return this.recordService.findById(id);
+  async findById(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<Record> {
+    const record = await this.recordService.findById(id);
+    res.setHeader('ETag', buildRecordETag(record));
+    return record;
   }
 
   @Put(':id')
   @ApiOperation({ summary: 'Update an existing record' })
+  @ApiHeader({
+    name: 'If-Match',
+    description:
+      'ETag from GET /records/:id; the update only applies to that version',
+    required: false,
+  })
   @ApiResponse({ status: 200, description: 'Record updated successfully' })
   @ApiResponse({ status: 404, description: 'Record not found' })
+  @ApiResponse({
+    status: 412,
+    description: 'The record changed since the If-Match version',
+  })
   async update(
     @Param('id') id: string,
     @Body() dto: UpdateRecordRequestDTO,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<Record> {
+    const record = await this.recordService.update(
+      id,
+      dto,
+      parseRecordIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', buildRecordETag(record));
+    return record;
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary:
+      'Patch a record with a JSON Merge Patch or JSON Patch (including test operations)',
+  })
+  @ApiConsumes(...RECORD_PATCH_TYPES)
+  @ApiBody({
+    description:
+      'A merge patch object (null removes a field) or an array of JSON Patch operations',
+    schema: {
+      oneOf: [
+        { type: 'object', example: { price: 30, mbid: null } },
+        {
+          type: 'array',
+          items: { type: 'object' },
+          example: [
+            { op: 'test', path: '/price', value: 25 },
+            { op: 'replace', path: '/price', value: 30 },
+          ],
+        },
+      ],
+    },
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    description:
+      'ETag from GET /records/:id; the patch only applies to that version',
+    required: false,
+  })
+  @ApiResponse({ status: 200, description: 'Record patched successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid patch or patched record' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A test operation failed or the record changed meanwhile',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'The record changed since the If-Match version',
+  })
+  @ApiResponse({ status: 415, description: 'Unsupported patch Content-Type' })
+  async patch(
+    @Param('id') id: string,
+    @Body() patch: unknown,
+    @Headers('content-type') contentType: string | undefined,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<Record> {
-    return this.recordService.update(id, dto);
+    const record = await this.recordService.patch(
+      id,
+      patch,
+      contentType,
+      parseRecordIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', buildRecordETag(record));
+    return record;
   }
 
   @Delete(':id')
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+
+export const RECORD_COVER_SIZES = ['thumb', 'full'] as const;
+
+export type RecordCoverSize = (typeof RECORD_COVER_SIZES)[number];
+
+export const RECORD_COVER_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Longest side of a thumbnail, in pixels
+export const RECORD_COVER_THUMB_SIZE = 300;
+
+// Versioned cover URLs never change content, so they can be cached for good
+export const RECORD_COVER_IMMUTABLE_CACHE_CONTROL =
+  'public, max-age=31536000, immutable';
+export const RECORD_COVER_CACHE_CONTROL = 'public, no-cache';
+
+const RECORD_COVER_CONTENT_TYPES = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+} as const;
+
+/** Stored with the record; the images themselves live in file storage */
+export interface RecordCover {
+  // Content hash of the upload, part of the storage keys and the cover URL
+  version: string;
+  contentType: string;
+  width: number;
+  height: number;
+  updatedAt: Date;
+}
+
+export interface RecordCoverImages {
+  cover: Omit<RecordCover, 'updatedAt'>;
+  full: Buffer;
+  thumb: Buffer;
+}
+
+export function buildRecordCoverKey(
+  recordId: string,
+  version: string,
+  size: RecordCoverSize,
+): string {
+  return `covers/${recordId}/${version}-${size}`;
+}
+
+export function buildRecordCoverUrl(recordId: string, version: string): string {
+  return `/records/${recordId}/cover?v=${version}`;
+}
+
+export function buildRecordCoverETag(
+  cover: RecordCover,
+  size: RecordCoverSize,
+): string {
+  return `"${cover.version}-${size}"`;
+}
+
+/**
+ * Checks that an upload is a JPEG or PNG by its content (the declared type
+ * is not trusted) and renders its thumbnail in the same format. The upload
+ * itself is kept as the full size. Returns null for anything else.
+ */
+export async function processRecordCover(
+  data: Buffer,
+): Promise<RecordCoverImages | null> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    return null;
+  }
+  const contentType = RECORD_COVER_CONTENT_TYPES[metadata.format];
+  if (!contentType) return null;
+
+  // EXIF orientation is applied, since the thumbnail loses the metadata
+  const thumb = await sharp(data)
+    .autoOrient()
+    .resize(RECORD_COVER_THUMB_SIZE, RECORD_COVER_THUMB_SIZE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .toFormat(metadata.format)
+    .toBuffer();
+
+  return {
+    cover: {
+      version: createHash('sha256').update(data).digest('hex').slice(0, 16),
+      contentType,
+      width: metadata.autoOrient.width,
+      height: metadata.autoOrient.height,
+    },
+    full: data,
+    thumb,
+  };
+}
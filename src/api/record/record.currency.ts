@@ -0,0 +1,45 @@
+import { Record } from './record.schema';
+import { RecordFilter, RecordPriceConversion } from './record.repository';
+import {
+  convertMoney,
+  currencyFractionDigits,
+} from '../../common/utils/money.util';
+
+/**
+ * The filter with minPrice/maxPrice moved from the listing currency into the
+ * base currency prices are stored in. Listed prices are rounded after
+ * conversion, so the bounds are widened by half a minor unit to keep a
+ * record whose rounded price sits exactly on a bound.
+ */
+export function toBasePriceFilter(
+  filter: RecordFilter,
+  { currency, exchangeRate }: Required<RecordPriceConversion>,
+): RecordFilter {
+  const halfUnit = 0.5 / 10 ** currencyFractionDigits(currency);
+  return {
+    ...filter,
+    currency: undefined,
+    minPrice:
+      filter.minPrice === undefined
+        ? undefined
+        : Math.max(0, (filter.minPrice - halfUnit) / exchangeRate),
+    maxPrice:
+      filter.maxPrice === undefined
+        ? undefined
+        : (filter.maxPrice + halfUnit) / exchangeRate,
+  };
+}
+
+export function convertRecordPrice(
+  record: Record,
+  { currency, exchangeRate }: Required<RecordPriceConversion>,
+): Record {
+  // Fresh query results are documents, cached ones already plain objects
+  const plain =
+    typeof record.toObject === 'function' ? record.toObject() : record;
+  return {
+    ...plain,
+    price: convertMoney(record.price, exchangeRate, currency),
+    currency,
+  } as Record;
+}
@@ -0,0 +1,35 @@
+import { Types } from 'mongoose';
+
+/**
+ * Position of the last record returned in a page: its sort key values (in
+ * sort order) plus its _id as tiebreaker. Encoded as an opaque base64url
+ * token so clients never depend on its internal shape.
+ */
+export interface RecordCursor {
+  id: string;
+  values: unknown[];
+}
+
+export function encodeRecordCursor(cursor: RecordCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeRecordCursor(token: string): RecordCursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf8'),
+    );
+    if (
+      typeof decoded?.id !== 'string' ||
+      !Types.ObjectId.isValid(decoded.id)
+    ) {
+      return null;
+    }
+    const values = decoded.values ?? [];
+    if (!Array.isArray(values)) return null;
+
+    return { id: decoded.id, values };
+  } catch {
+    return null;
+  }
+}
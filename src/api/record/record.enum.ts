@@ -1,3 +1,5 @@
+// Built-in formats and categories, seeded into the taxonomy. Records may use
+// any value the taxonomy holds (see TaxonomyService).
 export enum RecordFormat {
   VINYL = 'Vinyl',
   CD = 'CD',
@@ -14,3 +16,14 @@ export enum RecordCategory {
   ALTERNATIVE = 'Alternative',
   INDIE = 'Indie',
 }
+
+// Goldmine grading scale, declared from best to worst (minimum-condition
+// filters rely on the order)
+export enum RecordCondition {
+  MINT = 'M',
+  NEAR_MINT = 'NM',
+  VERY_GOOD_PLUS = 'VG+',
+  VERY_GOOD = 'VG',
+  GOOD = 'G',
+  POOR = 'P',
+}
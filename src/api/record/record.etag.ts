@@ -0,0 +1,27 @@
+import { Record } from './record.schema';
+
+/**
+ * Records are versioned through Mongoose's version key (__v), which every
+ * write bumps; the ETag is that version as a strong entity tag.
+ */
+export function recordVersion(record: Record): number {
+  return record.__v ?? 0;
+}
+
+export function buildRecordETag(record: Record): string {
+  return `"${recordVersion(record)}"`;
+}
+
+/**
+ * Versions accepted by an If-Match header, or null when any version is
+ * (no header, or `*`). Tags that are weak or not ours never match.
+ */
+export function parseRecordIfMatch(header?: string): number[] | null {
+  if (!header || header.trim() === '*') return null;
+
+  return header
+    .split(',')
+    .map((tag) => /^"(\d+)"$/.exec(tag.trim()))
+    .filter(Boolean)
+    .map((match) => Number(match[1]));
+}
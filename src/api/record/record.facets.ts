@@ -0,0 +1,25 @@
+export const RECORD_FACETS = ['format', 'category', 'price'] as const;
+
+export type RecordFacetName = (typeof RECORD_FACETS)[number];
+
+// Lower bounds of the price buckets; anything from the last bound up lands in an open-ended bucket
+export const RECORD_PRICE_FACET_BOUNDARIES = [0, 10, 20, 30, 50, 100];
+
+export const RECORD_PRICE_FACET_OVERFLOW = 'overflow';
+
+export interface RecordValueFacet {
+  value: string;
+  count: number;
+}
+
+export interface RecordPriceFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface RecordFacets {
+  format?: RecordValueFacet[];
+  category?: RecordValueFacet[];
+  price?: RecordPriceFacet[];
+}
@@ -0,0 +1,30 @@
+/** How a list filter (genres, tags) matches: at least one value, or every value */
+export const RECORD_MATCH_MODES = ['any', 'all'] as const;
+
+export type RecordMatchMode = (typeof RECORD_MATCH_MODES)[number];
+
+export const RECORD_MAX_TAGS = 20;
+
+export const RECORD_TAG_MAX_LENGTH = 40;
+
+/**
+ * Genres of a record with its category (the primary genre) first, so a
+ * genre filter also finds records that only have a category.
+ */
+export function withPrimaryGenre(
+  category: string,
+  genres: readonly string[] = [],
+): string[] {
+  return [...new Set([category, ...(genres ?? [])])].filter(Boolean);
+}
+
+// Tags are free-form, so "Staff  Pick" and "staff pick" are kept as one tag
+export function normalizeRecordTags(tags: readonly string[] = []): string[] {
+  return [
+    ...new Set(
+      (tags ?? [])
+        .map((tag) => tag.trim().replace(/\s+/g, ' ').toLowerCase())
+        .filter(Boolean),
+    ),
+  ];
+}
@@ -1,24 +1,66 @@
-import { Module } from '@nestjs/common';
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+  forwardRef,
+} from '@nestjs/common';
+import { json } from 'express';
 import { MongooseModule } from '@nestjs/mongoose';
 import { RecordController } from './record.controller';
 import { RecordService } from './record.service';
 import { RecordRepository } from './record.repository';
 import { ReleaseModule } from '../../integrations/releases/release.module';
+import { TitleModule } from '../title/title.module';
+import { StorageModule } from '../../integrations/storage/storage.module';
+import { ExchangeRateModule } from '../exchange-rate/exchange-rate.module';
+import { TaxonomyModule } from '../taxonomy/taxonomy.module';
+import { NotificationModule } from '../../integrations/notifications/notification.module';
 import { RecordSchema } from './record.schema';
+import { RecordRevisionSchema } from './record-revision.schema';
+import { RecordRevisionRepository } from './record-revision.repository';
+import { RecordPriceSchema } from './record-price.schema';
+import { RecordPriceRepository } from './record-price.repository';
+import { RecordStockMovementSchema } from './record-stock-movement.schema';
+import { RecordStockMovementRepository } from './record-stock-movement.repository';
 import { CacheModule } from '@nestjs/cache-manager';
 import { Logger } from '@nestjs/common';
+import { RECORD_PATCH_TYPES } from './record.patch';
+import { createCacheOptions } from '../../integrations/cache/cache-store.factory';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: 'Record', schema: RecordSchema }]),
+    MongooseModule.forFeature([
+      { name: 'Record', schema: RecordSchema },
+      { name: 'RecordRevision', schema: RecordRevisionSchema },
+      { name: 'RecordPrice', schema: RecordPriceSchema },
+      { name: 'RecordStockMovement', schema: RecordStockMovementSchema },
+    ]),
     ReleaseModule,
-    CacheModule.register({
-      ttl: 60,
-      max: 100,
-    }),
+    TitleModule,
+    StorageModule,
+    ExchangeRateModule,
+    NotificationModule,
+    // Category reorder thresholds; the taxonomy module imports this one too
+    forwardRef(() => TaxonomyModule),
+    CacheModule.registerAsync({ useFactory: () => createCacheOptions() }),
   ],
   controllers: [RecordController],
-  providers: [RecordService, RecordRepository, Logger],
+  providers: [
+    RecordService,
+    RecordRepository,
+    RecordRevisionRepository,
+    RecordPriceRepository,
+    RecordStockMovementRepository,
+    Logger,
+  ],
   exports: [RecordService],
 })
-export class RecordModule {}
+export class RecordModule implements NestModule {
+  // The default body parser only reads application/json, not the patch media types
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(json({ type: [...RECORD_PATCH_TYPES] }))
+      .forRoutes({ path: 'records/:id', method: RequestMethod.PATCH });
+  }
+}
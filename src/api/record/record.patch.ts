@@ -0,0 +1,49 @@
+import { Record } from './record.schema';
+
+export const RECORD_MERGE_PATCH_TYPE = 'application/merge-patch+json';
+
+export const RECORD_JSON_PATCH_TYPE = 'application/json-patch+json';
+
+export const RECORD_PATCH_TYPES = [
+  RECORD_MERGE_PATCH_TYPE,
+  RECORD_JSON_PATCH_TYPE,
+] as const;
+
+export type RecordPatchType = (typeof RECORD_PATCH_TYPES)[number];
+
+// The document a patch applies to; tracklist follows mbid and qty moves
+// through stock adjustments, so neither is patchable
+export const RECORD_PATCH_FIELDS = [
+  'artist',
+  'album',
+  'price',
+  'reorderThreshold',
+  'format',
+  'mediaCondition',
+  'sleeveCondition',
+  'category',
+  'genres',
+  'tags',
+  'mbid',
+] as const;
+
+export function parseRecordPatchType(
+  contentType?: string,
+): RecordPatchType | null {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+  return RECORD_PATCH_TYPES.find((type) => type === mediaType) ?? null;
+}
+
+export function toPatchableRecord(record: Record): {
+  [field: string]: unknown;
+} {
+  return Object.fromEntries(
+    RECORD_PATCH_FIELDS.filter((field) => record[field] != null).map(
+      // Copied, as document arrays cannot be cloned by the patch functions
+      (field) => [
+        field,
+        Array.isArray(record[field]) ? [...record[field]] : record[field],
+      ],
+    ),
+  );
+}
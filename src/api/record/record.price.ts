@@ -0,0 +1,25 @@
+/** A lasting change of the regular price, or a sale price that reverts when it ends */
+export enum RecordPriceKind {
+  CHANGE = 'change',
+  SALE = 'sale',
+}
+
+export enum RecordPriceSource {
+  // The price a record had before its first scheduled or updated price
+  INITIAL = 'initial',
+  UPDATE = 'update',
+  SCHEDULE = 'schedule',
+}
+
+/**
+ * Price of a record at a moment: the sale running then, otherwise the latest
+ * regular price started by then, otherwise the stored price (records whose
+ * price never changed have no schedule).
+ */
+export function resolveRecordPrice(
+  storedPrice: number,
+  latestChange?: { price: number } | null,
+  activeSale?: { price: number } | null,
+): number {
+  return activeSale?.price ?? latestChange?.price ?? storedPrice;
+}
@@ -1,10 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { RecordRepository } from './record.repository';
 import { Record } from './record.schema';
-import { RecordCategory, RecordFormat } from './record.enum';
+import { RecordCategory, RecordCondition, RecordFormat } from './record.enum';
 import { Logger } from '@nestjs/common';
+import { decodeRecordCursor, encodeRecordCursor } from './record.cursor';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
 
 describe('RecordRepository', () => {
   let repository: RecordRepository;
@@ -24,13 +26,20 @@ describe('RecordRepository', () => {
   beforeEach(async () => {
     const mockModel = {
       create: jest.fn(),
+      insertMany: jest.fn(),
       findById: jest.fn(),
       find: jest.fn(),
       findByIdAndUpdate: jest.fn(),
       findByIdAndDelete: jest.fn(),
       findOneAndUpdate: jest.fn(),
       findOne: jest.fn(),
+      deleteMany: jest.fn(),
+      distinct: jest.fn(),
       countDocuments: jest.fn(),
+      updateMany: jest.fn(),
+      updateOne: jest.fn().mockReturnValue({ exec: jest.fn() }),
+      aggregate: jest.fn(),
+      exists: jest.fn(),
       exec: jest.fn(),
       limit: jest.fn(),
       skip: jest.fn(),
@@ -62,6 +71,164 @@ describe('RecordRepository', () => {
     });
   });
 
+  describe('insertMany', () => {
+    it('should insert unordered and return every record', async () => {
+      model.insertMany.mockResolvedValue([mockRecord] as any);
+
+      const result = await repository.insertMany([mockRecord]);
+
+      expect(result).toEqual([{ record: mockRecord }]);
+      expect(model.insertMany).toHaveBeenCalledWith([mockRecord], {
+        ordered: false,
+        throwOnValidationError: true,
+      });
+    });
+
+    it('should map partial failures to per-document outcomes', async () => {
+      const bulkError = Object.assign(new Error('E11000'), {
+        results: [
+          mockRecord,
+          { index: 1, err: { code: 11000, errmsg: 'E11000 duplicate key' } },
+          new Error('Validation failed'),
+        ],
+      });
+      model.insertMany.mockRejectedValue(bulkError);
+
+      const result = await repository.insertMany([{}, {}, {}]);
+
+      expect(result).toEqual([
+        { record: mockRecord },
+        { error: { code: 11000, message: 'E11000 duplicate key' } },
+        { error: { message: 'Validation failed' } },
+      ]);
+    });
+
+    it('should rethrow errors that are not per-document', async () => {
+      model.insertMany.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(repository.insertMany([mockRecord])).rejects.toThrow(
+        'Connection lost',
+      );
+    });
+  });
+
+  describe('findExistingIdentities', () => {
+    it('should look records up by their normalized keys', async () => {
+      const exec = jest.fn().mockResolvedValue([mockRecord]);
+      const chain = {
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec,
+      };
+      model.find.mockReturnValue(chain as any);
+
+      const result = await repository.findExistingIdentities([
+        { artist: 'BJÖRK', album: 'Homogenic', format: RecordFormat.CD },
+        {
+          artist: 'Björk',
+          album: 'Homogenic',
+          format: RecordFormat.VINYL,
+          mediaCondition: RecordCondition.VERY_GOOD_PLUS,
+          sleeveCondition: RecordCondition.GOOD,
+        },
+      ]);
+
+      expect(result).toEqual([mockRecord]);
+      expect(model.find).toHaveBeenCalledWith({
+        $or: [
+          {
+            artistKey: 'bjork',
+            albumKey: 'homogenic',
+            format: RecordFormat.CD,
+            mediaCondition: RecordCondition.MINT,
+            sleeveCondition: RecordCondition.MINT,
+          },
+          {
+            artistKey: 'bjork',
+            albumKey: 'homogenic',
+            format: RecordFormat.VINYL,
+            mediaCondition: RecordCondition.VERY_GOOD_PLUS,
+            sleeveCondition: RecordCondition.GOOD,
+          },
+        ],
+      });
+    });
+
+    it('should not query for an empty batch', async () => {
+      expect(await repository.findExistingIdentities([])).toEqual([]);
+      expect(model.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamAll', () => {
+    const mockCursorChain = (records: Partial<Record>[]) => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        cursor: jest.fn().mockReturnValue(
+          (async function* () {
+            yield* records;
+          })(),
+        ),
+      };
+      model.find.mockReturnValue(chain as any);
+      return chain;
+    };
+
+    const collect = async (records: AsyncIterable<Partial<Record>>) => {
+      const result: Partial<Record>[] = [];
+      for await (const record of records) result.push(record);
+      return result;
+    };
+
+    it('should stream a lean cursor over the filtered, non-deleted records', async () => {
+      const chain = mockCursorChain([mockRecord]);
+
+      const result = await collect(
+        repository.streamAll({ format: RecordFormat.VINYL }),
+      );
+
+      expect(result).toEqual([mockRecord]);
+      expect(model.find).toHaveBeenCalledWith({
+        format: RecordFormat.VINYL,
+        deletedAt: { $exists: false },
+      });
+      expect(chain.sort).toHaveBeenCalledWith({ _id: 1 });
+      expect(model.exists).not.toHaveBeenCalled();
+    });
+
+    it('should search with $text when it has matches', async () => {
+      mockCursorChain([mockRecord]);
+      model.exists.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ _id: mockRecord._id }),
+      } as any);
+
+      await collect(repository.streamAll({ q: 'Abbey' }));
+
+      expect(model.find).toHaveBeenCalledWith({
+        $text: { $search: 'Abbey' },
+        deletedAt: { $exists: false },
+      });
+    });
+
+    it('should fall back to a prefix match for a partial word', async () => {
+      mockCursorChain([mockRecord]);
+      model.exists.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      } as any);
+
+      const result = await collect(repository.streamAll({ q: 'beat' }));
+
+      expect(result).toEqual([mockRecord]);
+      const calledQuery = (model.find as jest.Mock).mock.calls[0][0] as any;
+      expect(calledQuery.$text).toBeUndefined();
+      expect(calledQuery.$or).toEqual([
+        { artistKey: /(^| )beat/ },
+        { albumKey: /(^| )beat/ },
+      ]);
+    });
+  });
+
   describe('findById', () => {
     it('should find a record by id', async () => {
       model.findOne.mockReturnValue({
@@ -98,20 +265,26 @@ describe('RecordRepository', () => {
   });
 
   describe('findAll', () => {
-    it('should return all records without filters', async () => {
-      const execMock = jest.fn().mockResolvedValue([mockRecord]);
-
-      model.find.mockReturnValue({
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: execMock,
-          }),
-        }),
-      } as any);
+    const mockFindChain = (records: any[]) => {
+      const chain = {
+        select: jest.fn().mockReturnThis(),
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(records),
+      };
+      model.find.mockReturnValue(chain as any);
+      return chain;
+    };
 
+    beforeEach(() => {
       model.countDocuments.mockReturnValue({
         exec: jest.fn().mockResolvedValue(1),
       } as any);
+    });
+
+    it('should return all records without filters', async () => {
+      const chain = mockFindChain([mockRecord]);
 
       const result = await repository.findAll({});
 
@@ -120,46 +293,30 @@ describe('RecordRepository', () => {
         total: 1,
         limit: 20,
         offset: 0,
+        nextCursor: null,
       });
 
       expect(model.find).toHaveBeenCalledWith({
         deletedAt: { $exists: false },
       });
+      expect(chain.sort).toHaveBeenCalledWith({ _id: 1 });
+      expect(chain.limit).toHaveBeenCalledWith(21);
+      expect(chain.skip).toHaveBeenCalledWith(0);
     });
 
-    it('should build query with artist filter (case-insensitive)', async () => {
-      model.find.mockReturnValue({
-        exec: jest.fn().mockResolvedValue([mockRecord]),
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: jest.fn().mockResolvedValue([mockRecord]),
-          }),
-        }),
-      } as any);
-
-      model.countDocuments.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(1),
-      } as any);
+    it('should build query with artist filter (case- and accent-insensitive)', async () => {
+      mockFindChain([mockRecord]);
 
-      await repository.findAll({ artist: 'Beatles' });
+      await repository.findAll({ artist: 'BJÖRK' });
 
       const calledQuery = (model.find as jest.Mock).mock.calls[0][0] as any;
-      expect(calledQuery.artist).toBeInstanceOf(RegExp);
-      expect(calledQuery.artist.flags).toBe('i');
+      expect(calledQuery.artist).toBeUndefined();
+      expect(calledQuery.artistKey).toEqual(/bjork/);
+      expect(calledQuery.artistKey.test('bjork')).toBe(true);
     });
 
     it('should build query with category filter (exact match)', async () => {
-      model.find.mockReturnValue({
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: jest.fn().mockResolvedValue([mockRecord]),
-          }),
-        }),
-      } as any);
-
-      model.countDocuments.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(1),
-      } as any);
+      mockFindChain([mockRecord]);
 
       await repository.findAll({ category: RecordCategory.ROCK });
 
@@ -170,17 +327,7 @@ describe('RecordRepository', () => {
     });
 
     it('should build query with format filter (exact match)', async () => {
-      model.find.mockReturnValue({
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: jest.fn().mockResolvedValue([mockRecord]),
-          }),
-        }),
-      } as any);
-
-      model.countDocuments.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(1),
-      } as any);
+      mockFindChain([mockRecord]);
 
       await repository.findAll({ format: RecordFormat.VINYL });
 
@@ -190,44 +337,105 @@ describe('RecordRepository', () => {
       });
     });
 
-    it('should build query with q parameter using $or', async () => {
-      model.find.mockReturnValue({
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: jest.fn().mockResolvedValue([mockRecord]),
-          }),
-        }),
-      } as any);
+    it('should match any of the genres and all of the normalized tags', async () => {
+      mockFindChain([mockRecord]);
 
-      model.countDocuments.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(1),
-      } as any);
+      await repository.findAll({
+        genres: [RecordCategory.JAZZ, RecordCategory.HIPHOP],
+        tags: [' Staff Pick', '180G'],
+        tagsMatch: 'all',
+      });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        genres: { $in: [RecordCategory.JAZZ, RecordCategory.HIPHOP] },
+        tags: { $all: ['staff pick', '180g'] },
+      });
+    });
 
-      await repository.findAll({ q: 'Rock' });
+    it('should match conditions at least as good as the minimums', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({
+        minCondition: RecordCondition.VERY_GOOD_PLUS,
+        minSleeveCondition: RecordCondition.MINT,
+      });
 
       expect(model.find).toHaveBeenCalledWith({
         deletedAt: { $exists: false },
-        $or: [
-          { artist: new RegExp('Rock', 'i') },
-          { album: new RegExp('Rock', 'i') },
-          { category: new RegExp('Rock', 'i') },
-        ],
+        mediaCondition: { $in: ['M', 'NM', 'VG+'] },
+        sleeveCondition: { $in: ['M'] },
       });
     });
 
-    it('should combine multiple filters', async () => {
-      model.find.mockReturnValue({
-        limit: jest.fn().mockReturnValue({
-          skip: jest.fn().mockReturnValue({
-            exec: jest.fn().mockResolvedValue([mockRecord]),
-          }),
-        }),
-      } as any);
+    it('should search q with the text index ranked by relevance', async () => {
+      const chain = mockFindChain([mockRecord]);
 
-      model.countDocuments.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(1),
+      const result = await repository.findAll({ q: 'Abbey' });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        $text: { $search: 'Abbey' },
+      });
+      expect(chain.select).toHaveBeenCalledWith({
+        score: { $meta: 'textScore' },
+      });
+      expect(chain.sort).toHaveBeenCalledWith({
+        score: { $meta: 'textScore' },
+        _id: 1,
+      });
+      expect(result.data).toEqual([mockRecord]);
+      expect(model.exists).not.toHaveBeenCalled();
+    });
+
+    it('should keep an explicit sort ahead of relevance for q', async () => {
+      const chain = mockFindChain([mockRecord]);
+
+      await repository.findAll({ q: 'Abbey', sort: '-price' });
+
+      expect(chain.sort).toHaveBeenCalledWith({ price: -1, _id: -1 });
+    });
+
+    it('should fall back to an escaped prefix match when $text finds nothing', async () => {
+      mockFindChain([]);
+
+      await repository.findAll({ q: 'Abb(' });
+
+      expect(model.find).toHaveBeenCalledTimes(2);
+      const fallbackQuery = (model.find as jest.Mock).mock.calls[1][0] as any;
+      expect(fallbackQuery.$text).toBeUndefined();
+      expect(fallbackQuery.$or).toEqual([
+        { artistKey: /(^| )abb\(/ },
+        { albumKey: /(^| )abb\(/ },
+      ]);
+      expect(model.exists).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back past the first page when $text had matches', async () => {
+      mockFindChain([]);
+      model.exists.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ _id: mockRecord._id }),
       } as any);
 
+      const result = await repository.findAll({ q: 'Abbey', offset: 40 });
+
+      expect(model.find).toHaveBeenCalledTimes(1);
+      expect(result.data).toEqual([]);
+    });
+
+    it('should escape regex characters in artist and album filters', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({ artist: '(a+)+$', album: 'A.B' });
+
+      const calledQuery = (model.find as jest.Mock).mock.calls[0][0] as any;
+      expect(calledQuery.artistKey).toEqual(/\(a\+\)\+\$/);
+      expect(calledQuery.albumKey).toEqual(/a\.b/);
+    });
+
+    it('should combine multiple filters', async () => {
+      mockFindChain([mockRecord]);
+
       await repository.findAll({
         artist: 'Beatles',
         category: RecordCategory.ROCK,
@@ -235,10 +443,324 @@ describe('RecordRepository', () => {
       });
 
       const calledQuery = (model.find as jest.Mock).mock.calls[0][0] as any;
-      expect(calledQuery.artist).toBeInstanceOf(RegExp);
+      expect(calledQuery.artistKey).toBeInstanceOf(RegExp);
       expect(calledQuery.category).toBe(RecordCategory.ROCK);
       expect(calledQuery.format).toBe(RecordFormat.VINYL);
     });
+
+    it('should build price range and stock conditions', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({
+        minPrice: 10,
+        maxPrice: 50,
+        inStock: true,
+        minQty: 3,
+      });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        price: { $gte: 10, $lte: 50 },
+        qty: { $gt: 0, $gte: 3 },
+      });
+    });
+
+    it('should match sold out records when inStock is false', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({ inStock: false, maxPrice: 20 });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        price: { $lte: 20 },
+        qty: { $lte: 0 },
+      });
+    });
+
+    it('should apply the stock conditions at a location', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({ location: 'warehouse', minQty: 3 });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        stock: { $elemMatch: { location: 'warehouse', qty: { $gte: 3 } } },
+      });
+    });
+
+    it('should match records without stock at a location', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({ location: 'warehouse', inStock: false });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        stock: {
+          $not: {
+            $elemMatch: { location: 'warehouse', qty: { $gt: 0 } },
+          },
+        },
+      });
+    });
+
+    it('should build date and mbid conditions', async () => {
+      mockFindChain([mockRecord]);
+      const createdAfter = new Date('2024-01-01');
+      const updatedSince = new Date('2024-06-01');
+
+      await repository.findAll({ createdAfter, updatedSince, hasMbid: true });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        createdAt: { $gt: createdAfter },
+        updatedAt: { $gte: updatedSince },
+        mbid: { $nin: [null, ''] },
+      });
+    });
+
+    it('should match records without mbid when hasMbid is false', async () => {
+      mockFindChain([mockRecord]);
+
+      await repository.findAll({ hasMbid: false });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        mbid: { $in: [null, ''] },
+      });
+    });
+
+    it('should return a nextCursor when more records exist', async () => {
+      const second = { ...mockRecord, _id: '507f1f77bcf86cd799439012' };
+      mockFindChain([mockRecord, second]);
+
+      const result = await repository.findAll({ limit: 1 });
+
+      expect(result.data).toEqual([mockRecord]);
+      expect(decodeRecordCursor(result.nextCursor)).toEqual({
+        id: mockRecord._id,
+        values: [],
+      });
+    });
+
+    it('should page after the cursor without skipping or counting', async () => {
+      const chain = mockFindChain([mockRecord]);
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439010',
+        values: [],
+      });
+
+      const result = await repository.findAll({ cursor, offset: 40 });
+
+      expect(model.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        _id: { $gt: '507f1f77bcf86cd799439010' },
+      });
+      expect(chain.skip).toHaveBeenCalledWith(0);
+      expect(model.countDocuments).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        data: [mockRecord],
+        limit: 20,
+        nextCursor: null,
+      });
+    });
+
+    it('should apply the requested sort with an _id tiebreaker', async () => {
+      const chain = mockFindChain([mockRecord]);
+
+      await repository.findAll({ sort: 'category,-price' });
+
+      expect(chain.sort).toHaveBeenCalledWith({
+        category: 1,
+        price: -1,
+        _id: -1,
+      });
+    });
+
+    it('should encode the sort values of the last record in nextCursor', async () => {
+      const second = { ...mockRecord, _id: '507f1f77bcf86cd799439012' };
+      mockFindChain([mockRecord, second]);
+
+      const result = await repository.findAll({ sort: '-price', limit: 1 });
+
+      expect(decodeRecordCursor(result.nextCursor)).toEqual({
+        id: mockRecord._id,
+        values: [mockRecord.price],
+      });
+    });
+
+    it('should build a keyset condition from a sorted cursor', async () => {
+      mockFindChain([mockRecord]);
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439010',
+        values: [25, '2024-01-01T00:00:00.000Z'],
+      });
+
+      await repository.findAll({
+        q: 'Rock',
+        sort: 'price,-createdAt',
+        cursor,
+      });
+
+      const calledQuery = (model.find as jest.Mock).mock.calls[0][0] as any;
+      expect(calledQuery.$text).toEqual({ $search: 'Rock' });
+      expect(calledQuery.$and).toEqual([
+        {
+          $or: [
+            { price: { $gt: 25 } },
+            { price: 25, createdAt: { $lt: new Date('2024-01-01') } },
+            {
+              price: 25,
+              createdAt: new Date('2024-01-01'),
+              _id: { $lt: '507f1f77bcf86cd799439010' },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should count the whole filter on cursor pages when includeTotal is set', async () => {
+      mockFindChain([mockRecord]);
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439010',
+        values: [],
+      });
+
+      const result = await repository.findAll({ cursor, includeTotal: true });
+
+      expect(model.countDocuments).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+      });
+      expect(result.total).toBe(1);
+    });
+
+    it('should skip counting on offset pages when includeTotal is false', async () => {
+      mockFindChain([mockRecord]);
+
+      const result = await repository.findAll({ includeTotal: false });
+
+      expect(model.countDocuments).not.toHaveBeenCalled();
+      expect(result).not.toHaveProperty('total');
+      expect(result.offset).toBe(0);
+    });
+  });
+
+  describe('findFacets', () => {
+    it('should run a $facet aggregation over the filtered, non-deleted records', async () => {
+      model.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          {
+            format: [
+              { _id: RecordFormat.VINYL, count: 3 },
+              { _id: RecordFormat.CD, count: 1 },
+            ],
+            price: [
+              { _id: 20, count: 2 },
+              { _id: 'overflow', count: 1 },
+            ],
+          },
+        ]),
+      } as any);
+
+      const result = await repository.findFacets(
+        { category: RecordCategory.ROCK },
+        ['format', 'price'],
+      );
+
+      const [pipeline] = (model.aggregate as jest.Mock).mock.calls[0];
+      expect(pipeline[0]).toEqual({
+        $match: {
+          category: RecordCategory.ROCK,
+          deletedAt: { $exists: false },
+        },
+      });
+      expect(Object.keys(pipeline[1].$facet)).toEqual(['format', 'price']);
+      expect(pipeline[1].$facet.price[0].$bucket.groupBy).toBe('$price');
+
+      expect(result).toEqual({
+        format: [
+          { value: RecordFormat.VINYL, count: 3 },
+          { value: RecordFormat.CD, count: 1 },
+        ],
+        price: [
+          { min: 20, max: 30, count: 2 },
+          { min: 100, max: null, count: 1 },
+        ],
+      });
+    });
+
+    it('should return empty facets when nothing matches', async () => {
+      model.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([{ category: [] }]),
+      } as any);
+
+      const result = await repository.findFacets({}, ['category']);
+
+      expect(result).toEqual({ category: [] });
+    });
+  });
+
+  describe('findTitleGroups', () => {
+    const mockAggregate = (result: unknown) => {
+      const aggregate = {
+        allowDiskUse: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([result]),
+      };
+      model.aggregate.mockReturnValue(aggregate as any);
+      return aggregate;
+    };
+
+    it('should group matching records by title, ordered by their first variant', async () => {
+      const group = {
+        titleId: '65f1f77bcf86cd7994390abc',
+        artist: 'The Beatles',
+        album: 'Abbey Road',
+        variants: [mockRecord],
+      };
+      const aggregate = mockAggregate({
+        data: [group],
+        total: [{ count: 1 }],
+      });
+
+      const result = await repository.findTitleGroups({
+        format: RecordFormat.VINYL,
+        sort: 'price',
+        limit: 10,
+        offset: 10,
+      });
+
+      const [pipeline] = (model.aggregate as jest.Mock).mock.calls[0];
+      expect(pipeline[0]).toEqual({
+        $match: { format: RecordFormat.VINYL, deletedAt: { $exists: false } },
+      });
+      expect(pipeline[2]).toEqual({ $sort: { price: 1, _id: 1 } });
+      expect(pipeline[3].$group._id).toEqual({
+        $ifNull: ['$titleId', '$_id'],
+      });
+      expect(pipeline[4]).toEqual({
+        $sort: { 'first.price': 1, 'first._id': 1 },
+      });
+      expect(pipeline[5].$facet.data.slice(0, 2)).toEqual([
+        { $skip: 10 },
+        { $limit: 10 },
+      ]);
+      expect(aggregate.allowDiskUse).toHaveBeenCalledWith(true);
+      expect(result).toEqual({
+        data: [group],
+        total: 1,
+        limit: 10,
+        offset: 10,
+      });
+    });
+
+    it('should skip counting when includeTotal is false', async () => {
+      mockAggregate({ data: [] });
+
+      const result = await repository.findTitleGroups({ includeTotal: false });
+
+      const [pipeline] = (model.aggregate as jest.Mock).mock.calls[0];
+      expect(pipeline[5].$facet.total).toBeUndefined();
+      expect(result).toEqual({ data: [], limit: 20, offset: 0 });
+    });
   });
 
   describe('updateById', () => {
@@ -255,7 +777,7 @@ describe('RecordRepository', () => {
       expect(result).toEqual(updatedRecord);
       expect(model.findOneAndUpdate).toHaveBeenCalledWith(
         { _id: '507f1f77bcf86cd799439011', deletedAt: { $exists: false } },
-        { price: 30 },
+        { price: 30, $inc: { __v: 1 } },
         { new: true },
       );
     });
@@ -269,6 +791,24 @@ describe('RecordRepository', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should only match the expected version when one is given', async () => {
+      model.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      } as any);
+
+      await repository.updateById('507f1f77bcf86cd799439011', { price: 30 }, 3);
+
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: '507f1f77bcf86cd799439011',
+          deletedAt: { $exists: false },
+          __v: 3,
+        },
+        { price: 30, $inc: { __v: 1 } },
+        { new: true },
+      );
+    });
   });
 
   describe('deleteById', () => {
@@ -285,7 +825,7 @@ describe('RecordRepository', () => {
       expect(result).toEqual(mockRecord);
       expect(model.findOneAndUpdate).toHaveBeenCalledWith(
         { _id: '507f1f77bcf86cd799439011', deletedAt: { $exists: false } },
-        { deletedAt: date },
+        { deletedAt: date, $inc: { __v: 1 } },
         { new: true },
       );
     });
@@ -301,8 +841,265 @@ describe('RecordRepository', () => {
     });
   });
 
+  describe('softDeleteById', () => {
+    it('should mark the record deleted and release its identity keys', async () => {
+      model.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockRecord),
+      } as any);
+
+      const result = await repository.softDeleteById(
+        '507f1f77bcf86cd799439011',
+      );
+
+      expect(result).toEqual(mockRecord);
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '507f1f77bcf86cd799439011', deletedAt: { $exists: false } },
+        {
+          $set: { deletedAt: expect.any(Date) },
+          $unset: { artistKey: 1, albumKey: 1 },
+          $inc: { __v: 1 },
+        },
+        { new: true },
+      );
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should page deleted records, most recently deleted first', async () => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([mockRecord]),
+      };
+      model.find.mockReturnValue(chain as any);
+      model.countDocuments.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(1),
+      } as any);
+
+      const result = await repository.findTrash(10, 5);
+
+      expect(result).toEqual({
+        data: [mockRecord],
+        total: 1,
+        limit: 10,
+        offset: 5,
+      });
+      expect(model.find).toHaveBeenCalledWith({ deletedAt: { $exists: true } });
+      expect(chain.sort).toHaveBeenCalledWith({ deletedAt: -1, _id: -1 });
+      expect(chain.limit).toHaveBeenCalledWith(10);
+      expect(chain.skip).toHaveBeenCalledWith(5);
+    });
+  });
+
+  describe('findDeletedById', () => {
+    it('should only find records that are in the trash', async () => {
+      model.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockRecord),
+      } as any);
+
+      const result = await repository.findDeletedById(
+        '507f1f77bcf86cd799439011',
+      );
+
+      expect(result).toEqual(mockRecord);
+      expect(model.findOne).toHaveBeenCalledWith({
+        _id: '507f1f77bcf86cd799439011',
+        deletedAt: { $exists: true },
+      });
+    });
+  });
+
+  describe('restoreById', () => {
+    it('should clear deletedAt and restore the identity keys', async () => {
+      model.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockRecord),
+      } as any);
+
+      const result = await repository.restoreById('507f1f77bcf86cd799439011', {
+        artist: 'Björk',
+        album: 'Homogenic',
+      });
+
+      expect(result).toEqual(mockRecord);
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '507f1f77bcf86cd799439011', deletedAt: { $exists: true } },
+        {
+          $set: { artistKey: 'bjork', albumKey: 'homogenic' },
+          $unset: { deletedAt: 1 },
+          $inc: { __v: 1 },
+        },
+        { new: true },
+      );
+    });
+  });
+
+  describe('purgeDeletedBefore', () => {
+    it('should hard-delete records deleted before the cutoff', async () => {
+      model.deleteMany.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 2 }),
+      } as any);
+      const cutoff = new Date('2024-01-01T00:00:00.000Z');
+
+      const ids = ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'];
+
+      const result = await repository.purgeDeletedBefore(cutoff, ids);
+
+      expect(result).toBe(2);
+      expect(model.deleteMany).toHaveBeenCalledWith({
+        _id: { $in: ids },
+        deletedAt: { $lt: cutoff },
+      });
+    });
+
+    it('should find which of the ids are still held by a record', async () => {
+      model.distinct.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue([new Types.ObjectId('507f1f77bcf86cd799439011')]),
+      } as any);
+
+      const existing = await repository.findExistingIds([
+        '507f1f77bcf86cd799439011',
+        '507f1f77bcf86cd799439012',
+      ]);
+
+      expect(existing).toEqual(['507f1f77bcf86cd799439011']);
+      expect(model.distinct).toHaveBeenCalledWith('_id', {
+        _id: {
+          $in: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+        },
+      });
+    });
+  });
+
+  describe('covers', () => {
+    const mockQuery = (result: unknown) => ({
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(result),
+    });
+
+    it('should select the cover metadata of a live record', async () => {
+      const query = mockQuery({ _id: mockRecord._id });
+      model.findOne.mockReturnValue(query as any);
+
+      await repository.findCoverById(mockRecord._id);
+
+      expect(model.findOne).toHaveBeenCalledWith({
+        _id: mockRecord._id,
+        deletedAt: null,
+      });
+      expect(query.select).toHaveBeenCalledWith({ cover: 1 });
+    });
+
+    it('should find the records about to be purged with their covers', async () => {
+      const query = mockQuery([]);
+      model.find.mockReturnValue(query as any);
+      const cutoff = new Date('2024-01-01T00:00:00.000Z');
+
+      await repository.findDeletedBefore(cutoff);
+
+      expect(model.find).toHaveBeenCalledWith({ deletedAt: { $lt: cutoff } });
+      expect(query.select).toHaveBeenCalledWith({ cover: 1 });
+    });
+  });
+
+  describe('taxonomy values', () => {
+    it('should count records using a category as category or genre', async () => {
+      model.countDocuments.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(4),
+      } as any);
+
+      const count = await repository.countByTaxonomyValue(
+        TaxonomyKind.CATEGORY,
+        RecordCategory.JAZZ,
+      );
+
+      expect(count).toBe(4);
+      expect(model.countDocuments).toHaveBeenCalledWith({
+        $or: [
+          { category: RecordCategory.JAZZ },
+          { genres: RecordCategory.JAZZ },
+        ],
+      });
+    });
+
+    it('should look up live records that already exist in the target format', async () => {
+      model.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([]),
+      } as any);
+      (model as any).collection = { name: 'records' };
+
+      await repository.findFormatClashes('8-Track', RecordFormat.CASSETTE);
+
+      const [pipeline] = (model.aggregate as jest.Mock).mock.calls[0];
+      expect(pipeline[0]).toEqual({
+        $match: { format: '8-Track', artistKey: { $exists: true } },
+      });
+      expect(pipeline[1].$lookup.from).toBe('records');
+      const conditions = pipeline[1].$lookup.pipeline[0].$match.$expr.$and;
+      expect(conditions).toContainEqual({
+        $eq: ['$format', RecordFormat.CASSETTE],
+      });
+      expect(conditions).toContainEqual({
+        $eq: ['$mediaCondition', '$$mediaCondition'],
+      });
+    });
+
+    it('should move records to another format and bump their version', async () => {
+      model.updateMany.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+      } as any);
+
+      const moved = await repository.reassignTaxonomyValue(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+
+      expect(moved).toBe(2);
+      const [query, [stage], options] = (model.updateMany as jest.Mock).mock
+        .calls[0];
+      expect(query).toEqual({ format: '8-Track' });
+      expect(stage.$set).toMatchObject({
+        format: RecordFormat.CASSETTE,
+        __v: { $add: [{ $ifNull: ['$__v', 0] }, 1] },
+        updatedAt: '$$NOW',
+      });
+      expect(options).toEqual({ timestamps: false });
+    });
+
+    it('should rename a category and the matching genre', async () => {
+      model.updateMany.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      } as any);
+
+      await repository.reassignTaxonomyValue(
+        TaxonomyKind.CATEGORY,
+        'Electronica',
+        'Electronic',
+      );
+
+      const [query, [stage]] = (model.updateMany as jest.Mock).mock.calls[0];
+      expect(query).toEqual({
+        $or: [{ category: 'Electronica' }, { genres: 'Electronica' }],
+      });
+      expect(stage.$set.category).toEqual({
+        $cond: [
+          { $eq: ['$category', 'Electronica'] },
+          'Electronic',
+          '$category',
+        ],
+      });
+      expect(stage.$set.genres.$reduce.input.$map.in).toEqual({
+        $cond: [{ $eq: ['$$this', 'Electronica'] }, 'Electronic', '$$this'],
+      });
+    });
+  });
+
   describe('decrementStockIfAvailable', () => {
-    it('should decrement stock when sufficient quantity', async () => {
+    it('should decrement stock at the location when sufficient', async () => {
       const updatedRecord = { ...mockRecord, qty: 5 };
       model.findOneAndUpdate.mockReturnValue({
         exec: jest.fn().mockResolvedValue(updatedRecord),
@@ -311,12 +1108,16 @@ describe('RecordRepository', () => {
       const result = await repository.decrementStockIfAvailable(
         '507f1f77bcf86cd799439011',
         5,
+        'shop-floor',
       );
 
       expect(result?.qty).toBe(5);
       expect(model.findOneAndUpdate).toHaveBeenCalledWith(
-        { _id: '507f1f77bcf86cd799439011', qty: { $gte: 5 } },
-        { $inc: { qty: -5 } },
+        {
+          _id: '507f1f77bcf86cd799439011',
+          stock: { $elemMatch: { location: 'shop-floor', qty: { $gte: 5 } } },
+        },
+        { $inc: { 'stock.$.qty': -5, qty: -5, __v: 1 } },
         { new: true },
       );
     });
@@ -329,6 +1130,7 @@ describe('RecordRepository', () => {
       const result = await repository.decrementStockIfAvailable(
         '507f1f77bcf86cd799439011',
         100,
+        'shop-floor',
       );
 
       expect(result).toBeNull();
@@ -336,23 +1138,68 @@ describe('RecordRepository', () => {
   });
 
   describe('incrementStock', () => {
-    it('should increment stock', async () => {
+    it('should add the location if needed and increment stock there', async () => {
       const updatedRecord = { ...mockRecord, qty: 15 };
-      model.findByIdAndUpdate.mockReturnValue({
+      model.findOneAndUpdate.mockReturnValue({
         exec: jest.fn().mockResolvedValue(updatedRecord),
       } as any);
 
       const result = await repository.incrementStock(
         '507f1f77bcf86cd799439011',
         5,
+        'warehouse',
       );
 
       expect(result?.qty).toBe(15);
-      expect(model.findByIdAndUpdate).toHaveBeenCalledWith(
-        '507f1f77bcf86cd799439011',
-        { $inc: { qty: 5 } },
+      expect(model.updateOne).toHaveBeenCalledWith(
+        {
+          _id: '507f1f77bcf86cd799439011',
+          'stock.location': { $ne: 'warehouse' },
+        },
+        { $push: { stock: { location: 'warehouse', qty: 0 } } },
+        { timestamps: false },
+      );
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '507f1f77bcf86cd799439011', 'stock.location': 'warehouse' },
+        { $inc: { 'stock.$.qty': 5, qty: 5, __v: 1 } },
         { new: true },
       );
     });
   });
+
+  describe('transferStock', () => {
+    it('should move stock between locations in one update', async () => {
+      model.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockRecord),
+      } as any);
+
+      await repository.transferStock(
+        '507f1f77bcf86cd799439011',
+        'warehouse',
+        'shop-floor',
+        4,
+      );
+
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: '507f1f77bcf86cd799439011',
+          stock: { $elemMatch: { location: 'warehouse', qty: { $gte: 4 } } },
+        },
+        {
+          $inc: {
+            'stock.$[from].qty': -4,
+            'stock.$[to].qty': 4,
+            __v: 1,
+          },
+        },
+        {
+          new: true,
+          arrayFilters: [
+            { 'from.location': 'warehouse' },
+            { 'to.location': 'shop-floor' },
+          ],
+        },
+      );
+    });
+  });
 });
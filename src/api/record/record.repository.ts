@@ -1,19 +1,123 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, FilterQuery } from 'mongoose';
+import { Model, FilterQuery, PipelineStage, Types } from 'mongoose';
 import { Record } from './record.schema';
-import { RecordCategory, RecordFormat } from './record.enum';
 import { Logger } from '@nestjs/common';
+import { escapeRegExp } from '../../common/utils/escape-regexp.util';
+import { normalizeText } from '../../common/utils/normalize-text.util';
+import {
+  RecordCursor,
+  decodeRecordCursor,
+  encodeRecordCursor,
+} from './record.cursor';
+import {
+  RECORD_PRICE_FACET_BOUNDARIES,
+  RECORD_PRICE_FACET_OVERFLOW,
+  RecordFacetName,
+  RecordFacets,
+} from './record.facets';
+import { RecordMatchMode, normalizeRecordTags } from './record.genres';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
+import { RecordCondition } from './record.enum';
+import {
+  RECORD_DEFAULT_CONDITION,
+  recordConditionsAtLeast,
+} from './record.condition';
+import {
+  RecordSort,
+  parseRecordSort,
+  reviveRecordSortValue,
+} from './record.sort';
 
 export interface RecordFilter {
   q?: string;
   artist?: string;
   album?: string;
-  format?: RecordFormat;
-  category?: RecordCategory;
+  format?: string;
+  category?: string;
+  genres?: string[];
+  genresMatch?: RecordMatchMode;
+  tags?: string[];
+  tagsMatch?: RecordMatchMode;
+  minCondition?: RecordCondition;
+  minSleeveCondition?: RecordCondition;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Currency of minPrice/maxPrice and of the listed prices; see RecordService */
+  currency?: string;
+  inStock?: boolean;
+  minQty?: number;
+  /** Stock filters (inStock, minQty) apply at this location; alone, it lists the records stocked there */
+  location?: string;
+  createdAfter?: Date;
+  updatedSince?: Date;
+  hasMbid?: boolean;
   limit?: number;
   offset?: number;
+  sort?: string;
+  cursor?: string;
+  includeTotal?: boolean;
   total?: number;
+  collapse?: 'title';
+}
+
+/**
+ * Outcome of one document in an unordered insertMany: either the inserted
+ * record or the error that kept it out.
+ */
+export interface RecordInsertOutcome {
+  record?: Record;
+  error?: { code?: number; message: string };
+}
+
+/**
+ * `text` uses the text index on artist/album; `prefix` is the fallback for
+ * partial words that $text cannot match.
+ */
+export type RecordSearchMode = 'text' | 'prefix';
+
+/** Set on listings whose prices were converted from the base currency */
+export interface RecordPriceConversion {
+  currency?: string;
+  exchangeRate?: number;
+}
+
+export interface RecordPage extends RecordPriceConversion {
+  data: Record[];
+  total?: number;
+  limit: number;
+  offset?: number;
+  nextCursor: string | null;
+}
+
+/** The matching format variants of one title */
+export interface RecordTitleGroup {
+  titleId: Types.ObjectId | null;
+  artist: string;
+  album: string;
+  variants: Record[];
+}
+
+export interface RecordTitleGroupPage extends RecordPriceConversion {
+  data: RecordTitleGroup[];
+  total?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface RecordTrashPage {
+  data: Record[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface RecordLowStockPage {
+  /** Lowest stock first; the service adds each record's `threshold` */
+  data: Record[];
+  total: number;
+  limit: number;
+  offset: number;
 }
 
 @Injectable()
@@ -27,65 +131,580 @@ export class RecordRepository {
     return await this.recordModel.create(data);
   }
 
+  // Unordered, so one bad document does not stop the rest of the batch
+  async insertMany(data: Partial<Record>[]): Promise<RecordInsertOutcome[]> {
+    try {
+      const records = await this.recordModel.insertMany(data, {
+        ordered: false,
+        throwOnValidationError: true,
+      });
+      return records.map((record) => ({ record }));
+    } catch (error) {
+      if (!Array.isArray(error.results)) throw error;
+      return error.results.map((result) => this.toInsertOutcome(result));
+    }
+  }
+
+  // Soft-deleted records have no keys, so only live records are returned
+  async findExistingIdentities(
+    identities: Partial<Record>[],
+  ): Promise<Partial<Record>[]> {
+    if (!identities.length) return [];
+
+    return await this.recordModel
+      .find({
+        $or: identities.map(
+          ({ artist, album, format, mediaCondition, sleeveCondition }) => ({
+            artistKey: normalizeText(artist),
+            albumKey: normalizeText(album),
+            format,
+            // New rows are stored with the default when they omit it
+            mediaCondition: mediaCondition ?? RECORD_DEFAULT_CONDITION,
+            sleeveCondition: sleeveCondition ?? RECORD_DEFAULT_CONDITION,
+          }),
+        ),
+      })
+      .select({
+        artist: 1,
+        album: 1,
+        format: 1,
+        mediaCondition: 1,
+        sleeveCondition: 1,
+      })
+      .lean<Partial<Record>[]>()
+      .exec();
+  }
+
+  // Same whole-word/prefix fallback as findAll so exports agree with the listing
+  async *streamAll(filter: RecordFilter): AsyncIterable<Partial<Record>> {
+    const searchMode = await this.resolveSearchMode(filter);
+
+    yield* this.recordModel
+      .find({
+        ...this.buildQuery(filter, searchMode),
+        deletedAt: { $exists: false },
+      })
+      .sort({ _id: 1 })
+      .lean<Partial<Record>[]>()
+      .cursor();
+  }
+
   async findById(id: string): Promise<Record | null> {
     return await this.recordModel.findOne({ _id: id, deletedAt: null }).exec();
   }
 
+  // The cover metadata is not selected by default
+  async findCoverById(id: string): Promise<Partial<Record> | null> {
+    return await this.recordModel
+      .findOne({ _id: id, deletedAt: null })
+      .select({ cover: 1 })
+      .lean<Partial<Record>>()
+      .exec();
+  }
+
   // This method is used to explain the query plan for the findAll method.
   async explainFindAll(filter: RecordFilter) {
+    const sort = parseRecordSort(filter.sort) ?? [];
     const query = {
       ...this.buildQuery(filter),
       deletedAt: { $exists: false },
     };
-  
+
     return this.recordModel
       .find(query)
+      .select(this.buildProjection(filter))
+      .sort(this.buildSort(sort, this.isRankedByRelevance(filter, sort)))
       .limit(20)
       .skip(0)
       .explain('executionStats');
   }
-  
-  async findAll(filter: RecordFilter = {}) {
+
+  async findAll(filter: RecordFilter = {}): Promise<RecordPage> {
+    return await this.withSearchFallback(filter, (searchMode) =>
+      this.findPage(filter, searchMode),
+    );
+  }
+
+  /**
+   * Same matches as findAll, collapsed to one entry per title holding its
+   * matching variants. Titles are ordered by their first variant in the
+   * requested sort (e.g. their cheapest one for sort=price). Records not yet
+   * linked to a title are listed on their own.
+   */
+  async findTitleGroups(
+    filter: RecordFilter = {},
+  ): Promise<RecordTitleGroupPage> {
+    return await this.withSearchFallback(filter, (searchMode) =>
+      this.findTitleGroupPage(filter, searchMode),
+    );
+  }
+
+  // $text only matches whole (stemmed) words, so searches for a partial word
+  // fall back to a prefix match. Past the first page an empty result may just
+  // mean we ran out of text matches, so only fall back if there were none.
+  private async withSearchFallback<T extends { data: unknown[] }>(
+    filter: RecordFilter,
+    findPage: (searchMode: RecordSearchMode) => Promise<T>,
+  ): Promise<T> {
+    const page = await findPage('text');
+    if (!filter.q || page.data.length) return page;
+
+    const isFirstPage = !filter.cursor && !Number(filter.offset);
+    if (!isFirstPage && (await this.hasMatches(filter, 'text'))) return page;
+
+    return findPage('prefix');
+  }
+
+  private async findPage(
+    filter: RecordFilter,
+    searchMode: RecordSearchMode,
+  ): Promise<RecordPage> {
     const limit = Math.min(Number(filter.limit) || 20, 100);
-    const offset = Math.max(Number(filter.offset) || 0, 0);
+    const sort = parseRecordSort(filter.sort) ?? [];
+    const rankByRelevance = this.isRankedByRelevance(filter, sort);
+    const cursor = filter.cursor ? decodeRecordCursor(filter.cursor) : null;
+    // Cursor pages are keyed on the sort values, so the offset only applies without one
+    const offset = cursor ? 0 : Math.max(Number(filter.offset) || 0, 0);
+    // Counting is a full scan of the matching documents, so cursor pages skip it unless asked
+    const includeTotal = filter.includeTotal ?? !cursor;
 
-    const query = {
-      ...this.buildQuery(filter),
+    const query: FilterQuery<Record> = {
+      ...this.buildQuery(filter, searchMode),
       deletedAt: { $exists: false },
     };
+    const pageQuery: FilterQuery<Record> = cursor
+      ? { ...query, ...this.buildCursorQuery(sort, cursor) }
+      : query;
 
     const startTime = Date.now();
 
+    // One extra document tells us whether a next page exists without counting
     const [records, total] = await Promise.all([
-      this.recordModel.find(query).limit(limit).skip(offset).exec(),
-      this.recordModel.countDocuments(query).exec(),
+      this.recordModel
+        .find(pageQuery)
+        .select(this.buildProjection(filter, searchMode))
+        .sort(this.buildSort(sort, rankByRelevance && searchMode === 'text'))
+        .limit(limit + 1)
+        .skip(offset)
+        .exec(),
+      includeTotal
+        ? this.recordModel.countDocuments(query).exec()
+        : Promise.resolve(undefined),
     ]);
 
-    this.logger.log(`findAll query took ${Date.now() - startTime}ms`);
+    this.logger.log(
+      `findAll (${searchMode}) query took ${Date.now() - startTime}ms`,
+    );
+
+    const hasMore = records.length > limit;
+    const data = hasMore ? records.slice(0, limit) : records;
+    // Relevance scores cannot be expressed in a keyset condition
+    const nextCursor =
+      hasMore && !rankByRelevance
+        ? this.buildNextCursor(sort, data[data.length - 1])
+        : null;
 
     return {
-      data: records,
-      total,
+      data,
+      ...(includeTotal && { total }),
+      limit,
+      ...(!cursor && { offset }),
+      nextCursor,
+    };
+  }
+
+  private async findTitleGroupPage(
+    filter: RecordFilter,
+    searchMode: RecordSearchMode,
+  ): Promise<RecordTitleGroupPage> {
+    const limit = Math.min(Number(filter.limit) || 20, 100);
+    const offset = Math.max(Number(filter.offset) || 0, 0);
+    const includeTotal = filter.includeTotal ?? true;
+    const sort = parseRecordSort(filter.sort) ?? [];
+    const byTextScore =
+      this.isRankedByRelevance(filter, sort) && searchMode === 'text';
+    const tiebreak = this.tiebreakDirection(sort);
+
+    const pipeline: PipelineStage[] = [
+      {
+        $match: {
+          ...this.buildQuery(filter, searchMode),
+          deletedAt: { $exists: false },
+        },
+      },
+      ...(byTextScore
+        ? [{ $addFields: { score: { $meta: 'textScore' } } }]
+        : []),
+      { $project: { artistKey: 0, albumKey: 0 } },
+      {
+        $sort: {
+          ...(byTextScore && { score: -1 }),
+          ...Object.fromEntries(sort),
+          _id: tiebreak,
+        },
+      },
+      {
+        $group: {
+          _id: { $ifNull: ['$titleId', '$_id'] },
+          first: { $first: '$$ROOT' },
+          variants: { $push: '$$ROOT' },
+        },
+      },
+      {
+        $sort: {
+          ...(byTextScore && { 'first.score': -1 }),
+          ...Object.fromEntries(
+            sort.map(([field, direction]) => [`first.${field}`, direction]),
+          ),
+          'first._id': tiebreak,
+        },
+      },
+      {
+        $facet: {
+          data: [
+            { $skip: offset },
+            { $limit: limit },
+            {
+              $project: {
+                _id: 0,
+                titleId: { $ifNull: ['$first.titleId', null] },
+                artist: '$first.artist',
+                album: '$first.album',
+                variants: 1,
+              },
+            },
+          ],
+          ...(includeTotal && { total: [{ $count: 'count' }] }),
+        },
+      },
+    ];
+
+    const [result] = await this.recordModel
+      .aggregate(pipeline)
+      .allowDiskUse(true)
+      .exec();
+
+    return {
+      data: result.data,
+      ...(includeTotal && { total: result.total[0]?.count ?? 0 }),
       limit,
       offset,
     };
   }
 
-  async updateById(id: string, update: Partial<Record>) {
-    return await this.recordModel
-      .findOneAndUpdate({ _id: id, deletedAt: { $exists: false } }, update, {
-        new: true,
+  // Mongoose reports each failed slot as a copied driver WriteError (raw error
+  // under `err`) or a validation Error; anything else is the inserted document
+  private toInsertOutcome(result: any): RecordInsertOutcome {
+    if (result instanceof Error) {
+      return { error: { message: result.message } };
+    }
+    if (result?.err) {
+      return {
+        error: { code: result.err.code, message: result.err.errmsg },
+      };
+    }
+    return { record: result };
+  }
+
+  private async hasMatches(
+    filter: RecordFilter,
+    searchMode: RecordSearchMode,
+  ): Promise<boolean> {
+    const match = await this.recordModel
+      .exists({
+        ...this.buildQuery(filter, searchMode),
+        deletedAt: { $exists: false },
       })
       .exec();
+    return !!match;
+  }
+
+  // For queries over every match, where there is no first page to try $text on
+  private async resolveSearchMode(
+    filter: RecordFilter,
+  ): Promise<RecordSearchMode> {
+    return filter.q && !(await this.hasMatches(filter, 'text'))
+      ? 'prefix'
+      : 'text';
+  }
+
+  async findFacets(
+    filter: RecordFilter,
+    facets: RecordFacetName[],
+  ): Promise<RecordFacets> {
+    // Same whole-word/prefix fallback as findAll so counts agree with the listing
+    const searchMode = await this.resolveSearchMode(filter);
+    const query = {
+      ...this.buildQuery(filter, searchMode),
+      deletedAt: { $exists: false },
+    };
+
+    const [result] = await this.recordModel
+      .aggregate([
+        { $match: query },
+        {
+          $facet: Object.fromEntries(
+            facets.map((facet) => [facet, this.buildFacetPipeline(facet)]),
+          ),
+        },
+      ])
+      .exec();
+
+    return Object.fromEntries(
+      facets.map((facet) => [facet, this.mapFacet(facet, result?.[facet])]),
+    );
   }
+
+  // With a version, only updates the record if nobody else has changed it since
+  async updateById(id: string, update: Partial<Record>, version?: number) {
+    return await this.recordModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          deletedAt: { $exists: false },
+          ...(version !== undefined && { __v: version }),
+        },
+        { ...update, $inc: { __v: 1 } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Dropping the keys releases the record's slot in the unique index
+  async softDeleteById(id: string): Promise<Record | null> {
+    return await this.recordModel
+      .findOneAndUpdate(
+        { _id: id, deletedAt: { $exists: false } },
+        {
+          $set: { deletedAt: new Date() },
+          $unset: { artistKey: 1, albumKey: 1 },
+          $inc: { __v: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async findTrash(limit = 20, offset = 0): Promise<RecordTrashPage> {
+    const query = { deletedAt: { $exists: true } };
+    const [data, total] = await Promise.all([
+      this.recordModel
+        .find(query)
+        .sort({ deletedAt: -1, _id: -1 })
+        .limit(limit)
+        .skip(offset)
+        .exec(),
+      this.recordModel.countDocuments(query).exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+
+  async findLowStock(
+    query: FilterQuery<Record>,
+    limit = 20,
+    offset = 0,
+  ): Promise<RecordLowStockPage> {
+    const liveQuery = { ...query, deletedAt: { $exists: false } };
+    const [data, total] = await Promise.all([
+      this.recordModel
+        .find(liveQuery)
+        .sort({ qty: 1, _id: 1 })
+        .limit(limit)
+        .skip(offset)
+        .exec(),
+      this.recordModel.countDocuments(liveQuery).exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+
+  async findDeletedById(id: string): Promise<Record | null> {
+    return await this.recordModel
+      .findOne({ _id: id, deletedAt: { $exists: true } })
+      .exec();
+  }
+
+  // Fails with a duplicate key error if a live record took the slot meanwhile
+  async restoreById(
+    id: string,
+    identity: Pick<Record, 'artist' | 'album'>,
+  ): Promise<Record | null> {
+    return await this.recordModel
+      .findOneAndUpdate(
+        { _id: id, deletedAt: { $exists: true } },
+        {
+          $set: {
+            artistKey: normalizeText(identity.artist),
+            albumKey: normalizeText(identity.album),
+          },
+          $unset: { deletedAt: 1 },
+          $inc: { __v: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Ids and cover metadata of the records purgeDeletedBefore removes
+  async findDeletedBefore(cutoff: Date): Promise<Partial<Record>[]> {
+    return await this.recordModel
+      .find({ deletedAt: { $lt: cutoff } })
+      .select({ cover: 1 })
+      .lean<Partial<Record>[]>()
+      .exec();
+  }
+
+  // Limited to the ids found by findDeletedBefore, so nothing is removed unseen
+  async purgeDeletedBefore(cutoff: Date, ids: string[]): Promise<number> {
+    const { deletedCount } = await this.recordModel
+      .deleteMany({ _id: { $in: ids }, deletedAt: { $lt: cutoff } })
+      .exec();
+    return deletedCount;
+  }
+
+  /** Those of the given ids still held by a record, trash included */
+  async findExistingIds(ids: string[]): Promise<string[]> {
+    const existing = await this.recordModel
+      .distinct('_id', { _id: { $in: ids } })
+      .exec();
+    return existing.map(String);
+  }
+
+  /** Records (trash included) using a format, or a category as category or genre */
+  async countByTaxonomyValue(
+    kind: TaxonomyKind,
+    value: string,
+  ): Promise<number> {
+    return await this.recordModel
+      .countDocuments(this.buildTaxonomyQuery(kind, value))
+      .exec();
+  }
+
+  /**
+   * Live records in format `from` whose artist, album and conditions already
+   * exist in format `to`, so moving them there would break the unique index.
+   */
+  async findFormatClashes(
+    from: string,
+    to: string,
+    limit = 5,
+  ): Promise<Partial<Record>[]> {
+    return await this.recordModel
+      .aggregate<Partial<Record>>([
+        { $match: { format: from, artistKey: { $exists: true } } },
+        {
+          $lookup: {
+            from: this.recordModel.collection.name,
+            let: {
+              artistKey: '$artistKey',
+              albumKey: '$albumKey',
+              mediaCondition: '$mediaCondition',
+              sleeveCondition: '$sleeveCondition',
+            },
+            pipeline: [
+              {
+                $match: {
+                  $expr: {
+                    $and: [
+                      { $eq: ['$artistKey', '$$artistKey'] },
+                      { $eq: ['$albumKey', '$$albumKey'] },
+                      { $eq: ['$mediaCondition', '$$mediaCondition'] },
+                      { $eq: ['$sleeveCondition', '$$sleeveCondition'] },
+                      { $eq: ['$format', to] },
+                    ],
+                  },
+                },
+              },
+              { $limit: 1 },
+              { $project: { _id: 1 } },
+            ],
+            as: 'clashes',
+          },
+        },
+        { $match: { clashes: { $ne: [] } } },
+        { $limit: limit },
+        {
+          $project: {
+            artist: 1,
+            album: 1,
+            format: 1,
+            mediaCondition: 1,
+            sleeveCondition: 1,
+          },
+        },
+      ])
+      .exec();
+  }
+
+  /**
+   * Moves every record (trash included) from one format or category to
+   * another; a category is renamed among the genres too, keeping their order
+   * without duplicates. Versions are bumped so earlier ETags stop matching.
+   */
+  async reassignTaxonomyValue(
+    kind: TaxonomyKind,
+    from: string,
+    to: string,
+  ): Promise<number> {
+    const renamed =
+      kind === TaxonomyKind.FORMAT
+        ? { format: to }
+        : {
+            category: {
+              $cond: [{ $eq: ['$category', from] }, to, '$category'],
+            },
+            genres: {
+              $reduce: {
+                input: {
+                  $map: {
+                    input: { $ifNull: ['$genres', []] },
+                    in: { $cond: [{ $eq: ['$$this', from] }, to, '$$this'] },
+                  },
+                },
+                initialValue: [],
+                in: {
+                  $cond: [
+                    { $in: ['$$this', '$$value'] },
+                    '$$value',
+                    { $concatArrays: ['$$value', ['$$this']] },
+                  ],
+                },
+              },
+            },
+          };
+
+    const { modifiedCount } = await this.recordModel
+      .updateMany(
+        this.buildTaxonomyQuery(kind, from),
+        [
+          {
+            $set: {
+              ...renamed,
+              __v: { $add: [{ $ifNull: ['$__v', 0] }, 1] },
+              updatedAt: '$$NOW',
+            },
+          },
+        ],
+        { timestamps: false },
+      )
+      .exec();
+    return modifiedCount;
+  }
+
+  /** Takes stock at a location, only while it has at least `quantity` */
   async decrementStockIfAvailable(
     recordId: string,
     quantity: number,
+    location: string,
   ): Promise<Record | null> {
     return await this.recordModel
       .findOneAndUpdate(
-        { _id: recordId, qty: { $gte: quantity } },
-        { $inc: { qty: -quantity } },
+        {
+          _id: recordId,
+          stock: { $elemMatch: { location, qty: { $gte: quantity } } },
+        },
+        { $inc: { 'stock.$.qty': -quantity, qty: -quantity, __v: 1 } },
         { new: true },
       )
       .exec();
@@ -94,29 +713,273 @@ export class RecordRepository {
   async incrementStock(
     recordId: string,
     quantity: number,
+    location: string,
   ): Promise<Record | null> {
+    await this.addStockLocation(recordId, location);
     return await this.recordModel
-      .findByIdAndUpdate(recordId, { $inc: { qty: quantity } }, { new: true })
+      .findOneAndUpdate(
+        { _id: recordId, 'stock.location': location },
+        { $inc: { 'stock.$.qty': quantity, qty: quantity, __v: 1 } },
+        { new: true },
+      )
       .exec();
   }
 
-  private buildQuery(filter: RecordFilter): FilterQuery<Record> {
-    const query: FilterQuery<Record> = {};
+  /** Moves stock between locations; null when `from` has too little */
+  async transferStock(
+    recordId: string,
+    from: string,
+    to: string,
+    quantity: number,
+  ): Promise<Record | null> {
+    await this.addStockLocation(recordId, to);
+    return await this.recordModel
+      .findOneAndUpdate(
+        {
+          _id: recordId,
+          stock: { $elemMatch: { location: from, qty: { $gte: quantity } } },
+        },
+        {
+          $inc: {
+            'stock.$[from].qty': -quantity,
+            'stock.$[to].qty': quantity,
+            __v: 1,
+          },
+        },
+        {
+          new: true,
+          arrayFilters: [{ 'from.location': from }, { 'to.location': to }],
+        },
+      )
+      .exec();
+  }
+
+  // An empty entry for a location the record was never stocked at, so the
+  // stock updates can address it; a no-op when it exists
+  private async addStockLocation(
+    recordId: string,
+    location: string,
+  ): Promise<void> {
+    await this.recordModel
+      .updateOne(
+        { _id: recordId, 'stock.location': { $ne: location } },
+        { $push: { stock: { location, qty: 0 } } },
+        { timestamps: false },
+      )
+      .exec();
+  }
 
-    if (filter.q) {
-      const searchRegex = new RegExp(filter.q, 'i');
-      query.$or = [
-        { artist: searchRegex },
-        { album: searchRegex },
-        { category: searchRegex },
+  private buildFacetPipeline(facet: RecordFacetName): any[] {
+    if (facet === 'price') {
+      return [
+        {
+          $bucket: {
+            groupBy: '$price',
+            boundaries: RECORD_PRICE_FACET_BOUNDARIES,
+            default: RECORD_PRICE_FACET_OVERFLOW,
+          },
+        },
       ];
     }
 
-    if (filter.artist) query.artist = new RegExp(filter.artist, 'i');
-    if (filter.album) query.album = new RegExp(filter.album, 'i');
+    return [
+      { $group: { _id: `$${facet}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ];
+  }
+
+  private mapFacet(facet: RecordFacetName, buckets: any[] = []) {
+    if (facet !== 'price') {
+      return buckets.map(({ _id, count }) => ({ value: _id, count }));
+    }
+
+    const boundaries = RECORD_PRICE_FACET_BOUNDARIES;
+    return buckets.map(({ _id, count }) => {
+      if (_id === RECORD_PRICE_FACET_OVERFLOW) {
+        return { min: boundaries[boundaries.length - 1], max: null, count };
+      }
+      return { min: _id, max: boundaries[boundaries.indexOf(_id) + 1], count };
+    });
+  }
+
+  // Without an explicit sort, text searches are ordered by relevance
+  private isRankedByRelevance(filter: RecordFilter, sort: RecordSort): boolean {
+    return !!filter.q && !sort.length;
+  }
+
+  private buildProjection(
+    filter: RecordFilter,
+    searchMode: RecordSearchMode = 'text',
+  ): { [field: string]: any } {
+    return filter.q && searchMode === 'text'
+      ? { score: { $meta: 'textScore' } }
+      : {};
+  }
+
+  // _id is always the last sort key so that pages are stable across ties.
+  // It follows the direction of the key before it so one index serves both ways.
+  private buildSort(
+    sort: RecordSort,
+    byTextScore = false,
+  ): { [field: string]: any } {
+    return {
+      ...(byTextScore && { score: { $meta: 'textScore' } }),
+      ...Object.fromEntries(sort),
+      _id: this.tiebreakDirection(sort),
+    };
+  }
+
+  private tiebreakDirection(sort: RecordSort): 1 | -1 {
+    return sort.length ? sort[sort.length - 1][1] : 1;
+  }
+
+  private buildNextCursor(sort: RecordSort, last: Record): string {
+    return encodeRecordCursor({
+      id: String(last._id),
+      values: sort.map(([field]) => last[field]),
+    });
+  }
+
+  /**
+   * Keyset condition matching documents strictly after the cursor in sort
+   * order: (a > x) OR (a = x AND b > y) OR ... ending with the _id tiebreaker.
+   */
+  private buildCursorQuery(
+    sort: RecordSort,
+    cursor: RecordCursor,
+  ): FilterQuery<Record> {
+    const keys = [
+      ...sort.map(([field, direction], index) => ({
+        field,
+        direction,
+        value: reviveRecordSortValue(field, cursor.values[index]),
+      })),
+      {
+        field: '_id',
+        direction: this.tiebreakDirection(sort),
+        value: cursor.id,
+      },
+    ];
+
+    const branches = keys.map((key, index) => ({
+      ...Object.fromEntries(
+        keys.slice(0, index).map((k) => [k.field, k.value]),
+      ),
+      [key.field]: { [key.direction === 1 ? '$gt' : '$lt']: key.value },
+    }));
+
+    // $and keeps the keyset $or from clobbering the q search $or
+    return branches.length === 1 ? branches[0] : { $and: [{ $or: branches }] };
+  }
+
+  private buildQuery(
+    filter: RecordFilter,
+    searchMode: RecordSearchMode = 'text',
+  ): FilterQuery<Record> {
+    const query: FilterQuery<Record> = {};
+
+    if (filter.q && searchMode === 'text') {
+      query.$text = { $search: filter.q };
+    }
+
+    if (filter.q && searchMode === 'prefix') {
+      // Matches any word in artist/album starting with the (escaped) input
+      const prefixRegex = new RegExp(`(^| )${this.toKeyPattern(filter.q)}`);
+      query.$or = [{ artistKey: prefixRegex }, { albumKey: prefixRegex }];
+    }
+
+    if (filter.artist) {
+      query.artistKey = new RegExp(this.toKeyPattern(filter.artist));
+    }
+    if (filter.album) {
+      query.albumKey = new RegExp(this.toKeyPattern(filter.album));
+    }
     if (filter.format) query.format = filter.format;
     if (filter.category) query.category = filter.category;
+    if (filter.genres?.length) {
+      query.genres = this.buildListMatch(filter.genres, filter.genresMatch);
+    }
+    if (filter.tags?.length) {
+      query.tags = this.buildListMatch(
+        normalizeRecordTags(filter.tags),
+        filter.tagsMatch,
+      );
+    }
+
+    if (filter.minCondition) {
+      query.mediaCondition = {
+        $in: recordConditionsAtLeast(filter.minCondition),
+      };
+    }
+    if (filter.minSleeveCondition) {
+      query.sleeveCondition = {
+        $in: recordConditionsAtLeast(filter.minSleeveCondition),
+      };
+    }
+
+    const price = this.buildRange(filter.minPrice, filter.maxPrice);
+    if (price) query.price = price;
+
+    if (filter.location) {
+      const stocked = {
+        location: filter.location,
+        qty: { $gte: Math.max(filter.minQty ?? 1, 1) },
+      };
+      query.stock =
+        filter.inStock === false
+          ? {
+              $not: {
+                $elemMatch: { location: filter.location, qty: { $gt: 0 } },
+              },
+            }
+          : { $elemMatch: stocked };
+    } else {
+      const qty: FilterQuery<Record>['qty'] = {};
+      if (filter.inStock === true) qty.$gt = 0;
+      if (filter.inStock === false) qty.$lte = 0;
+      if (filter.minQty !== undefined) qty.$gte = filter.minQty;
+      if (Object.keys(qty).length) query.qty = qty;
+    }
+
+    if (filter.createdAfter) query.createdAt = { $gt: filter.createdAfter };
+    if (filter.updatedSince) query.updatedAt = { $gte: filter.updatedSince };
+
+    // null also matches documents where mbid was never set
+    if (filter.hasMbid === true) query.mbid = { $nin: [null, ''] };
+    if (filter.hasMbid === false) query.mbid = { $in: [null, ''] };
 
     return query;
   }
+
+  private buildTaxonomyQuery(
+    kind: TaxonomyKind,
+    value: string,
+  ): FilterQuery<Record> {
+    return kind === TaxonomyKind.FORMAT
+      ? { format: value }
+      : { $or: [{ category: value }, { genres: value }] };
+  }
+
+  // Inputs are folded like the stored keys, then escaped to match literally
+  private toKeyPattern(value: string): string {
+    return escapeRegExp(normalizeText(value));
+  }
+
+  private buildListMatch(
+    values: string[],
+    mode: RecordMatchMode = 'any',
+  ): { $in: string[] } | { $all: string[] } {
+    return mode === 'all' ? { $all: values } : { $in: values };
+  }
+
+  private buildRange(
+    min?: number,
+    max?: number,
+  ): { $gte?: number; $lte?: number } | null {
+    if (min === undefined && max === undefined) return null;
+    return {
+      ...(min !== undefined && { $gte: min }),
+      ...(max !== undefined && { $lte: max }),
+    };
+  }
 }
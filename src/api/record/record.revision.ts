@@ -0,0 +1,61 @@
+export enum RecordRevisionSource {
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore',
+  STOCK_DECREMENT = 'stock-decrement',
+  STOCK_INCREMENT = 'stock-increment',
+  STOCK_ADJUSTMENT = 'stock-adjustment',
+  REVERT = 'revert',
+  PRICE_SCHEDULE = 'price-schedule',
+}
+
+// Fields whose changes are kept in the history (tracklist follows mbid)
+export const RECORD_REVISION_FIELDS = [
+  'artist',
+  'album',
+  'price',
+  'qty',
+  'format',
+  'mediaCondition',
+  'sleeveCondition',
+  'category',
+  'genres',
+  'tags',
+  'mbid',
+  'deletedAt',
+] as const;
+
+export type RecordRevisionField = (typeof RECORD_REVISION_FIELDS)[number];
+
+export interface RecordRevisionChange {
+  field: RecordRevisionField;
+  before: unknown;
+  after: unknown;
+}
+
+export function isSameRevisionValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((value, i) => isSameRevisionValue(value, b[i]))
+    );
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/** Field-by-field changes between two states of a record; missing values become null */
+export function diffRecordRevision(
+  before: Partial<{ [field in RecordRevisionField]: unknown }>,
+  after: Partial<{ [field in RecordRevisionField]: unknown }>,
+): RecordRevisionChange[] {
+  return RECORD_REVISION_FIELDS.filter(
+    (field) => !isSameRevisionValue(before[field], after[field]),
+  ).map((field) => ({
+    field,
+    before: before[field] ?? null,
+    after: after[field] ?? null,
+  }));
+}
@@ -1,7 +1,25 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
-import { RecordFormat, RecordCategory } from './record.enum';
+import { Document, Query, Types, UpdateQuery } from 'mongoose';
 import { Track } from '../../integrations/releases/release.service';
+import { normalizeText } from '../../common/utils/normalize-text.util';
+import { normalizeRecordTags, withPrimaryGenre } from './record.genres';
+import { RecordCover } from './record.cover';
+import { RecordCondition } from './record.enum';
+import { RECORD_DEFAULT_CONDITION } from './record.condition';
+import { RECORD_DEFAULT_STOCK_LOCATION } from './record.stock';
+import { AppConfig } from '../../app.config';
+
+/** Stock of a record at one location */
+@Schema({ _id: false })
+export class RecordStockLevel {
+  @Prop({ required: true })
+  location: string;
+
+  @Prop({ required: true, min: 0 })
+  qty: number;
+}
+
+const RecordStockLevelSchema = SchemaFactory.createForClass(RecordStockLevel);
 
 @Schema({ timestamps: true })
 export class Record extends Document {
@@ -11,17 +29,60 @@ export class Record extends Document {
   @Prop({ required: true })
   album: string;
 
+  // Case- and accent-folded copies used for matching and uniqueness
+  @Prop({ select: false })
+  artistKey: string;
+
+  @Prop({ select: false })
+  albumKey: string;
+
   @Prop({ required: true })
   price: number;
 
+  // Always the base currency; listings and orders convert from it
+  @Prop({ required: true, default: () => AppConfig.baseCurrency })
+  currency: string;
+
+  // Total over the locations in `stock`; every stock write changes both
   @Prop({ required: true })
   qty: number;
 
-  @Prop({ enum: RecordFormat, required: true })
-  format: RecordFormat;
+  // Per location of STOCK_LOCATIONS; locations never stocked have no entry
+  @Prop({ type: [RecordStockLevelSchema], default: [] })
+  stock: RecordStockLevel[];
+
+  // Stock level to reorder at; falls back to the category's, then the default
+  @Prop({ required: false, min: 0 })
+  reorderThreshold?: number;
+
+  // Formats and categories are checked against the taxonomy by the DTOs
+  @Prop({ required: true })
+  format: string;
+
+  @Prop({ required: true })
+  category: string;
+
+  // Graded copies of the same release are separate records (see the unique index)
+  @Prop({
+    required: true,
+    enum: RecordCondition,
+    default: RECORD_DEFAULT_CONDITION,
+  })
+  mediaCondition: RecordCondition;
+
+  @Prop({
+    required: true,
+    enum: RecordCondition,
+    default: RECORD_DEFAULT_CONDITION,
+  })
+  sleeveCondition: RecordCondition;
 
-  @Prop({ enum: RecordCategory, required: true })
-  category: RecordCategory;
+  // Every genre of the record, category (the primary genre) included
+  @Prop({ type: [String], default: [] })
+  genres: string[];
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
 
   @Prop({ required: false })
   mbid?: string;
@@ -29,17 +90,95 @@ export class Record extends Document {
   @Prop({ required: false })
   tracklist?: Track[];
 
+  // Groups this record with the other formats of the same album
+  @Prop({ type: Types.ObjectId, ref: 'Title', required: false })
+  titleId?: Types.ObjectId;
+
+  // Versioned URL of the cover image, so it changes with every upload
+  @Prop({ required: false })
+  coverUrl?: string;
+
+  @Prop({ type: Object, required: false, select: false })
+  cover?: RecordCover;
+
   @Prop({ required: false })
   deletedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Mongoose version key, bumped by every write; exposed as the ETag
+  __v: number;
 }
 
 export const RecordSchema = SchemaFactory.createForClass(Record);
 
-// Compound unique index: a record is uniquely identified by artist + album + format
-RecordSchema.index({ artist: 1, album: 1, format: 1 }, { unique: true });
+RecordSchema.pre('validate', function () {
+  if (this.artist) this.artistKey = normalizeText(this.artist);
+  if (this.album) this.albumKey = normalizeText(this.album);
+  if (this.category) this.genres = withPrimaryGenre(this.category, this.genres);
+  this.tags = normalizeRecordTags(this.tags);
+  // Records inserted without locations (setup-db, raw inserts) start out
+  // with all their stock at the default location
+  if (!this.stock?.length && this.qty > 0) {
+    this.stock = [{ location: RECORD_DEFAULT_STOCK_LOCATION, qty: this.qty }];
+  }
+});
+
+RecordSchema.pre('findOneAndUpdate', function (this: Query<unknown, Record>) {
+  const update = this.getUpdate() as UpdateQuery<Record>;
+  const changes = { ...update, ...update.$set };
+  if (typeof changes.artist === 'string') {
+    this.set('artistKey', normalizeText(changes.artist));
+  }
+  if (typeof changes.album === 'string') {
+    this.set('albumKey', normalizeText(changes.album));
+  }
+});
+
+// Compound unique index: a record is uniquely identified by artist + album +
+// format + media and sleeve condition, with artist and album compared case- and
+// accent-insensitively. Soft-deleted records drop their keys, so the partial
+// filter leaves them out and their identity can be reused.
+RecordSchema.index(
+  {
+    artistKey: 1,
+    albumKey: 1,
+    format: 1,
+    mediaCondition: 1,
+    sleeveCondition: 1,
+  },
+  { unique: true, partialFilterExpression: { artistKey: { $exists: true } } },
+);
+
+// Filter + sort indexes (equality field first, then sort key, then the _id
+// tiebreaker used by cursor pagination). They also serve plain category/format filters.
+RecordSchema.index({ category: 1, price: 1, _id: 1 });
+RecordSchema.index({ category: 1, createdAt: -1, _id: -1 });
+RecordSchema.index({ format: 1, price: 1, _id: 1 });
+
+// Low-stock report, lowest stock first
+RecordSchema.index({ qty: 1, _id: 1 });
+
+// Records stocked at a location (multikey)
+RecordSchema.index({ 'stock.location': 1, 'stock.qty': 1 });
+
+// Sort indexes for the unfiltered listing
+RecordSchema.index({ price: 1, _id: 1 });
+RecordSchema.index({ createdAt: -1, _id: -1 });
+
+// Genre and tag filters (multikey)
+RecordSchema.index({ genres: 1 });
+RecordSchema.index({ tags: 1 });
+
+// Variants of a title
+RecordSchema.index({ titleId: 1 });
 
-// Index for category filter (common query pattern)
-RecordSchema.index({ category: 1 });
+// Trash listing (newest deletions first) and purging by age
+RecordSchema.index(
+  { deletedAt: -1, _id: -1 },
+  { partialFilterExpression: { deletedAt: { $exists: true } } },
+);
 
 // Text index for general search (q parameter)
 RecordSchema.index({ artist: 'text', album: 'text' });
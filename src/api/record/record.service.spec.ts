@@ -2,17 +2,55 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { RecordService } from './record.service';
 import { RecordRepository } from './record.repository';
 import { ReleaseService } from '../../integrations/releases/release.service';
-import { NotFoundException, ConflictException } from '@nestjs/common';
-import { RecordCategory, RecordFormat } from './record.enum';
+import {
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  PreconditionFailedException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { RecordCategory, RecordCondition, RecordFormat } from './record.enum';
 import { MongoErrorCode } from '../../common/constants/error-codes.constants';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Record } from './record.schema';
 import { Cache } from 'cache-manager';
+import { encodeRecordCursor } from './record.cursor';
+import { RecordRevisionRepository } from './record-revision.repository';
+import { RecordRevisionSource } from './record.revision';
+import { TitleService } from '../title/title.service';
+import { TaxonomyService } from '../taxonomy/taxonomy.service';
+import { TaxonomyValueConstraint } from '../taxonomy/taxonomy.validator';
+import { useContainer } from 'class-validator';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
+import { Types } from 'mongoose';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import {
+  FILE_STORAGE,
+  FileStorage,
+} from '../../integrations/storage/file-storage';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { RecordPriceRepository } from './record-price.repository';
+import { RecordPriceKind, RecordPriceSource } from './record.price';
+import { RecordStockMovementRepository } from './record-stock-movement.repository';
+import { RecordStockMovementType } from './record.stock';
+import {
+  STOCK_ALERT_NOTIFIER,
+  StockAlertNotifier,
+} from '../../integrations/notifications/stock-alert-notifier';
+
 describe('RecordService', () => {
   let service: RecordService;
   let repository: jest.Mocked<RecordRepository>;
+  let revisionRepository: jest.Mocked<RecordRevisionRepository>;
+  let priceRepository: jest.Mocked<RecordPriceRepository>;
+  let movementRepository: jest.Mocked<RecordStockMovementRepository>;
   let releaseService: jest.Mocked<ReleaseService>;
+  let titleService: jest.Mocked<TitleService>;
   let cacheManager: jest.Mocked<Cache>;
+  let fileStorage: jest.Mocked<FileStorage>;
+  let exchangeRateService: jest.Mocked<ExchangeRateService>;
+  let stockAlertNotifier: jest.Mocked<StockAlertNotifier>;
   let cacheKey: string;
   let cachedResult: {
     data: Record[];
@@ -21,6 +59,8 @@ describe('RecordService', () => {
     offset: number;
   };
 
+  const titleId = new Types.ObjectId('65f1f77bcf86cd7994390abc');
+
   const mockRecord = {
     _id: '507f1f77bcf86cd799439011',
     artist: 'The Beatles',
@@ -31,6 +71,7 @@ describe('RecordService', () => {
     category: RecordCategory.ROCK,
     mbid: undefined,
     tracklist: [],
+    titleId,
   };
 
   const mockTracklist = [
@@ -43,12 +84,59 @@ describe('RecordService', () => {
 
     const mockRepository = {
       create: jest.fn(),
+      insertMany: jest.fn(),
+      findExistingIdentities: jest.fn(),
+      streamAll: jest.fn(),
       findById: jest.fn(),
       findAll: jest.fn(),
+      findFacets: jest.fn(),
+      countByTaxonomyValue: jest.fn(),
+      findFormatClashes: jest.fn(),
+      reassignTaxonomyValue: jest.fn(),
+      findTitleGroups: jest.fn(),
       updateById: jest.fn(),
-      deleteById: jest.fn(),
+      softDeleteById: jest.fn(),
+      findTrash: jest.fn(),
+      findDeletedById: jest.fn(),
+      restoreById: jest.fn(),
+      purgeDeletedBefore: jest.fn(),
+      findExistingIds: jest.fn().mockResolvedValue([]),
+      findCoverById: jest.fn(),
+      findDeletedBefore: jest.fn().mockResolvedValue([]),
       decrementStockIfAvailable: jest.fn(),
       incrementStock: jest.fn(),
+      transferStock: jest.fn(),
+      findLowStock: jest.fn(),
+    };
+
+    const mockRevisionRepository = {
+      create: jest.fn(),
+      findByRecordId: jest.fn(),
+      findById: jest.fn(),
+      deleteByRecordIds: jest.fn(),
+    };
+
+    // No schedule unless a test sets one up
+    const mockPriceRepository = {
+      create: jest.fn(),
+      findByRecordId: jest.fn(),
+      findById: jest.fn(),
+      hasChanges: jest.fn().mockResolvedValue(false),
+      findLatestChange: jest.fn().mockResolvedValue(null),
+      findActiveSale: jest.fn().mockResolvedValue(null),
+      findSales: jest.fn().mockResolvedValue([]),
+      findDueRecordIds: jest.fn().mockResolvedValue([]),
+      markApplied: jest.fn(),
+      endSale: jest.fn(),
+      delete: jest.fn(),
+      deleteByRecordIds: jest.fn(),
+    };
+
+    // Ledger entries echo what was written
+    const mockMovementRepository = {
+      create: jest.fn(async (data: unknown) => data),
+      insertMany: jest.fn(),
+      findByRecordId: jest.fn(),
     };
 
     const cacheManagerMock: jest.Mocked<Cache> = {
@@ -62,21 +150,102 @@ describe('RecordService', () => {
       getRelease: jest.fn(),
     };
 
+    const mockFileStorage = {
+      put: jest.fn(),
+      get: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const mockTitleService = {
+      resolveTitleId: jest.fn().mockResolvedValue(titleId),
+      resolveTitleIds: jest.fn(async (records: unknown[]) =>
+        records.map(() => titleId),
+      ),
+    };
+
+    const mockExchangeRateService = {
+      getRate: jest.fn(),
+    };
+
+    // DTO validation (bulk rows, patches) checks against the built-in values
+    const mockTaxonomyService = {
+      hasValue: jest.fn(async (_kind: string, value: string) =>
+        [
+          ...Object.values(RecordFormat),
+          ...Object.values(RecordCategory),
+        ].includes(value as any),
+      ),
+      reorderThresholds: jest
+        .fn()
+        .mockResolvedValue(new Map([[RecordCategory.JAZZ, 5]])),
+    };
+
+    const mockStockAlertNotifier = {
+      notify: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         RecordService,
+        TaxonomyValueConstraint,
+        { provide: TaxonomyService, useValue: mockTaxonomyService },
         { provide: RecordRepository, useValue: mockRepository },
+        {
+          provide: RecordRevisionRepository,
+          useValue: mockRevisionRepository,
+        },
+        { provide: RecordPriceRepository, useValue: mockPriceRepository },
+        {
+          provide: RecordStockMovementRepository,
+          useValue: mockMovementRepository,
+        },
         { provide: ReleaseService, useValue: mockReleaseService },
+        { provide: TitleService, useValue: mockTitleService },
         { provide: CACHE_MANAGER, useValue: cacheManagerMock },
+        { provide: FILE_STORAGE, useValue: mockFileStorage },
+        { provide: ExchangeRateService, useValue: mockExchangeRateService },
+        { provide: STOCK_ALERT_NOTIFIER, useValue: mockStockAlertNotifier },
       ],
     }).compile();
 
     service = module.get<RecordService>(RecordService);
     repository = module.get(RecordRepository);
+    revisionRepository = module.get(RecordRevisionRepository);
+    priceRepository = module.get(RecordPriceRepository);
+    movementRepository = module.get(RecordStockMovementRepository);
     releaseService = module.get(ReleaseService);
+    titleService = module.get(TitleService);
     cacheManager = module.get(CACHE_MANAGER);
+    fileStorage = module.get(FILE_STORAGE);
+    exchangeRateService = module.get(ExchangeRateService);
+    stockAlertNotifier = module.get(STOCK_ALERT_NOTIFIER);
+    useContainer(module, { fallbackOnErrors: true });
   });
 
+  // Serves the given entries plus the current generation of every namespace
+  const mockCacheEntries = (
+    entries: { [key: string]: unknown },
+    generation: string | null = 'gen-1',
+  ) => {
+    cacheManager.get.mockImplementation(async (key: string) =>
+      key.endsWith(':generation') ? generation : entries[key],
+    );
+  };
+
+  const expectListingsInvalidated = () => {
+    for (const scope of ['list', 'facets']) {
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `records:${scope}:generation`,
+        expect.any(String),
+        0,
+      );
+    }
+  };
+
+  const recordCacheKey = `records:record:gen-1:${JSON.stringify({
+    id: '507f1f77bcf86cd799439011',
+  })}`;
+
   describe('create', () => {
     const createDto = {
       artist: 'The Beatles',
@@ -95,10 +264,23 @@ describe('RecordService', () => {
       expect(result).toEqual(mockRecord);
       expect(repository.create).toHaveBeenCalledWith({
         ...createDto,
+        stock: [{ location: 'shop-floor', qty: 10 }],
         mbid: undefined,
         tracklist: [],
+        titleId,
       });
+      expect(titleService.resolveTitleId).toHaveBeenCalledWith(createDto);
       expect(releaseService.getRelease).not.toHaveBeenCalled();
+      expect(movementRepository.insertMany).toHaveBeenCalledWith([
+        {
+          recordId: mockRecord._id,
+          type: RecordStockMovementType.OPENING,
+          location: 'shop-floor',
+          quantity: 10,
+          balance: 10,
+        },
+      ]);
+      expectListingsInvalidated();
     });
 
     it('should create a record with MBID and fetch tracklist', async () => {
@@ -124,8 +306,10 @@ describe('RecordService', () => {
       expect(releaseService.getRelease).toHaveBeenCalledWith(mbid);
       expect(repository.create).toHaveBeenCalledWith({
         ...createDto,
+        stock: [{ location: 'shop-floor', qty: 10 }],
         mbid,
         tracklist: mockTracklist,
+        titleId,
       });
     });
 
@@ -153,6 +337,23 @@ describe('RecordService', () => {
       await expect(service.create(createDto)).rejects.toThrow(
         ConflictException,
       );
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+
+    it('should name the conditions of a duplicate graded copy', async () => {
+      repository.create.mockRejectedValue({
+        code: MongoErrorCode.DUPLICATE_KEY,
+      });
+
+      await expect(
+        service.create({
+          ...createDto,
+          mediaCondition: RecordCondition.VERY_GOOD_PLUS,
+          sleeveCondition: RecordCondition.VERY_GOOD,
+        }),
+      ).rejects.toThrow(
+        'Record with artist "The Beatles", album "Abbey Road", format "Vinyl", and condition VG+/VG (media/sleeve) already exists',
+      );
     });
 
     it('should rethrow non-duplicate errors', async () => {
@@ -165,6 +366,322 @@ describe('RecordService', () => {
     });
   });
 
+  describe('bulkCreate', () => {
+    const row = {
+      artist: 'The Beatles',
+      album: 'Abbey Road',
+      price: 25,
+      qty: 10,
+      format: RecordFormat.VINYL,
+      category: RecordCategory.ROCK,
+    };
+
+    it('should report an outcome per row without failing the request', async () => {
+      const mbid = 'b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d';
+      const lookupMbid = 'cf0d899c-bbc6-4a33-ba74-5e335284e836';
+      releaseService.getRelease.mockImplementation(async (id) => {
+        if (id === lookupMbid) throw new Error('Service Unavailable');
+        return { id, title: '', artist: '', tracklist: mockTracklist };
+      });
+      repository.insertMany.mockResolvedValue([
+        { record: { ...mockRecord, _id: 'created-id' } as any },
+        {
+          error: {
+            code: MongoErrorCode.DUPLICATE_KEY,
+            message: 'E11000 duplicate key error',
+          },
+        },
+      ]);
+
+      const result = await service.bulkCreate([
+        { ...row, mbid },
+        { ...row, price: -1 },
+        'not a record',
+        { ...row, album: 'Let It Be', mbid: lookupMbid },
+        { ...row, format: RecordFormat.CD },
+      ]);
+
+      expect(repository.insertMany).toHaveBeenCalledTimes(1);
+      const stock = [{ location: 'shop-floor', qty: 10 }];
+      expect(repository.insertMany).toHaveBeenCalledWith([
+        { ...row, stock, mbid, tracklist: mockTracklist, titleId },
+        {
+          ...row,
+          stock,
+          format: RecordFormat.CD,
+          mbid: undefined,
+          tracklist: [],
+          titleId,
+        },
+      ]);
+      expect(result.results).toEqual([
+        { index: 0, status: 'created', id: 'created-id' },
+        {
+          index: 1,
+          status: 'invalid',
+          errors: ['price must not be less than 0'],
+        },
+        {
+          index: 2,
+          status: 'invalid',
+          errors: ['Each record must be an object'],
+        },
+        {
+          index: 3,
+          status: 'lookup-failed',
+          errors: ['MusicBrainz lookup failed: Service Unavailable'],
+        },
+        { index: 4, status: 'duplicate', errors: [expect.any(String)] },
+      ]);
+      expect(result.summary).toEqual({
+        total: 5,
+        created: 1,
+        duplicate: 1,
+        invalid: 2,
+        'lookup-failed': 1,
+        failed: 0,
+        valid: 0,
+      });
+    });
+
+    it('should reject rows whose format is not in the taxonomy', async () => {
+      const result = await service.bulkCreate([{ ...row, format: '8-Track' }]);
+
+      expect(result.results).toEqual([
+        {
+          index: 0,
+          status: 'invalid',
+          errors: ['format must be a format listed by GET /taxonomy/format'],
+        },
+      ]);
+      expect(repository.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should insert valid rows in batches', async () => {
+      repository.insertMany.mockImplementation(async (docs) =>
+        docs.map(() => ({ record: mockRecord as any })),
+      );
+
+      const rows = Array.from({ length: 250 }, (_, i) => ({
+        ...row,
+        album: `Album ${i}`,
+      }));
+      const result = await service.bulkCreate(rows);
+
+      expect(repository.insertMany).toHaveBeenCalledTimes(3);
+      expect(repository.insertMany.mock.calls[2][0]).toHaveLength(50);
+      expect(result.summary.created).toBe(250);
+    });
+
+    it('should reject a body that is not a non-empty array', async () => {
+      await expect(service.bulkCreate([])).rejects.toThrow(BadRequestException);
+      await expect(service.bulkCreate({} as any)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject imports over the row limit', async () => {
+      await expect(
+        service.bulkCreate(Array.from({ length: 1001 }, () => row)),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('importRecords', () => {
+    it('should map CSV columns and import each row', async () => {
+      repository.insertMany.mockImplementation(async (docs) =>
+        docs.map(() => ({ record: mockRecord as any })),
+      );
+      const csv = [
+        'Artist Name,album,Price (EUR),qty,format,category,tags,notes',
+        'The Beatles,Abbey Road,25,10,Vinyl,Rock,"limited, 180g",first press',
+        'The Beatles,Let It Be,abc,10,Vinyl,Rock,',
+      ].join('\n');
+
+      const result = await service.importRecords(csv, 'csv', {
+        mapping: { 'Artist Name': 'artist', 'Price (EUR)': 'price' },
+      });
+
+      expect(repository.insertMany).toHaveBeenCalledWith([
+        {
+          artist: 'The Beatles',
+          album: 'Abbey Road',
+          price: 25,
+          qty: 10,
+          stock: [{ location: 'shop-floor', qty: 10 }],
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+          tags: ['limited', '180g'],
+          mbid: undefined,
+          tracklist: [],
+          titleId,
+        },
+      ]);
+      expect(result.results[1]).toMatchObject({ index: 1, status: 'invalid' });
+    });
+
+    it('should report unparsable NDJSON lines', async () => {
+      repository.insertMany.mockResolvedValue([{ record: mockRecord as any }]);
+      const ndjson = [
+        JSON.stringify({
+          artist: 'The Beatles',
+          album: 'Abbey Road',
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        }),
+        '{not json',
+      ].join('\n');
+
+      const result = await service.importRecords(ndjson, 'ndjson');
+
+      expect(result.results).toEqual([
+        { index: 0, status: 'created', id: mockRecord._id },
+        { index: 1, status: 'invalid', errors: ['Line is not valid JSON'] },
+      ]);
+    });
+
+    it('should only check for duplicates on a dry run', async () => {
+      const mbid = 'b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d';
+      repository.findExistingIdentities.mockResolvedValue([
+        {
+          artist: 'The Beatles',
+          album: 'Abbey Road',
+          format: RecordFormat.VINYL,
+        },
+      ]);
+      const csv = [
+        'artist,album,price,qty,format,category,mbid',
+        `the beatles,ABBEY ROAD,25,10,Vinyl,Rock,${mbid}`,
+        'Björk,Homogenic,25,10,CD,Alternative,',
+        'Bjork,homogenic,20,5,CD,Alternative,',
+      ].join('\n');
+
+      const result = await service.importRecords(csv, 'csv', {
+        dryRun: true,
+      });
+
+      expect(repository.insertMany).not.toHaveBeenCalled();
+      expect(releaseService.getRelease).not.toHaveBeenCalled();
+      expect(result.results.map((r) => r.status)).toEqual([
+        'duplicate',
+        'valid',
+        'duplicate',
+      ]);
+    });
+
+    it('should treat copies in another condition as different records', async () => {
+      repository.findExistingIdentities.mockResolvedValue([
+        {
+          artist: 'The Beatles',
+          album: 'Abbey Road',
+          format: RecordFormat.VINYL,
+          mediaCondition: RecordCondition.MINT,
+          sleeveCondition: RecordCondition.MINT,
+        },
+      ]);
+      const csv = [
+        'artist,album,price,qty,format,mediaCondition,sleeveCondition,category',
+        'The Beatles,Abbey Road,25,10,Vinyl,,,Rock',
+        'The Beatles,Abbey Road,12,1,Vinyl,VG+,VG,Rock',
+        'The Beatles,Abbey Road,12,1,Vinyl,VG+,VG,Rock',
+        'The Beatles,Abbey Road,12,1,Vinyl,VG-,VG,Rock',
+      ].join('\n');
+
+      const result = await service.importRecords(csv, 'csv', {
+        dryRun: true,
+      });
+
+      expect(result.results).toEqual([
+        {
+          index: 0,
+          status: 'duplicate',
+          errors: [expect.stringContaining('condition M/M')],
+        },
+        { index: 1, status: 'valid' },
+        {
+          index: 2,
+          status: 'duplicate',
+          errors: [expect.stringContaining('condition VG+/VG')],
+        },
+        {
+          index: 3,
+          status: 'invalid',
+          errors: [expect.stringContaining('mediaCondition must be')],
+        },
+      ]);
+    });
+
+    it('should reject a mapping onto a field that cannot be imported', async () => {
+      await expect(
+        service.importRecords('a\n1', 'csv', {
+          mapping: { a: 'tracklist' as any },
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a file without records', async () => {
+      await expect(
+        service.importRecords('artist,album\n', 'csv'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('exportRecords', () => {
+    async function* records() {
+      yield {
+        ...mockRecord,
+        album: 'Abbey Road, Remastered',
+        currency: 'EUR',
+        mediaCondition: RecordCondition.VERY_GOOD_PLUS,
+        sleeveCondition: RecordCondition.VERY_GOOD,
+        genres: [RecordCategory.ROCK, RecordCategory.POP],
+        tags: ['=180g'],
+      };
+    }
+
+    const read = async (stream: NodeJS.ReadableStream) => {
+      let output = '';
+      for await (const chunk of stream) output += chunk;
+      return output;
+    };
+
+    it('should stream a CSV header and one line per record', async () => {
+      repository.streamAll.mockReturnValue(records());
+
+      const output = await read(
+        service.exportRecords({ category: RecordCategory.ROCK }, 'csv'),
+      );
+
+      expect(repository.streamAll).toHaveBeenCalledWith({
+        category: RecordCategory.ROCK,
+      });
+      expect(output.split('\n')).toEqual([
+        '_id,artist,album,price,currency,qty,format,mediaCondition,sleeveCondition,category,genres,tags,mbid,createdAt,updatedAt',
+        `507f1f77bcf86cd799439011,The Beatles,"Abbey Road, Remastered",25,EUR,10,Vinyl,VG+,VG,Rock,"Rock,Pop",'=180g,,,`,
+        '',
+      ]);
+    });
+
+    it('should stream one JSON object per line for NDJSON', async () => {
+      repository.streamAll.mockReturnValue(records());
+
+      const output = await read(service.exportRecords({}, 'ndjson'));
+
+      expect(JSON.parse(output.trim())).toMatchObject({
+        artist: 'The Beatles',
+        album: 'Abbey Road, Remastered',
+      });
+    });
+
+    it('should validate the filter before streaming', () => {
+      expect(() =>
+        service.exportRecords({ minPrice: 5, maxPrice: 1 }, 'csv'),
+      ).toThrow(BadRequestException);
+    });
+  });
+
   describe('findAll', () => {
     const mockRecord = {
       _id: '507f1f77bcf86cd799439011',
@@ -179,9 +696,9 @@ describe('RecordService', () => {
     } as any;
 
     beforeEach(() => {
-      cacheKey = `records:${JSON.stringify({})}`;
+      cacheKey = `records:list:gen-1:${JSON.stringify({})}`;
       cachedResult = { data: [mockRecord], total: 1, limit: 20, offset: 0 };
-      (cacheManager as jest.Mocked<Cache>).get.mockResolvedValue(cachedResult);
+      mockCacheEntries({ [cacheKey]: cachedResult });
       (cacheManager as jest.Mocked<Cache>).set.mockResolvedValue(undefined);
     });
 
@@ -196,7 +713,7 @@ describe('RecordService', () => {
 
     it('should pass filters to repository', async () => {
       const filter = { artist: 'Beatles', category: RecordCategory.ROCK };
-      const cacheKey = `records:${JSON.stringify(filter)}`;
+      const cacheKey = `records:list:gen-1:${JSON.stringify(filter)}`;
       await service.findAll(filter);
 
       expect((cacheManager as jest.Mocked<Cache>).get).toHaveBeenCalledWith(
@@ -206,10 +723,9 @@ describe('RecordService', () => {
 
     it('should cache results', async () => {
       const filter = { artist: 'Pink Floyd', category: RecordCategory.ROCK };
-      const cacheKey = `records:${JSON.stringify(filter)}`;
-      const cachedResult = null as any;
+      const cacheKey = `records:list:gen-1:${JSON.stringify(filter)}`;
 
-      (cacheManager as jest.Mocked<Cache>).get.mockResolvedValue(cachedResult);
+      mockCacheEntries({});
 
       repository.findAll.mockResolvedValue({
         data: [
@@ -267,181 +783,1966 @@ describe('RecordService', () => {
         offset: 0,
       });
     });
-  });
-
-  describe('findById', () => {
-    it('should return a record by id', async () => {
-      repository.findById.mockResolvedValue(mockRecord as any);
-
-      const result = await service.findById('507f1f77bcf86cd799439011');
-
-      expect(result).toEqual(mockRecord);
-    });
 
-    it('should throw NotFoundException when record not found', async () => {
-      repository.findById.mockResolvedValue(null);
+    it('should share an entry between equivalent filters', async () => {
+      await service.findAll({ limit: 20, artist: 'Beatles', q: '' } as any);
+      await service.findAll({ artist: 'Beatles', limit: '20' } as any);
 
-      await expect(service.findById('nonexistent')).rejects.toThrow(
-        NotFoundException,
+      const [[first], [second]] = cacheManager.get.mock.calls.filter(
+        ([key]) => key !== 'records:list:generation',
+      );
+      expect(first).toBe(second);
+      expect(first).toBe(
+        `records:list:gen-1:${JSON.stringify({ artist: 'Beatles', limit: '20' })}`,
       );
     });
-  });
 
-  describe('update', () => {
-    it('should update a record', async () => {
-      const updateDto = { price: 30 };
-      const updatedRecord = { ...mockRecord, price: 30 };
+    it('should start a new cache generation when there is none', async () => {
+      mockCacheEntries({}, null);
+      repository.findAll.mockResolvedValue(cachedResult as any);
 
-      repository.findById.mockResolvedValue(mockRecord as any);
-      repository.updateById.mockResolvedValue(updatedRecord as any);
+      await service.findAll({});
 
-      const result = await service.update(
-        '507f1f77bcf86cd799439011',
-        updateDto,
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        'records:list:generation',
+        expect.any(String),
+        0,
       );
-
-      expect(result.price).toBe(30);
-      expect(repository.updateById).toHaveBeenCalledWith(
-        '507f1f77bcf86cd799439011',
-        updateDto,
+      const [generation] = cacheManager.set.mock.calls[0].slice(1);
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `records:list:${generation}:{}`,
+        cachedResult,
       );
     });
 
-    it('should throw NotFoundException when record not found', async () => {
-      repository.findById.mockResolvedValue(null);
+    it('should reject an invalid cursor before hitting cache or repository', async () => {
+      await expect(service.findAll({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(cacheManager.get).not.toHaveBeenCalled();
+      expect(repository.findAll).not.toHaveBeenCalled();
+    });
 
+    it('should reject a price range where minPrice exceeds maxPrice', async () => {
       await expect(
-        service.update('nonexistent', { price: 30 }),
-      ).rejects.toThrow(NotFoundException);
+        service.findAll({ minPrice: 50, maxPrice: 10 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.findAll).not.toHaveBeenCalled();
     });
 
-    it('should fetch new tracklist when MBID changes', async () => {
-      const oldMbid = 'old-mbid-0000-0000-000000000000';
-      const newMbid = 'new-mbid-0000-0000-000000000000';
-      const existingRecord = { ...mockRecord, mbid: oldMbid };
-      const updateDto = { mbid: newMbid };
+    it('should reject sorting on a field outside the allowlist', async () => {
+      await expect(
+        service.findAll({ sort: 'price,tracklist' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.findAll).not.toHaveBeenCalled();
+    });
 
-      repository.findById.mockResolvedValue(existingRecord as any);
-      releaseService.getRelease.mockResolvedValue({
-        id: newMbid,
-        title: 'Abbey Road',
-        artist: 'The Beatles',
-        tracklist: mockTracklist,
+    it('should reject a cursor on relevance-ranked searches', async () => {
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439011',
+        values: [],
       });
-      repository.updateById.mockResolvedValue({
-        ...existingRecord,
-        mbid: newMbid,
-        tracklist: mockTracklist,
-      } as any);
 
-      await service.update('507f1f77bcf86cd799439011', updateDto);
-
-      expect(releaseService.getRelease).toHaveBeenCalledWith(newMbid);
-      expect(repository.updateById).toHaveBeenCalledWith(
-        '507f1f77bcf86cd799439011',
-        {
-          mbid: newMbid,
-          tracklist: mockTracklist,
-        },
+      await expect(service.findAll({ q: 'Beatles', cursor })).rejects.toThrow(
+        BadRequestException,
       );
     });
 
-    it('should not fetch tracklist when MBID is the same', async () => {
-      const mbid = 'same-mbid-0000-0000-000000000000';
-      const existingRecord = { ...mockRecord, mbid, tracklist: mockTracklist };
-      const updateDto = { mbid, price: 30 };
-
-      repository.findById.mockResolvedValue(existingRecord as any);
-      repository.updateById.mockResolvedValue({
-        ...existingRecord,
-        price: 30,
-      } as any);
-
-      await service.update('507f1f77bcf86cd799439011', updateDto);
+    it('should reject a cursor issued for a different sort', async () => {
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439011',
+        values: [],
+      });
 
-      expect(releaseService.getRelease).not.toHaveBeenCalled();
+      await expect(service.findAll({ sort: '-price', cursor })).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
-    it('should throw ConflictException on duplicate key during update', async () => {
-      const updateDto = { artist: 'Duplicate Artist' };
-      const duplicateError = { code: MongoErrorCode.DUPLICATE_KEY };
+    it('should list prices in the requested currency', async () => {
+      exchangeRateService.getRate.mockResolvedValue(0.8567);
+      mockCacheEntries({});
+      repository.findAll.mockResolvedValue(cachedResult as any);
 
-      repository.findById.mockResolvedValue(mockRecord as any);
-      repository.updateById.mockRejectedValue(duplicateError);
+      const result = await service.findAll({ currency: 'GBP' });
 
-      await expect(
-        service.update('507f1f77bcf86cd799439011', updateDto),
-      ).rejects.toThrow(ConflictException);
+      expect(exchangeRateService.getRate).toHaveBeenCalledWith('GBP');
+      expect(result).toEqual({
+        ...cachedResult,
+        data: [{ ...mockRecord, price: 21.42, currency: 'GBP' }],
+        currency: 'GBP',
+        exchangeRate: 0.8567,
+      });
+      // The cache holds the base-currency listing, shared by every currency
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `records:list:gen-1:{}`,
+        cachedResult,
+      );
     });
-  });
 
-  describe('delete', () => {
-    it('should delete a record', async () => {
-      repository.updateById.mockResolvedValue(mockRecord as any);
+    it('should filter on prices in the requested currency', async () => {
+      exchangeRateService.getRate.mockResolvedValue(2);
+      mockCacheEntries({});
+      repository.findAll.mockResolvedValue(cachedResult as any);
 
-      await service.delete('507f1f77bcf86cd799439011');
+      await service.findAll({ currency: 'USD', minPrice: 10, maxPrice: 20 });
 
-      expect(repository.updateById).toHaveBeenCalledWith(
-        '507f1f77bcf86cd799439011',
-        { deletedAt: expect.any(Date) },
+      // Widened by half a cent, so rounded prices on the bounds still match
+      expect(repository.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ minPrice: 4.9975, maxPrice: 10.0025 }),
       );
     });
 
-    it('should throw NotFoundException when record not found', async () => {
-      repository.findById.mockResolvedValue(null);
+    it('should reject a currency without an exchange rate', async () => {
+      exchangeRateService.getRate.mockRejectedValue(
+        new BadRequestException('No exchange rate for GBP'),
+      );
 
-      await expect(service.delete('nonexistent')).rejects.toThrow(
-        NotFoundException,
+      await expect(service.findAll({ currency: 'GBP' })).rejects.toThrow(
+        BadRequestException,
       );
+      expect(repository.findAll).not.toHaveBeenCalled();
     });
   });
 
-  describe('decrementStockIfAvailable', () => {
-    it('should decrement stock when available', async () => {
-      const updatedRecord = { ...mockRecord, qty: 5 };
-      repository.decrementStockIfAvailable.mockResolvedValue(
-        updatedRecord as any,
-      );
+  describe('findTitleGroups', () => {
+    it('should cache collapsed listings apart from plain ones', async () => {
+      const page = {
+        data: [
+          {
+            titleId,
+            artist: 'The Beatles',
+            album: 'Abbey Road',
+            variants: [mockRecord],
+          },
+        ],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      };
+      mockCacheEntries({});
+      repository.findTitleGroups.mockResolvedValue(page as any);
 
-      const result = await service.decrementStockIfAvailable(
-        '507f1f77bcf86cd799439011',
-        5,
+      const result = await service.findTitleGroups({ artist: 'Beatles' });
+
+      expect(result).toEqual(page);
+      expect(repository.findTitleGroups).toHaveBeenCalledWith({
+        artist: 'Beatles',
+      });
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        `records:list:gen-1:${JSON.stringify({ artist: 'Beatles', collapse: 'title' })}`,
+        page,
+      );
+    });
+
+    it('should list variant prices in the requested currency', async () => {
+      exchangeRateService.getRate.mockResolvedValue(162.37);
+      mockCacheEntries({});
+      repository.findTitleGroups.mockResolvedValue({
+        data: [{ titleId, variants: [mockRecord] }],
+        limit: 20,
+        offset: 0,
+      } as any);
+
+      const result = await service.findTitleGroups({ currency: 'JPY' });
+
+      expect(result.currency).toBe('JPY');
+      expect(result.data[0].variants[0]).toMatchObject({
+        price: 4059,
+        currency: 'JPY',
+      });
+    });
+
+    it('should reject a cursor', async () => {
+      const cursor = encodeRecordCursor({
+        id: '507f1f77bcf86cd799439011',
+        values: [],
+      });
+
+      await expect(service.findTitleGroups({ cursor })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(repository.findTitleGroups).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findFacets', () => {
+    const facets = { format: [{ value: RecordFormat.VINYL, count: 2 }] };
+
+    it('should query all facets by default and cache the result', async () => {
+      cacheManager.get.mockResolvedValue(undefined);
+      repository.findFacets.mockResolvedValue(facets);
+
+      const result = await service.findFacets({
+        category: RecordCategory.ROCK,
+      });
+
+      expect(result).toEqual(facets);
+      expect(repository.findFacets).toHaveBeenCalledWith(
+        { category: RecordCategory.ROCK },
+        ['format', 'category', 'price'],
+      );
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        expect.stringMatching(/^records:facets:/),
+        facets,
+      );
+    });
+
+    it('should return cached facets regardless of the facet order', async () => {
+      mockCacheEntries({
+        [`records:facets:gen-1:${JSON.stringify({ facets: ['category', 'format'] })}`]:
+          facets,
+      });
+
+      const result = await service.findFacets({}, ['format', 'category']);
+
+      expect(result).toEqual(facets);
+      expect(repository.findFacets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById', () => {
+    it('should return a record by id', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+
+      mockCacheEntries({});
+
+      const result = await service.findById('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(mockRecord);
+      expect(cacheManager.set).toHaveBeenCalledWith(recordCacheKey, mockRecord);
+    });
+
+    it('should return a cached record without hitting the repository', async () => {
+      mockCacheEntries({ [recordCacheKey]: mockRecord });
+
+      const result = await service.findById('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(mockRecord);
+      expect(repository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when record not found', async () => {
+      repository.findById.mockResolvedValue(null);
+      mockCacheEntries({});
+
+      await expect(service.findById('nonexistent')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache statistics and flushing', () => {
+    it('should count hits and misses per namespace', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      mockCacheEntries({ [recordCacheKey]: mockRecord });
+
+      await service.findById('507f1f77bcf86cd799439011');
+      await service.findById('507f1f77bcf86cd799439012');
+
+      expect(service.getCacheStats()).toEqual({
+        store: 'memory',
+        namespaces: {
+          list: { hits: 0, misses: 0, hitRate: 0 },
+          facets: { hits: 0, misses: 0, hitRate: 0 },
+          record: { hits: 1, misses: 1, hitRate: 0.5 },
+        },
+      });
+    });
+
+    it('should flush the given namespaces or all of them', async () => {
+      await service.flushCache(['record']);
+
+      expect(cacheManager.set).toHaveBeenCalledTimes(1);
+      expect(cacheManager.set).toHaveBeenCalledWith(
+        'records:record:generation',
+        expect.any(String),
+        0,
+      );
+
+      cacheManager.set.mockClear();
+      await service.flushCache();
+
+      expect(cacheManager.set).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a record', async () => {
+      const updateDto = { price: 30 };
+      const updatedRecord = { ...mockRecord, price: 30 };
+
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(updatedRecord as any);
+
+      const result = await service.update(
+        '507f1f77bcf86cd799439011',
+        updateDto,
+      );
+
+      expect(result.price).toBe(30);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        updateDto,
+        undefined,
+      );
+    });
+
+    it('should keep a new price in the schedule, after the one it replaces', async () => {
+      const createdAt = new Date('2024-01-01T00:00:00.000Z');
+      repository.findById.mockResolvedValue({
+        ...mockRecord,
+        createdAt,
+      } as any);
+      repository.updateById.mockResolvedValue({
+        ...mockRecord,
+        price: 30,
+      } as any);
+
+      await service.update('507f1f77bcf86cd799439011', { price: 30 });
+
+      expect(priceRepository.create).toHaveBeenNthCalledWith(1, {
+        recordId: mockRecord._id,
+        kind: RecordPriceKind.CHANGE,
+        source: RecordPriceSource.INITIAL,
+        price: 25,
+        startsAt: createdAt,
+        appliedAt: createdAt,
+      });
+      expect(priceRepository.create).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          kind: RecordPriceKind.CHANGE,
+          source: RecordPriceSource.UPDATE,
+          price: 30,
+        }),
+      );
+    });
+
+    it('should refuse a new price while a sale runs', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      priceRepository.findActiveSale.mockResolvedValue({
+        price: 20,
+        endsAt: new Date('2099-01-01T00:00:00.000Z'),
+      } as any);
+
+      await expect(
+        service.update('507f1f77bcf86cd799439011', { price: 30 }),
+      ).rejects.toThrow(
+        'Record with ID 507f1f77bcf86cd799439011 is on sale at 20 until 2099-01-01T00:00:00.000Z; schedule the new price with POST /records/507f1f77bcf86cd799439011/prices',
+      );
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should drop the new price when the update fails', async () => {
+      const entry = { _id: 'price-1', recordId: mockRecord._id };
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(null);
+      priceRepository.create.mockResolvedValue(entry as any);
+
+      await expect(
+        service.update('507f1f77bcf86cd799439011', { price: 30 }),
+      ).rejects.toThrow(NotFoundException);
+      expect(priceRepository.delete).toHaveBeenCalledWith(
+        String(mockRecord._id),
+        'price-1',
+      );
+    });
+
+    it('should move the record to another title when its album changes', async () => {
+      const otherTitleId = new Types.ObjectId('65f1f77bcf86cd7994390abd');
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue({
+        ...mockRecord,
+        album: 'Let It Be',
+      } as any);
+      titleService.resolveTitleId.mockResolvedValueOnce(otherTitleId);
+
+      await service.update('507f1f77bcf86cd799439011', { album: 'Let It Be' });
+
+      expect(titleService.resolveTitleId).toHaveBeenCalledWith({
+        artist: 'The Beatles',
+        album: 'Let It Be',
+      });
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { album: 'Let It Be', titleId: otherTitleId },
+        undefined,
+      );
+    });
+
+    it('should keep the title when artist and album only change in case', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+
+      await service.update('507f1f77bcf86cd799439011', {
+        artist: 'the beatles',
+      });
+
+      expect(titleService.resolveTitleId).not.toHaveBeenCalled();
+    });
+
+    it('should update only the matching version when If-Match is given', async () => {
+      const updatedRecord = { ...mockRecord, price: 30, __v: 4 };
+      repository.findById.mockResolvedValue({ ...mockRecord, __v: 3 } as any);
+      repository.updateById.mockResolvedValue(updatedRecord as any);
+
+      const result = await service.update(
+        '507f1f77bcf86cd799439011',
+        { price: 30 },
+        [3],
+      );
+
+      expect(result).toEqual(updatedRecord);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { price: 30 },
+        3,
+      );
+      expectListingsInvalidated();
+    });
+
+    it('should throw PreconditionFailedException for a stale If-Match version', async () => {
+      repository.findById.mockResolvedValue({ ...mockRecord, __v: 4 } as any);
+
+      await expect(
+        service.update('507f1f77bcf86cd799439011', { price: 30 }, [3]),
+      ).rejects.toThrow(PreconditionFailedException);
+      expect(repository.updateById).not.toHaveBeenCalled();
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+
+    it('should throw PreconditionFailedException when the record changes before the write', async () => {
+      repository.findById.mockResolvedValue({ ...mockRecord, __v: 3 } as any);
+      repository.updateById.mockResolvedValue(null);
+
+      await expect(
+        service.update('507f1f77bcf86cd799439011', { price: 30 }, [3]),
+      ).rejects.toThrow(PreconditionFailedException);
+    });
+
+    it('should record a revision with the changed fields', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue({
+        ...mockRecord,
+        price: 30,
+      } as any);
+
+      await service.update('507f1f77bcf86cd799439011', {
+        price: 30,
+        qty: 10,
+      });
+
+      expect(revisionRepository.create).toHaveBeenCalledWith({
+        recordId: expect.anything(),
+        source: RecordRevisionSource.UPDATE,
+        changes: [{ field: 'price', before: 25, after: 30 }],
+        revertedRevisionId: undefined,
+      });
+      expect(String(revisionRepository.create.mock.calls[0][0].recordId)).toBe(
+        '507f1f77bcf86cd799439011',
+      );
+    });
+
+    it('should not record a revision when nothing changed', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+
+      await service.update('507f1f77bcf86cd799439011', { price: 25 });
+
+      expect(revisionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should still return the update when the revision cannot be written', async () => {
+      const updatedRecord = { ...mockRecord, price: 30 };
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(updatedRecord as any);
+      revisionRepository.create.mockRejectedValue(new Error('Write failed'));
+
+      const result = await service.update('507f1f77bcf86cd799439011', {
+        price: 30,
+      });
+
+      expect(result).toEqual(updatedRecord);
+    });
+
+    it('should throw NotFoundException when record not found', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.update('nonexistent', { price: 30 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should fetch new tracklist when MBID changes', async () => {
+      const oldMbid = 'old-mbid-0000-0000-000000000000';
+      const newMbid = 'new-mbid-0000-0000-000000000000';
+      const existingRecord = { ...mockRecord, mbid: oldMbid };
+      const updateDto = { mbid: newMbid };
+
+      repository.findById.mockResolvedValue(existingRecord as any);
+      releaseService.getRelease.mockResolvedValue({
+        id: newMbid,
+        title: 'Abbey Road',
+        artist: 'The Beatles',
+        tracklist: mockTracklist,
+      });
+      repository.updateById.mockResolvedValue({
+        ...existingRecord,
+        mbid: newMbid,
+        tracklist: mockTracklist,
+      } as any);
+
+      await service.update('507f1f77bcf86cd799439011', updateDto);
+
+      expect(releaseService.getRelease).toHaveBeenCalledWith(newMbid);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        {
+          mbid: newMbid,
+          tracklist: mockTracklist,
+        },
+        undefined,
+      );
+    });
+
+    it('should not fetch tracklist when MBID is the same', async () => {
+      const mbid = 'same-mbid-0000-0000-000000000000';
+      const existingRecord = { ...mockRecord, mbid, tracklist: mockTracklist };
+      const updateDto = { mbid, price: 30 };
+
+      repository.findById.mockResolvedValue(existingRecord as any);
+      repository.updateById.mockResolvedValue({
+        ...existingRecord,
+        price: 30,
+      } as any);
+
+      await service.update('507f1f77bcf86cd799439011', updateDto);
+
+      expect(releaseService.getRelease).not.toHaveBeenCalled();
+    });
+
+    it('should keep the category among the genres and normalize tags', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockRecord,
+        genres: [RecordCategory.ROCK, RecordCategory.INDIE],
+        tags: [],
+      } as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+
+      await service.update('507f1f77bcf86cd799439011', {
+        category: RecordCategory.ALTERNATIVE,
+        tags: ['Limited', 'limited ', '180g'],
+      });
+
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        {
+          category: RecordCategory.ALTERNATIVE,
+          genres: [
+            RecordCategory.ALTERNATIVE,
+            RecordCategory.ROCK,
+            RecordCategory.INDIE,
+          ],
+          tags: ['limited', '180g'],
+        },
+        undefined,
+      );
+    });
+
+    it('should record genre changes in the revision', async () => {
+      const existingRecord = { ...mockRecord, genres: [RecordCategory.ROCK] };
+      repository.findById.mockResolvedValue(existingRecord as any);
+      repository.updateById.mockResolvedValue({
+        ...existingRecord,
+        genres: [RecordCategory.ROCK, RecordCategory.POP],
+      } as any);
+
+      await service.update('507f1f77bcf86cd799439011', {
+        genres: [RecordCategory.POP],
+      });
+
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          changes: [
+            {
+              field: 'genres',
+              before: [RecordCategory.ROCK],
+              after: [RecordCategory.ROCK, RecordCategory.POP],
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should throw ConflictException on duplicate key during update', async () => {
+      const updateDto = { artist: 'Duplicate Artist' };
+      const duplicateError = { code: MongoErrorCode.DUPLICATE_KEY };
+
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockRejectedValue(duplicateError);
+
+      await expect(
+        service.update('507f1f77bcf86cd799439011', updateDto),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('patch', () => {
+    const mbid = 'cf0d899c-bbc6-4a33-ba74-5e335284e836';
+    const existingRecord = {
+      ...mockRecord,
+      mbid,
+      tracklist: mockTracklist,
+      __v: 2,
+    };
+    const mergePatch = 'application/merge-patch+json';
+    const jsonPatch = 'application/json-patch+json';
+
+    beforeEach(() => {
+      repository.findById.mockResolvedValue(existingRecord as any);
+      repository.updateById.mockImplementation(
+        async (_id, update) => ({ ...existingRecord, ...update }) as any,
+      );
+    });
+
+    it('should apply a merge patch, clearing mbid and its tracklist', async () => {
+      const result = await service.patch(
+        '507f1f77bcf86cd799439011',
+        { price: 30, mbid: null },
+        mergePatch,
+      );
+
+      expect(result.price).toBe(30);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { price: 30, mbid: null, tracklist: [] },
+        2,
+      );
+      expect(releaseService.getRelease).not.toHaveBeenCalled();
+    });
+
+    it('should apply a JSON Patch whose test operations pass', async () => {
+      await service.patch(
+        '507f1f77bcf86cd799439011',
+        [
+          { op: 'test', path: '/price', value: existingRecord.price },
+          { op: 'add', path: '/reorderThreshold', value: 4 },
+        ],
+        `${jsonPatch}; charset=utf-8`,
+      );
+
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { reorderThreshold: 4 },
+        2,
+      );
+    });
+
+    it('should refuse to patch qty, which moves through adjustments', async () => {
+      await expect(
+        service.patch(
+          '507f1f77bcf86cd799439011',
+          { qty: existingRecord.qty },
+          mergePatch,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          message: [
+            'qty is changed through POST /records/507f1f77bcf86cd799439011/adjustments',
+          ],
+        },
+      });
+      await expect(
+        service.patch(
+          '507f1f77bcf86cd799439011',
+          [{ op: 'replace', path: '/qty', value: 8 }],
+          jsonPatch,
+        ),
+      ).rejects.toThrow('path "/qty" does not exist');
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should re-fetch the tracklist when mbid changes', async () => {
+      const newMbid = 'b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d';
+      releaseService.getRelease.mockResolvedValue({
+        id: newMbid,
+        title: 'Abbey Road',
+        artist: 'The Beatles',
+        tracklist: mockTracklist,
+      });
+
+      await service.patch(
+        '507f1f77bcf86cd799439011',
+        [{ op: 'replace', path: '/mbid', value: newMbid }],
+        jsonPatch,
+      );
+
+      expect(releaseService.getRelease).toHaveBeenCalledWith(newMbid);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { mbid: newMbid, tracklist: mockTracklist },
+        2,
+      );
+    });
+
+    it('should append a tag with a JSON Patch', async () => {
+      repository.findById.mockResolvedValue({
+        ...existingRecord,
+        tags: ['limited'],
+      } as any);
+
+      await service.patch(
+        '507f1f77bcf86cd799439011',
+        [{ op: 'add', path: '/tags/-', value: 'Staff Pick' }],
+        jsonPatch,
+      );
+
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { tags: ['limited', 'staff pick'] },
+        2,
+      );
+    });
+
+    it('should throw ConflictException when a test operation fails', async () => {
+      await expect(
+        service.patch(
+          '507f1f77bcf86cd799439011',
+          [{ op: 'test', path: '/price', value: 3 }],
+          jsonPatch,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should reject removing required fields and invalid values', async () => {
+      await expect(
+        service.patch(
+          '507f1f77bcf86cd799439011',
+          { artist: null, price: -1, tracklist: [] },
+          mergePatch,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          message: [
+            'artist cannot be removed',
+            'property tracklist should not exist',
+            'price must not be less than 0',
+          ],
+        },
+      });
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for a malformed JSON Patch', async () => {
+      await expect(
+        service.patch('507f1f77bcf86cd799439011', { op: 'replace' }, jsonPatch),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw UnsupportedMediaTypeException for other content types', async () => {
+      await expect(
+        service.patch(
+          '507f1f77bcf86cd799439011',
+          { price: 30 },
+          'application/json',
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('should not write when the patch changes nothing', async () => {
+      const result = await service.patch(
+        '507f1f77bcf86cd799439011',
+        { price: 25 },
+        mergePatch,
+      );
+
+      expect(result).toEqual(existingRecord);
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should throw PreconditionFailedException for a stale If-Match version', async () => {
+      await expect(
+        service.patch('507f1f77bcf86cd799439011', { price: 30 }, mergePatch, [
+          1,
+        ]),
+      ).rejects.toThrow(PreconditionFailedException);
+    });
+
+    it('should throw ConflictException when the record changes during the patch', async () => {
+      repository.updateById.mockResolvedValue(null);
+
+      await expect(
+        service.patch('507f1f77bcf86cd799439011', { price: 30 }, mergePatch),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete a record', async () => {
+      repository.softDeleteById.mockResolvedValue(mockRecord as any);
+
+      await service.delete('507f1f77bcf86cd799439011');
+
+      expect(repository.softDeleteById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+      );
+    });
+
+    it('should record a delete revision', async () => {
+      const deletedAt = new Date();
+      repository.softDeleteById.mockResolvedValue({
+        ...mockRecord,
+        deletedAt,
+      } as any);
+      mockCacheEntries({});
+
+      await service.delete('507f1f77bcf86cd799439011');
+
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.DELETE,
+          changes: [{ field: 'deletedAt', before: null, after: deletedAt }],
+        }),
+      );
+      expectListingsInvalidated();
+      expect(cacheManager.del).toHaveBeenCalledWith(recordCacheKey);
+    });
+
+    it('should throw NotFoundException when record not found', async () => {
+      repository.softDeleteById.mockResolvedValue(null);
+
+      await expect(service.delete('nonexistent')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findTrash', () => {
+    it('should return a page of deleted records', async () => {
+      const page = { data: [mockRecord], total: 1, limit: 20, offset: 0 };
+      repository.findTrash.mockResolvedValue(page as any);
+
+      const result = await service.findTrash(20, 0);
+
+      expect(result).toEqual(page);
+      expect(repository.findTrash).toHaveBeenCalledWith(20, 0);
+    });
+  });
+
+  describe('restore', () => {
+    const deletedRecord = { ...mockRecord, deletedAt: new Date() };
+
+    it('should restore a deleted record when its identity is free', async () => {
+      repository.findDeletedById.mockResolvedValue(deletedRecord as any);
+      repository.findExistingIdentities.mockResolvedValue([]);
+      repository.restoreById.mockResolvedValue(mockRecord as any);
+
+      const result = await service.restore('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(mockRecord);
+      expect(repository.findExistingIdentities).toHaveBeenCalledWith([
+        deletedRecord,
+      ]);
+      expect(repository.restoreById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        deletedRecord,
+      );
+      expectListingsInvalidated();
+    });
+
+    it('should throw NotFoundException when the record is not in the trash', async () => {
+      repository.findDeletedById.mockResolvedValue(null);
+
+      await expect(service.restore('nonexistent')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(repository.restoreById).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when a live record has the same identity', async () => {
+      repository.findDeletedById.mockResolvedValue(deletedRecord as any);
+      repository.findExistingIdentities.mockResolvedValue([
+        {
+          artist: 'the beatles',
+          album: 'Abbey Road',
+          format: RecordFormat.VINYL,
+        },
+      ]);
+
+      await expect(service.restore('507f1f77bcf86cd799439011')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(repository.restoreById).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the identity is taken during the restore', async () => {
+      repository.findDeletedById.mockResolvedValue(deletedRecord as any);
+      repository.findExistingIdentities.mockResolvedValue([]);
+      repository.restoreById.mockRejectedValue({
+        code: MongoErrorCode.DUPLICATE_KEY,
+      });
+
+      await expect(service.restore('507f1f77bcf86cd799439011')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('purgeTrash', () => {
+    const purgedIds = ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'];
+
+    it('should purge records deleted before the retention window', async () => {
+      repository.findDeletedBefore.mockResolvedValue(
+        purgedIds.map((_id) => ({ _id })) as any,
+      );
+      repository.purgeDeletedBefore.mockResolvedValue(2);
+
+      const result = await service.purgeTrash(
+        30,
+        new Date('2024-03-31T00:00:00.000Z'),
+      );
+
+      expect(result).toBe(2);
+      expect(repository.findDeletedBefore).toHaveBeenCalledWith(
+        new Date('2024-03-01T00:00:00.000Z'),
+      );
+      expect(repository.purgeDeletedBefore).toHaveBeenCalledWith(
+        new Date('2024-03-01T00:00:00.000Z'),
+        purgedIds,
+      );
+    });
+
+    it('should remove the revisions and price schedule of purged records', async () => {
+      repository.findDeletedBefore.mockResolvedValue(
+        purgedIds.map((_id) => ({ _id })) as any,
+      );
+      repository.purgeDeletedBefore.mockResolvedValue(2);
+
+      await service.purgeTrash(30);
+
+      expect(revisionRepository.deleteByRecordIds).toHaveBeenCalledWith(
+        purgedIds,
+      );
+      expect(priceRepository.deleteByRecordIds).toHaveBeenCalledWith(purgedIds);
+      expect(fileStorage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should leave a record restored meanwhile as it is', async () => {
+      repository.findDeletedBefore.mockResolvedValue(
+        purgedIds.map((_id) => ({
+          _id,
+          cover: { version: 'oldversion000000' },
+        })) as any,
+      );
+      repository.purgeDeletedBefore.mockResolvedValue(1);
+      repository.findExistingIds.mockResolvedValue([purgedIds[0]]);
+
+      await service.purgeTrash(30);
+
+      expect(revisionRepository.deleteByRecordIds).toHaveBeenCalledWith([
+        purgedIds[1],
+      ]);
+      expect(priceRepository.deleteByRecordIds).toHaveBeenCalledWith([
+        purgedIds[1],
+      ]);
+      expect(fileStorage.delete).not.toHaveBeenCalledWith(
+        `covers/${purgedIds[0]}/oldversion000000-full`,
+      );
+      expect(fileStorage.delete).toHaveBeenCalledWith(
+        `covers/${purgedIds[1]}/oldversion000000-full`,
+      );
+    });
+
+    it('should not purge anything when the trash holds no expired record', async () => {
+      expect(await service.purgeTrash(30)).toBe(0);
+      expect(repository.purgeDeletedBefore).not.toHaveBeenCalled();
+      expect(revisionRepository.deleteByRecordIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('covers', () => {
+    const recordId = '507f1f77bcf86cd799439011';
+    const previousCover = {
+      version: 'oldversion000000',
+      contentType: 'image/jpeg',
+      width: 600,
+      height: 600,
+      updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+    };
+
+    const createImage = (format: 'png' | 'jpeg', width = 1200, height = 900) =>
+      sharp({
+        create: { width, height, channels: 3, background: '#c0392b' },
+      })
+        .toFormat(format)
+        .toBuffer();
+
+    beforeEach(() => {
+      mockCacheEntries({});
+    });
+
+    it('should store the upload with a thumbnail and link it from the record', async () => {
+      const upload = await createImage('png');
+      repository.findCoverById.mockResolvedValue({ _id: recordId } as any);
+      repository.updateById.mockImplementation(
+        async (_id, update) => ({ ...mockRecord, ...update }) as any,
+      );
+
+      const result = await service.uploadCover(recordId, upload);
+
+      const [[, cover]] = repository.updateById.mock.calls as any;
+      expect(cover.cover).toEqual({
+        version: expect.stringMatching(/^[0-9a-f]{16}$/),
+        contentType: 'image/png',
+        width: 1200,
+        height: 900,
+        updatedAt: expect.any(Date),
+      });
+      const { version } = cover.cover;
+      expect(result.coverUrl).toBe(`/records/${recordId}/cover?v=${version}`);
+      expect(fileStorage.put).toHaveBeenCalledWith(
+        `covers/${recordId}/${version}-full`,
+        upload,
+      );
+
+      const [, thumb] = fileStorage.put.mock.calls.find(([key]) =>
+        key.endsWith('-thumb'),
+      );
+      const thumbMetadata = await sharp(thumb).metadata();
+      expect(thumbMetadata).toMatchObject({
+        format: 'png',
+        width: 300,
+        height: 225,
+      });
+      expectListingsInvalidated();
+      expect(fileStorage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should remove the files of the replaced cover', async () => {
+      repository.findCoverById.mockResolvedValue({
+        _id: recordId,
+        cover: previousCover,
+      } as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+
+      await service.uploadCover(recordId, await createImage('jpeg', 200, 200));
+
+      expect(fileStorage.delete.mock.calls).toEqual([
+        [`covers/${recordId}/oldversion000000-thumb`],
+        [`covers/${recordId}/oldversion000000-full`],
+      ]);
+    });
+
+    it('should reject files that are not JPEG or PNG images', async () => {
+      repository.findCoverById.mockResolvedValue({ _id: recordId } as any);
+      const gif = await sharp({
+        create: { width: 10, height: 10, channels: 3, background: '#000' },
+      })
+        .gif()
+        .toBuffer();
+
+      for (const upload of [Buffer.from('not an image'), gif]) {
+        await expect(service.uploadCover(recordId, upload)).rejects.toThrow(
+          BadRequestException,
+        );
+      }
+      expect(fileStorage.put).not.toHaveBeenCalled();
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown record', async () => {
+      repository.findCoverById.mockResolvedValue(null);
+
+      await expect(
+        service.uploadCover(recordId, await createImage('png')),
+      ).rejects.toThrow(NotFoundException);
+      expect(fileStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should remove the new files when the record is deleted meanwhile', async () => {
+      repository.findCoverById.mockResolvedValue({ _id: recordId } as any);
+      repository.updateById.mockResolvedValue(null);
+
+      await expect(
+        service.uploadCover(recordId, await createImage('png')),
+      ).rejects.toThrow(NotFoundException);
+      expect(fileStorage.delete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should find the cover of a record and read its files', async () => {
+      const stream = Readable.from(['image']);
+      repository.findCoverById.mockResolvedValue({
+        _id: recordId,
+        cover: previousCover,
+      } as any);
+      fileStorage.get.mockResolvedValue(stream);
+
+      const cover = await service.findCover(recordId);
+
+      expect(cover).toEqual(previousCover);
+      expect(await service.readCover(recordId, cover, 'thumb')).toBe(stream);
+      expect(fileStorage.get).toHaveBeenCalledWith(
+        `covers/${recordId}/oldversion000000-thumb`,
+      );
+    });
+
+    it('should throw NotFoundException for a record without a cover', async () => {
+      repository.findCoverById.mockResolvedValue({ _id: recordId } as any);
+
+      await expect(service.findCover(recordId)).rejects.toThrow('has no cover');
+    });
+
+    it('should throw NotFoundException when the cover file is missing', async () => {
+      fileStorage.get.mockResolvedValue(null);
+
+      await expect(
+        service.readCover(recordId, previousCover, 'full'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should remove the covers of purged records', async () => {
+      repository.findDeletedBefore.mockResolvedValue([
+        { _id: recordId, cover: previousCover },
+      ] as any);
+      repository.purgeDeletedBefore.mockResolvedValue(1);
+
+      await service.purgeTrash(30);
+
+      expect(fileStorage.delete).toHaveBeenCalledWith(
+        `covers/${recordId}/oldversion000000-full`,
+      );
+    });
+  });
+
+  describe('reassignTaxonomyValue', () => {
+    it('should move the records and flush the cache', async () => {
+      repository.findFormatClashes.mockResolvedValue([]);
+      repository.reassignTaxonomyValue.mockResolvedValue(3);
+
+      const moved = await service.reassignTaxonomyValue(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+
+      expect(moved).toBe(3);
+      expect(repository.reassignTaxonomyValue).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+      for (const scope of ['list', 'facets', 'record']) {
+        expect(cacheManager.set).toHaveBeenCalledWith(
+          `records:${scope}:generation`,
+          expect.any(String),
+          0,
+        );
+      }
+    });
+
+    it('should throw ConflictException when moved records would duplicate others', async () => {
+      repository.findFormatClashes.mockResolvedValue([
+        { artist: 'The Beatles', album: 'Abbey Road' },
+      ]);
+
+      await expect(
+        service.reassignTaxonomyValue(
+          TaxonomyKind.FORMAT,
+          '8-Track',
+          RecordFormat.VINYL,
+        ),
+      ).rejects.toThrow(
+        'Moving 8-Track records to Vinyl would duplicate: The Beatles - Abbey Road',
+      );
+      expect(repository.reassignTaxonomyValue).not.toHaveBeenCalled();
+    });
+
+    it('should not check for clashes when moving a category', async () => {
+      repository.reassignTaxonomyValue.mockResolvedValue(1);
+
+      await service.reassignTaxonomyValue(
+        TaxonomyKind.CATEGORY,
+        'Electronica',
+        'Electronic',
+      );
+
+      expect(repository.findFormatClashes).not.toHaveBeenCalled();
+    });
+  });
+
+  // The record with the given stock per location
+  const stocked = (levels: { [location: string]: number }) => ({
+    ...mockRecord,
+    qty: Object.values(levels).reduce((sum, qty) => sum + qty, 0),
+    stock: Object.entries(levels).map(([location, qty]) => ({
+      location,
+      qty,
+    })),
+  });
+
+  describe('decrementStockIfAvailable', () => {
+    it('should decrement stock when available and book the sale', async () => {
+      repository.decrementStockIfAvailable.mockResolvedValue(
+        stocked({ 'shop-floor': 2, warehouse: 3 }) as any,
+      );
+
+      const result = await service.decrementStockIfAvailable(
+        '507f1f77bcf86cd799439011',
+        5,
+        { reference: 'order-1' },
       );
 
       expect(result?.qty).toBe(5);
       expect(repository.decrementStockIfAvailable).toHaveBeenCalledWith(
         '507f1f77bcf86cd799439011',
         5,
+        'shop-floor',
+      );
+      expect(movementRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: RecordStockMovementType.SALE,
+          location: 'shop-floor',
+          quantity: -5,
+          balance: 2,
+          reference: 'order-1',
+        }),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.STOCK_DECREMENT,
+          changes: [{ field: 'qty', before: 10, after: 5 }],
+        }),
+      );
+    });
+
+    it('should return null when insufficient stock', async () => {
+      repository.decrementStockIfAvailable.mockResolvedValue(null);
+
+      const result = await service.decrementStockIfAvailable(
+        '507f1f77bcf86cd799439011',
+        100,
+      );
+
+      expect(result).toBeNull();
+      expect(movementRepository.create).not.toHaveBeenCalled();
+      expect(revisionRepository.create).not.toHaveBeenCalled();
+      expect(cacheManager.set).not.toHaveBeenCalled();
+    });
+
+    it('should put the stock back when the movement cannot be written', async () => {
+      repository.decrementStockIfAvailable.mockResolvedValue(
+        stocked({ warehouse: 5 }) as any,
+      );
+      movementRepository.create.mockRejectedValue(new Error('Write failed'));
+
+      await expect(
+        service.decrementStockIfAvailable('507f1f77bcf86cd799439011', 5, {
+          location: 'warehouse',
+        }),
+      ).rejects.toThrow('Write failed');
+      expect(repository.incrementStock).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        5,
+        'warehouse',
+      );
+      expect(revisionRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('incrementStock', () => {
+    it('should increment stock and book the return', async () => {
+      repository.incrementStock.mockResolvedValue(
+        stocked({ 'shop-floor': 15 }) as any,
+      );
+
+      const result = await service.incrementStock(
+        '507f1f77bcf86cd799439011',
+        5,
+        { reason: 'Order could not be placed' },
+      );
+
+      expect(result?.qty).toBe(15);
+      expect(repository.incrementStock).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        5,
+        'shop-floor',
+      );
+      expect(movementRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: RecordStockMovementType.RETURN,
+          quantity: 5,
+          balance: 15,
+          reason: 'Order could not be placed',
+        }),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.STOCK_INCREMENT,
+          changes: [{ field: 'qty', before: 10, after: 15 }],
+        }),
       );
+      expectListingsInvalidated();
     });
+  });
 
-    it('should return null when insufficient stock', async () => {
+  describe('adjustStock', () => {
+    const id = '507f1f77bcf86cd799439011';
+
+    beforeEach(() => {
+      repository.findById.mockResolvedValue(
+        stocked({ 'shop-floor': 10 }) as any,
+      );
+    });
+
+    it('should book a receipt and return the movement', async () => {
+      repository.incrementStock.mockResolvedValue(
+        stocked({ 'shop-floor': 10, warehouse: 6 }) as any,
+      );
+
+      const movement = await service.adjustStock(id, {
+        type: RecordStockMovementType.RECEIPT,
+        quantity: 6,
+        reason: 'Delivery',
+        reference: 'DN-1',
+        location: 'warehouse',
+      });
+
+      expect(repository.incrementStock).toHaveBeenCalledWith(
+        id,
+        6,
+        'warehouse',
+      );
+      expect(movement).toEqual(
+        expect.objectContaining({
+          type: RecordStockMovementType.RECEIPT,
+          location: 'warehouse',
+          quantity: 6,
+          balance: 6,
+          reason: 'Delivery',
+          reference: 'DN-1',
+        }),
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.STOCK_ADJUSTMENT,
+          changes: [{ field: 'qty', before: 10, after: 16 }],
+        }),
+      );
+    });
+
+    it('should take damaged units out and alert on low stock', async () => {
+      repository.decrementStockIfAvailable.mockResolvedValue(
+        stocked({ 'shop-floor': 0 }) as any,
+      );
+
+      const movement = await service.adjustStock(id, {
+        type: RecordStockMovementType.DAMAGE,
+        quantity: 10,
+        reason: 'Water damage',
+      });
+
+      expect(movement.quantity).toBe(-10);
+      expect(repository.decrementStockIfAvailable).toHaveBeenCalledWith(
+        id,
+        10,
+        'shop-floor',
+      );
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ qty: 0, threshold: 0 }),
+      );
+    });
+
+    it('should take a signed quantity for corrections', async () => {
+      repository.decrementStockIfAvailable.mockResolvedValue(
+        stocked({ 'shop-floor': 8 }) as any,
+      );
+
+      await service.adjustStock(id, {
+        type: RecordStockMovementType.CORRECTION,
+        quantity: -2,
+        reason: 'Stock count',
+      });
+
+      expect(repository.decrementStockIfAvailable).toHaveBeenCalledWith(
+        id,
+        2,
+        'shop-floor',
+      );
+    });
+
+    it('should refuse a negative quantity for other types', async () => {
+      await expect(
+        service.adjustStock(id, {
+          type: RecordStockMovementType.SHRINKAGE,
+          quantity: -2,
+          reason: 'Stock count',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.decrementStockIfAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to take out more than is in stock', async () => {
       repository.decrementStockIfAvailable.mockResolvedValue(null);
 
-      const result = await service.decrementStockIfAvailable(
+      await expect(
+        service.adjustStock(id, {
+          type: RecordStockMovementType.SHRINKAGE,
+          quantity: 11,
+          reason: 'Stock count',
+        }),
+      ).rejects.toThrow(
+        'Insufficient stock: record with ID 507f1f77bcf86cd799439011 has 10 at shop-floor',
+      );
+      expect(movementRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown record', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.adjustStock(id, {
+          type: RecordStockMovementType.RECEIPT,
+          quantity: 1,
+          reason: 'Delivery',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findStock', () => {
+    it('should list every configured location', async () => {
+      repository.findById.mockResolvedValue(
+        stocked({ warehouse: 4, 'old-shop': 1, 'shop-floor': 2 }) as any,
+      );
+
+      expect(await service.findStock('507f1f77bcf86cd799439011')).toEqual({
+        recordId: '507f1f77bcf86cd799439011',
+        qty: 7,
+        locations: [
+          { location: 'shop-floor', qty: 2 },
+          { location: 'back-room', qty: 0 },
+          { location: 'warehouse', qty: 4 },
+          { location: 'old-shop', qty: 1 },
+        ],
+      });
+    });
+
+    it('should throw NotFoundException for an unknown record', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.findStock('507f1f77bcf86cd799439011'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('transferStock', () => {
+    const id = '507f1f77bcf86cd799439011';
+    const dto = {
+      from: 'warehouse',
+      to: 'shop-floor',
+      quantity: 3,
+      reason: 'Restock',
+    };
+
+    beforeEach(() => {
+      repository.findById.mockResolvedValue(
+        stocked({ 'shop-floor': 1, warehouse: 5 }) as any,
+      );
+    });
+
+    it('should move the stock and book it out of one location into the other', async () => {
+      repository.transferStock.mockResolvedValue(
+        stocked({ 'shop-floor': 4, warehouse: 2 }) as any,
+      );
+
+      const result = await service.transferStock(id, dto);
+
+      expect(repository.transferStock).toHaveBeenCalledWith(
+        id,
+        'warehouse',
+        'shop-floor',
+        3,
+      );
+      expect(movementRepository.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          type: RecordStockMovementType.TRANSFER,
+          location: 'warehouse',
+          quantity: -3,
+          balance: 2,
+          reason: 'Restock',
+        }),
+        expect.objectContaining({
+          type: RecordStockMovementType.TRANSFER,
+          location: 'shop-floor',
+          quantity: 3,
+          balance: 4,
+          reason: 'Restock',
+        }),
+      ]);
+      expect(result.qty).toBe(6);
+      expectListingsInvalidated();
+    });
+
+    it('should refuse a transfer to the same location', async () => {
+      await expect(
+        service.transferStock(id, { ...dto, to: 'warehouse' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to move more than the location has', async () => {
+      repository.transferStock.mockResolvedValue(null);
+
+      await expect(
+        service.transferStock(id, { ...dto, quantity: 6 }),
+      ).rejects.toThrow(
+        'Insufficient stock: record with ID 507f1f77bcf86cd799439011 has 5 at warehouse',
+      );
+      expect(movementRepository.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should move the stock back when the movements cannot be written', async () => {
+      repository.transferStock.mockResolvedValue(
+        stocked({ 'shop-floor': 4, warehouse: 2 }) as any,
+      );
+      movementRepository.insertMany.mockRejectedValue(
+        new Error('Write failed'),
+      );
+
+      await expect(service.transferStock(id, dto)).rejects.toThrow(
+        'Write failed',
+      );
+      expect(repository.transferStock).toHaveBeenLastCalledWith(
+        id,
+        'shop-floor',
+        'warehouse',
+        3,
+      );
+    });
+  });
+
+  describe('findStockMovements', () => {
+    it('should page the ledger of a record', async () => {
+      const page = { data: [], total: 0, limit: 10, offset: 0 };
+      repository.findById.mockResolvedValue(mockRecord as any);
+      movementRepository.findByRecordId.mockResolvedValue(page);
+
+      const result = await service.findStockMovements(
         '507f1f77bcf86cd799439011',
-        100,
+        RecordStockMovementType.SALE,
+        10,
+        0,
       );
 
-      expect(result).toBeNull();
+      expect(result).toBe(page);
+      expect(movementRepository.findByRecordId).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        RecordStockMovementType.SALE,
+        10,
+        0,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown record', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.findStockMovements('507f1f77bcf86cd799439011'),
+      ).rejects.toThrow(NotFoundException);
     });
   });
 
-  describe('incrementStock', () => {
-    it('should increment stock', async () => {
-      const updatedRecord = { ...mockRecord, qty: 15 };
-      repository.incrementStock.mockResolvedValue(updatedRecord as any);
+  describe('findLowStock', () => {
+    it('should query by the effective thresholds and report them', async () => {
+      repository.findLowStock.mockResolvedValue({
+        data: [
+          { ...mockRecord, qty: 0 },
+          { ...mockRecord, category: RecordCategory.JAZZ, qty: 4 },
+          { ...mockRecord, reorderThreshold: 8, qty: 7 },
+        ],
+        total: 3,
+        limit: 20,
+        offset: 0,
+      } as any);
 
-      const result = await service.incrementStock(
+      const result = await service.findLowStock(20, 0);
+
+      expect(
+        result.data.map(({ qty, threshold }: any) => [qty, threshold]),
+      ).toEqual([
+        [0, 0],
+        [4, 5],
+        [7, 8],
+      ]);
+      expect(repository.findLowStock).toHaveBeenCalledWith(
+        {
+          $or: [
+            {
+              reorderThreshold: { $ne: null },
+              $expr: { $lte: ['$qty', '$reorderThreshold'] },
+            },
+            {
+              reorderThreshold: null,
+              category: RecordCategory.JAZZ,
+              qty: { $lte: 5 },
+            },
+            {
+              reorderThreshold: null,
+              category: { $nin: [RecordCategory.JAZZ] },
+              qty: { $lte: 0 },
+            },
+          ],
+        },
+        20,
+        0,
+      );
+    });
+  });
+
+  describe('alertLowStock', () => {
+    const jazzRecord = {
+      ...mockRecord,
+      _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+      category: RecordCategory.JAZZ,
+    };
+
+    it('should alert when an order reaches the category threshold', async () => {
+      await service.alertLowStock({ ...jazzRecord, qty: 4 } as any, 2);
+
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith({
+        recordId: '507f1f77bcf86cd799439011',
+        artist: 'The Beatles',
+        album: 'Abbey Road',
+        format: RecordFormat.VINYL,
+        qty: 4,
+        threshold: 5,
+        at: expect.any(Date),
+      });
+    });
+
+    it('should prefer the threshold set on the record', async () => {
+      await service.alertLowStock(
+        { ...jazzRecord, reorderThreshold: 2, qty: 4 } as any,
+        2,
+      );
+      expect(stockAlertNotifier.notify).not.toHaveBeenCalled();
+
+      await service.alertLowStock(
+        { ...jazzRecord, reorderThreshold: 2, qty: 2 } as any,
+        2,
+      );
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ qty: 2, threshold: 2 }),
+      );
+    });
+
+    it('should only alert when the threshold is crossed', async () => {
+      await service.alertLowStock({ ...jazzRecord, qty: 3 } as any, 1);
+
+      expect(stockAlertNotifier.notify).not.toHaveBeenCalled();
+    });
+
+    it('should alert on records selling out by default', async () => {
+      await service.alertLowStock({ ...mockRecord, qty: 0 } as any, 1);
+
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ qty: 0, threshold: 0 }),
+      );
+    });
+
+    it('should not throw when the notifier fails', async () => {
+      stockAlertNotifier.notify.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(
+        service.alertLowStock({ ...jazzRecord, qty: 4 } as any, 2),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findHistory', () => {
+    it('should return the revisions of a record', async () => {
+      const page = { data: [], total: 0, limit: 20, offset: 0 };
+      revisionRepository.findByRecordId.mockResolvedValue(page);
+
+      const result = await service.findHistory('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(page);
+      expect(revisionRepository.findByRecordId).toHaveBeenCalledWith(
         '507f1f77bcf86cd799439011',
-        5,
+        undefined,
+        undefined,
       );
+    });
+  });
 
-      expect(result?.qty).toBe(15);
-      expect(repository.incrementStock).toHaveBeenCalledWith(
+  describe('revert', () => {
+    const revision = {
+      _id: '65f1f77bcf86cd7994390aaa',
+      recordId: '507f1f77bcf86cd799439011',
+      source: RecordRevisionSource.UPDATE,
+      changes: [{ field: 'price', before: 20, after: 25 }],
+    };
+
+    it('should set the changed fields back to their previous values', async () => {
+      const revertedRecord = { ...mockRecord, price: 20 };
+      revisionRepository.findById.mockResolvedValue(revision as any);
+      repository.findById.mockResolvedValue(mockRecord as any);
+      repository.updateById.mockResolvedValue(revertedRecord as any);
+
+      const result = await service.revert(
         '507f1f77bcf86cd799439011',
-        5,
+        revision._id,
+      );
+
+      expect(result).toEqual(revertedRecord);
+      expect(repository.updateById).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { price: 20 },
+        undefined,
+      );
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.REVERT,
+          changes: [{ field: 'price', before: 25, after: 20 }],
+          revertedRevisionId: revision._id,
+        }),
+      );
+    });
+
+    it('should throw ConflictException when a field changed since the revision', async () => {
+      revisionRepository.findById.mockResolvedValue(revision as any);
+      repository.findById.mockResolvedValue({
+        ...mockRecord,
+        price: 40,
+      } as any);
+
+      await expect(
+        service.revert('507f1f77bcf86cd799439011', revision._id),
+      ).rejects.toThrow(ConflictException);
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown revision', async () => {
+      revisionRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.revert('507f1f77bcf86cd799439011', revision._id),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse to revert a deletion', async () => {
+      revisionRepository.findById.mockResolvedValue({
+        ...revision,
+        source: RecordRevisionSource.DELETE,
+        changes: [{ field: 'deletedAt', before: null, after: new Date() }],
+      } as any);
+
+      await expect(
+        service.revert('507f1f77bcf86cd799439011', revision._id),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('prices', () => {
+    const id = '507f1f77bcf86cd799439011';
+    const now = new Date('2025-11-01T00:00:00.000Z');
+    const later = new Date('2025-11-28T00:00:00.000Z');
+    const end = new Date('2025-12-01T00:00:00.000Z');
+
+    it('should resolve a running sale over the regular price', async () => {
+      priceRepository.findLatestChange.mockResolvedValue({ price: 30 } as any);
+
+      expect(await service.resolvePrice(mockRecord as any, now)).toBe(30);
+
+      priceRepository.findActiveSale.mockResolvedValue({ price: 20 } as any);
+
+      expect(await service.resolvePrice(mockRecord as any, now)).toBe(20);
+      expect(priceRepository.findActiveSale).toHaveBeenCalledWith(id, now);
+    });
+
+    it('should fall back to the stored price without a schedule', async () => {
+      expect(await service.resolvePrice(mockRecord as any, now)).toBe(25);
+    });
+
+    it('should list the schedule with the current price', async () => {
+      const page = { data: [], total: 0, limit: 20, offset: 0 };
+      repository.findById.mockResolvedValue(mockRecord as any);
+      priceRepository.findByRecordId.mockResolvedValue(page as any);
+      priceRepository.findActiveSale.mockResolvedValue({ price: 20 } as any);
+
+      expect(await service.findPrices(id)).toEqual({ current: 20, ...page });
+    });
+
+    it('should schedule a future sale without repricing yet', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      priceRepository.hasChanges.mockResolvedValue(true);
+
+      await service.schedulePrice(
+        id,
+        { price: 20, startsAt: later, endsAt: end },
+        now,
+      );
+
+      expect(priceRepository.findSales).toHaveBeenCalledWith(id, later, end);
+      expect(priceRepository.create).toHaveBeenCalledTimes(1);
+      expect(priceRepository.create).toHaveBeenCalledWith({
+        recordId: mockRecord._id,
+        kind: RecordPriceKind.SALE,
+        source: RecordPriceSource.SCHEDULE,
+        price: 20,
+        startsAt: later,
+        endsAt: end,
+      });
+      expect(repository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should apply a price starting now at once', async () => {
+      repository.findById.mockResolvedValue({ ...mockRecord, __v: 3 } as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+      priceRepository.findLatestChange.mockResolvedValue({ price: 30 } as any);
+
+      await service.schedulePrice(id, { price: 30 }, now);
+
+      expect(priceRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: RecordPriceKind.CHANGE,
+          startsAt: now,
+          price: 30,
+        }),
+      );
+      expect(repository.updateById).toHaveBeenCalledWith(id, { price: 30 }, 3);
+      expect(revisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: RecordRevisionSource.PRICE_SCHEDULE,
+          changes: [{ field: 'price', before: 25, after: 30 }],
+        }),
+      );
+      expect(priceRepository.markApplied).toHaveBeenCalledWith(id, now);
+      expectListingsInvalidated();
+    });
+
+    it('should reject starts in the past and ends before the start', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+
+      await expect(
+        service.schedulePrice(
+          id,
+          { price: 20, startsAt: new Date('2025-10-01') },
+          now,
+        ),
+      ).rejects.toThrow('startsAt cannot be in the past; omit it to start now');
+      await expect(
+        service.schedulePrice(
+          id,
+          { price: 20, startsAt: end, endsAt: later },
+          now,
+        ),
+      ).rejects.toThrow('endsAt must be after startsAt');
+      expect(priceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse overlapping sales', async () => {
+      repository.findById.mockResolvedValue(mockRecord as any);
+      priceRepository.findSales.mockResolvedValue([
+        { startsAt: now, endsAt: end },
+      ] as any);
+
+      await expect(
+        service.schedulePrice(
+          id,
+          { price: 20, startsAt: later, endsAt: end },
+          now,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should withdraw a price that has not started', async () => {
+      priceRepository.findById.mockResolvedValue({ startsAt: later } as any);
+
+      await service.cancelPrice(id, 'price-1', now);
+
+      expect(priceRepository.delete).toHaveBeenCalledWith(id, 'price-1');
+    });
+
+    it('should end a running sale now and reprice', async () => {
+      priceRepository.findById.mockResolvedValue({
+        kind: RecordPriceKind.SALE,
+        startsAt: new Date('2025-10-01'),
+        endsAt: end,
+      } as any);
+      repository.findById.mockResolvedValue({
+        ...mockRecord,
+        price: 20,
+      } as any);
+      repository.updateById.mockResolvedValue(mockRecord as any);
+      priceRepository.findLatestChange.mockResolvedValue({ price: 25 } as any);
+
+      await service.cancelPrice(id, 'price-1', now);
+
+      expect(priceRepository.endSale).toHaveBeenCalledWith(id, 'price-1', now);
+      expect(repository.updateById).toHaveBeenCalledWith(id, { price: 25 }, 0);
+    });
+
+    it('should refuse to cancel a price that took effect', async () => {
+      priceRepository.findById.mockResolvedValue({
+        kind: RecordPriceKind.CHANGE,
+        startsAt: new Date('2025-10-01'),
+      } as any);
+
+      await expect(service.cancelPrice(id, 'price-1', now)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(priceRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown price', async () => {
+      priceRepository.findById.mockResolvedValue(null);
+
+      await expect(service.cancelPrice(id, 'price-1', now)).rejects.toThrow(
+        NotFoundException,
       );
     });
+
+    describe('applyScheduledPrices', () => {
+      it('should store the due prices and count the repriced records', async () => {
+        const otherId = '507f1f77bcf86cd799439012';
+        priceRepository.findDueRecordIds.mockResolvedValue([
+          new Types.ObjectId(id),
+          new Types.ObjectId(otherId),
+        ]);
+        repository.findById.mockImplementation(async (recordId) =>
+          recordId === id ? (mockRecord as any) : null,
+        );
+        repository.updateById.mockResolvedValue(mockRecord as any);
+        priceRepository.findActiveSale.mockResolvedValue({ price: 20 } as any);
+
+        const repriced = await service.applyScheduledPrices(now);
+
+        expect(repriced).toBe(1);
+        expect(repository.updateById).toHaveBeenCalledWith(
+          id,
+          { price: 20 },
+          0,
+        );
+        // Trashed records are marked too; restoring applies their schedule
+        expect(priceRepository.markApplied).toHaveBeenCalledWith(id, now);
+        expect(priceRepository.markApplied).toHaveBeenCalledWith(otherId, now);
+      });
+
+      it('should leave records written meanwhile for the next run', async () => {
+        priceRepository.findDueRecordIds.mockResolvedValue([
+          new Types.ObjectId(id),
+        ]);
+        repository.findById.mockResolvedValue(mockRecord as any);
+        repository.updateById.mockResolvedValue(null);
+        priceRepository.findActiveSale.mockResolvedValue({ price: 20 } as any);
+
+        expect(await service.applyScheduledPrices(now)).toBe(0);
+        expect(priceRepository.markApplied).not.toHaveBeenCalled();
+      });
+    });
   });
 });
@@ -2,10 +2,27 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Inject,
+  Logger,
+  forwardRef,
+  PreconditionFailedException,
+  UnsupportedMediaTypeException,
 } from '@nestjs/common';
-import { Record } from './record.schema';
-import { RecordRepository, RecordFilter } from './record.repository';
+import { Types } from 'mongoose';
+import { Record, RecordSchema } from './record.schema';
+import {
+  RecordRepository,
+  RecordFilter,
+  RecordLowStockPage,
+  RecordPage,
+  RecordPriceConversion,
+  RecordTitleGroupPage,
+  RecordTrashPage,
+} from './record.repository';
+import { decodeRecordCursor } from './record.cursor';
+import { RECORD_SORT_FIELDS, parseRecordSort } from './record.sort';
+import { RECORD_FACETS, RecordFacetName, RecordFacets } from './record.facets';
 import { CreateRecordRequestDTO } from './dtos/create-record.request.dto';
 import { UpdateRecordRequestDTO } from './dtos/update-record.request.dto';
 import {
@@ -13,125 +30,1604 @@ import {
   Release,
 } from '../../integrations/releases/release.service';
 import { MongoErrorCode } from '../../common/constants/error-codes.constants';
+import {
+  RECORD_BULK_BATCH_SIZE,
+  RECORD_BULK_MAX_ROWS,
+  RECORD_IMPORT_MAX_ROWS,
+  recordIdentityKey,
+  RecordBulkResult,
+  RecordBulkRowResult,
+  RecordBulkRowStatus,
+} from './record.bulk';
+import {
+  RECORD_IMPORT_FIELDS,
+  RecordColumnMapping,
+  RecordImportParseError,
+  RecordTransferFormat,
+  parseRecordImport,
+  serializeRecord,
+  serializeRecordHeader,
+} from './record.transfer';
+import {
+  RecordRevisionPage,
+  RecordRevisionRepository,
+} from './record-revision.repository';
+import { RecordRevision } from './record-revision.schema';
+import {
+  RecordPricePage,
+  RecordPriceRepository,
+} from './record-price.repository';
+import { RecordPrice } from './record-price.schema';
+import {
+  RecordPriceKind,
+  RecordPriceSource,
+  resolveRecordPrice,
+} from './record.price';
+import { ScheduleRecordPriceRequestDTO } from './dtos/schedule-record-price.request.dto';
+import {
+  RecordRevisionChange,
+  RecordRevisionSource,
+  diffRecordRevision,
+  isSameRevisionValue,
+} from './record.revision';
+import { recordVersion } from './record.etag';
+import {
+  RECORD_CACHE_SCOPES,
+  RecordCacheScope,
+  RecordCacheStats,
+  buildRecordCacheKey,
+  newRecordCacheGeneration,
+  recordCacheGenerationKey,
+} from './record.cache';
+import {
+  RECORD_MERGE_PATCH_TYPE,
+  RECORD_PATCH_TYPES,
+  parseRecordPatchType,
+  toPatchableRecord,
+} from './record.patch';
+import {
+  JsonPatchError,
+  JsonPatchTestFailedError,
+  applyJsonPatch,
+  applyMergePatch,
+} from '../../common/utils/json-patch.util';
+import { Readable } from 'stream';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
+import { AppConfig } from '../../app.config';
+import { TitleService } from '../title/title.service';
+import { normalizeText } from '../../common/utils/normalize-text.util';
+import { normalizeRecordTags, withPrimaryGenre } from './record.genres';
+import { TaxonomyKind } from '../taxonomy/taxonomy.enum';
+import { RECORD_DEFAULT_CONDITION } from './record.condition';
+import {
+  RECORD_COVER_SIZES,
+  RecordCover,
+  RecordCoverSize,
+  buildRecordCoverKey,
+  buildRecordCoverUrl,
+  processRecordCover,
+} from './record.cover';
+import {
+  FILE_STORAGE,
+  FileStorage,
+} from '../../integrations/storage/file-storage';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { convertRecordPrice, toBasePriceFilter } from './record.currency';
+import {
+  RECORD_DEFAULT_STOCK_LOCATION,
+  RecordStockBreakdown,
+  RecordStockMovementNote,
+  RecordStockMovementType,
+  RecordStockThresholds,
+  buildLowStockQuery,
+  buildStockBreakdown,
+  crossedReorderThreshold,
+  recordReorderThreshold,
+  stockAt,
+  stockMovementDelta,
+  withReorderThreshold,
+} from './record.stock';
+import {
+  RecordStockMovementPage,
+  RecordStockMovementRepository,
+} from './record-stock-movement.repository';
+import { RecordStockMovement } from './record-stock-movement.schema';
+import { CreateStockAdjustmentRequestDTO } from './dtos/create-stock-adjustment.request.dto';
+import { TransferStockRequestDTO } from './dtos/transfer-stock.request.dto';
+import { TaxonomyService } from '../taxonomy/taxonomy.service';
+import {
+  STOCK_ALERT_NOTIFIER,
+  StockAlertNotifier,
+} from '../../integrations/notifications/stock-alert-notifier';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Fields of the unique index, as named in duplicate errors
+type RecordIdentity = Pick<
+  Partial<Record>,
+  'artist' | 'album' | 'format' | 'mediaCondition' | 'sleeveCondition'
+>;
 
 @Injectable()
 export class RecordService {
+  private readonly logger = new Logger(RecordService.name);
+  // Per instance: with a shared store each API instance counts its own lookups
+  private readonly cacheCounters = Object.fromEntries(
+    RECORD_CACHE_SCOPES.map((scope) => [scope, { hits: 0, misses: 0 }]),
+  ) as { [scope in RecordCacheScope]: { hits: number; misses: number } };
+
   constructor(
     private readonly recordRepository: RecordRepository,
+    private readonly recordRevisionRepository: RecordRevisionRepository,
+    private readonly recordPriceRepository: RecordPriceRepository,
+    private readonly recordStockMovementRepository: RecordStockMovementRepository,
     private readonly releaseService: ReleaseService,
+    private readonly titleService: TitleService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    @Inject(FILE_STORAGE) private readonly fileStorage: FileStorage,
+    private readonly exchangeRateService: ExchangeRateService,
+    // The taxonomy module needs this service too (renames, usage counts)
+    @Inject(forwardRef(() => TaxonomyService))
+    private readonly taxonomyService: TaxonomyService,
+    @Inject(STOCK_ALERT_NOTIFIER)
+    private readonly stockAlertNotifier: StockAlertNotifier,
   ) {}
 
   async create(dto: CreateRecordRequestDTO): Promise<Record> {
     const tracklist = await this.fetchTracklistIfMbidProvided(dto.mbid);
+    const titleId = await this.titleService.resolveTitleId(dto);
 
+    let record: Record;
     try {
-      return await this.recordRepository.create({
+      record = await this.recordRepository.create({
         artist: dto.artist,
         album: dto.album,
         price: dto.price,
         qty: dto.qty,
+        stock: [{ location: RECORD_DEFAULT_STOCK_LOCATION, qty: dto.qty }],
+        reorderThreshold: dto.reorderThreshold,
         format: dto.format,
         category: dto.category,
+        genres: dto.genres,
+        tags: dto.tags,
+        mediaCondition: dto.mediaCondition,
+        sleeveCondition: dto.sleeveCondition,
         mbid: dto.mbid,
         tracklist,
+        titleId,
       });
     } catch (error) {
-      this.handleDuplicateKeyError(error, dto.artist, dto.album, dto.format);
+      this.handleDuplicateKeyError(error, dto);
       throw error;
     }
+
+    await this.recordOpeningStock([record]);
+    await this.invalidateCache();
+    return record;
   }
 
-  async findAll(
-    filter: RecordFilter,
-  ): Promise<{ data: Record[]; total: number; limit: number; offset: number }> {
-    const cacheKey = this.buildCacheKey(filter);
+  /**
+   * Imports many records at once, reporting an outcome per row instead of
+   * failing the whole request on the first bad one.
+   */
+  async bulkCreate(rows: unknown[]): Promise<RecordBulkResult> {
+    if (!Array.isArray(rows) || !rows.length) {
+      throw new BadRequestException('Expected a non-empty array of records');
+    }
+    if (rows.length > RECORD_BULK_MAX_ROWS) {
+      throw new BadRequestException(
+        `A bulk import accepts at most ${RECORD_BULK_MAX_ROWS} records`,
+      );
+    }
 
-    const cached = await this.cacheManager.get(cacheKey);
-    if (cached) {
-      return cached as {
-        data: Record[];
-        total: number;
-        limit: number;
-        offset: number;
-      };
+    return this.processBulkRows(rows, false);
+  }
+
+  /**
+   * Imports a CSV or NDJSON file through the same per-row pipeline as
+   * bulkCreate. A dry run validates and checks for duplicates without
+   * looking up MusicBrainz or writing anything.
+   */
+  async importRecords(
+    content: string,
+    format: RecordTransferFormat,
+    options: { dryRun?: boolean; mapping?: RecordColumnMapping } = {},
+  ): Promise<RecordBulkResult> {
+    const invalidField = Object.values(options.mapping ?? {}).find(
+      (field) => !RECORD_IMPORT_FIELDS.includes(field),
+    );
+    if (invalidField !== undefined) {
+      throw new BadRequestException(
+        `Cannot map a column to "${invalidField}". Importable fields: ${RECORD_IMPORT_FIELDS.join(', ')}`,
+      );
     }
 
-    const result = await this.recordRepository.findAll(filter);
+    const rows = parseRecordImport(content, format, options.mapping);
+    if (!rows.length) {
+      throw new BadRequestException('The import file contains no records');
+    }
+    if (rows.length > RECORD_IMPORT_MAX_ROWS) {
+      throw new BadRequestException(
+        `An import file may contain at most ${RECORD_IMPORT_MAX_ROWS} records`,
+      );
+    }
+
+    return this.processBulkRows(rows, options.dryRun ?? false);
+  }
 
-    await this.cacheManager.set(cacheKey, result);
+  /**
+   * Streams every record matching the filter (no page size cap), so large
+   * catalogs are never held in memory.
+   */
+  exportRecords(filter: RecordFilter, format: RecordTransferFormat): Readable {
+    this.validateFilter(filter);
 
-    return result;
+    const records = this.recordRepository.streamAll(filter);
+    return Readable.from(this.serializeExport(records, format));
+  }
+
+  /**
+   * With a `currency`, prices (and the minPrice/maxPrice bounds) are in that
+   * currency; the cached listing itself is always in the base currency.
+   */
+  async findAll(filter: RecordFilter): Promise<RecordPage> {
+    this.validateFilter(filter);
+    this.validatePagination(filter);
+
+    const conversion = await this.priceConversion(filter.currency);
+    const query = conversion ? toBasePriceFilter(filter, conversion) : filter;
+    const page = await this.cached('list', query, () =>
+      this.recordRepository.findAll(query),
+    );
+    if (!conversion) return page;
+
+    return {
+      ...page,
+      data: page.data.map((record) => convertRecordPrice(record, conversion)),
+      ...conversion,
+    };
+  }
+
+  async findTitleGroups(filter: RecordFilter): Promise<RecordTitleGroupPage> {
+    this.validateFilter(filter);
+    this.validatePagination(filter);
+    if (filter.cursor) {
+      throw new BadRequestException(
+        'Results collapsed by title page with offset; cursor is not supported',
+      );
+    }
+
+    const conversion = await this.priceConversion(filter.currency);
+    const query = conversion ? toBasePriceFilter(filter, conversion) : filter;
+    const page = await this.cached(
+      'list',
+      { ...query, collapse: 'title' },
+      () => this.recordRepository.findTitleGroups(query),
+    );
+    if (!conversion) return page;
+
+    return {
+      ...page,
+      data: page.data.map((group) => ({
+        ...group,
+        variants: group.variants.map((record) =>
+          convertRecordPrice(record, conversion),
+        ),
+      })),
+      ...conversion,
+    };
+  }
+
+  async findFacets(
+    filter: RecordFilter,
+    facets: RecordFacetName[] = [...RECORD_FACETS],
+  ): Promise<RecordFacets> {
+    this.validateFilter(filter);
+
+    // Facet order does not change the result
+    const params = { ...filter, facets: [...facets].sort() };
+    return await this.cached('facets', params, () =>
+      this.recordRepository.findFacets(filter, facets),
+    );
   }
 
   async findById(id: string): Promise<Record> {
-    const record = await this.recordRepository.findById(id);
+    const record = await this.cached('record', { id }, () =>
+      this.recordRepository.findById(id),
+    );
     if (!record) {
       throw new NotFoundException(`Record with ID ${id} not found`);
     }
     return record;
   }
 
-  async update(id: string, dto: UpdateRecordRequestDTO): Promise<Record> {
+  /**
+   * @param ifMatch versions the client accepts (from If-Match); when given,
+   * the update is refused if the record has moved on to another version.
+   */
+  async update(
+    id: string,
+    dto: UpdateRecordRequestDTO,
+    ifMatch?: number[] | null,
+  ): Promise<Record> {
     const existingRecord = await this.recordRepository.findById(id);
     if (!existingRecord) {
       throw new NotFoundException(`Record with ID ${id} not found`);
     }
 
-    const updateData: Partial<Record> = { ...dto };
-    const isMbidChanged = dto.mbid && dto.mbid !== existingRecord.mbid;
+    const version = this.checkIfMatch(existingRecord, ifMatch);
 
-    if (isMbidChanged) {
-      updateData.tracklist = await this.fetchTracklistIfMbidProvided(dto.mbid);
+    return await this.applyUpdate(
+      existingRecord,
+      { ...dto },
+      RecordRevisionSource.UPDATE,
+      undefined,
+      ifMatch ? version : undefined,
+    );
+  }
+
+  /**
+   * Applies a JSON Merge Patch or JSON Patch (per the Content-Type) to the
+   * record's editable fields. Unlike update, fields can be removed (e.g.
+   * mbid, which also clears the tracklist), and JSON Patch `test` operations
+   * make the change conditional on the current values.
+   */
+  async patch(
+    id: string,
+    patch: unknown,
+    contentType: string | undefined,
+    ifMatch?: number[] | null,
+  ): Promise<Record> {
+    const patchType = parseRecordPatchType(contentType);
+    if (!patchType) {
+      throw new UnsupportedMediaTypeException(
+        `PATCH requires Content-Type ${RECORD_PATCH_TYPES.join(' or ')}`,
+      );
     }
 
+    const existingRecord = await this.recordRepository.findById(id);
+    if (!existingRecord) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+    const version = this.checkIfMatch(existingRecord, ifMatch);
+
+    const current = toPatchableRecord(existingRecord);
+    let patched: unknown;
     try {
-      const updatedRecord = await this.recordRepository.updateById(
+      patched =
+        patchType === RECORD_MERGE_PATCH_TYPE
+          ? applyMergePatch(current, patch)
+          : applyJsonPatch(current, patch);
+    } catch (error) {
+      if (error instanceof JsonPatchTestFailedError) {
+        throw new ConflictException(error.message);
+      }
+      if (error instanceof JsonPatchError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const changes = await this.validatePatchChanges(id, current, patched);
+    if (!Object.keys(changes).length) return existingRecord;
+
+    // The patch was computed (and tested) against this version, so the write
+    // is always conditional on it
+    try {
+      return await this.applyUpdate(
+        existingRecord,
+        changes,
+        RecordRevisionSource.UPDATE,
+        undefined,
+        version,
+      );
+    } catch (error) {
+      if (!ifMatch && error instanceof PreconditionFailedException) {
+        throw new ConflictException(
+          `Record with ID ${id} was modified while being patched, please retry`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const record = await this.recordRepository.softDeleteById(id);
+
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    await this.invalidateCache(id);
+    await this.recordRevision(id, RecordRevisionSource.DELETE, [
+      { field: 'deletedAt', before: null, after: record.deletedAt },
+    ]);
+  }
+
+  async findTrash(limit?: number, offset?: number): Promise<RecordTrashPage> {
+    return await this.recordRepository.findTrash(limit, offset);
+  }
+
+  async restore(id: string): Promise<Record> {
+    const record = await this.recordRepository.findDeletedById(id);
+    if (!record) {
+      throw new NotFoundException(`Deleted record with ID ${id} not found`);
+    }
+
+    // Deleting released the identity, so a live record may have taken it since
+    const [existing] = await this.recordRepository.findExistingIdentities([
+      record,
+    ]);
+    if (existing) {
+      throw new ConflictException(this.duplicateMessage(record));
+    }
+
+    try {
+      const restoredRecord = await this.recordRepository.restoreById(
         id,
-        updateData,
+        record,
       );
-      if (!updatedRecord) {
-        throw new NotFoundException(`Failed to update record with ID ${id}`);
+      if (!restoredRecord) {
+        throw new NotFoundException(`Failed to restore record with ID ${id}`);
       }
-      return updatedRecord;
+
+      await this.invalidateCache(id);
+      await this.recordRevision(id, RecordRevisionSource.RESTORE, [
+        { field: 'deletedAt', before: record.deletedAt, after: null },
+      ]);
+      // Scheduled prices were not applied while it was in the trash
+      return (await this.applyRecordPrice(id, new Date())) ?? restoredRecord;
     } catch (error) {
-      this.handleDuplicateKeyError(
-        error,
-        dto.artist ?? existingRecord.artist,
-        dto.album ?? existingRecord.album,
-        dto.format ?? existingRecord.format,
-      );
+      this.handleDuplicateKeyError(error, record);
       throw error;
     }
   }
 
-  async delete(id: string): Promise<void> {
+  /**
+   * Permanently removes records that have been in the trash for longer than
+   * the retention window, with their revisions and price schedule. Their
+   * stock movements stay: the ledger is append-only, and orders keep
+   * referring to purged records too. Returns how many were removed.
+   */
+  async purgeTrash(
+    retentionDays = AppConfig.recordTrashRetentionDays,
+    now = new Date(),
+  ): Promise<number> {
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_IN_MS);
+    const records = await this.recordRepository.findDeletedBefore(cutoff);
+    if (!records.length) return 0;
+
+    // Only trashed records go, and listings never include those. Records
+    // trashed meanwhile wait for the next purge
+    const recordIds = records.map(({ _id }) => String(_id));
+    const purged = await this.recordRepository.purgeDeletedBefore(
+      cutoff,
+      recordIds,
+    );
+
+    // A record restored meanwhile was not removed and keeps what it has
+    const kept = new Set(
+      await this.recordRepository.findExistingIds(recordIds),
+    );
+    const removed = records.filter(({ _id }) => !kept.has(String(_id)));
+    const removedIds = removed.map(({ _id }) => String(_id));
+    if (removedIds.length) {
+      await this.recordRevisionRepository.deleteByRecordIds(removedIds);
+      await this.recordPriceRepository.deleteByRecordIds(removedIds);
+    }
+    for (const record of removed.filter(({ cover }) => cover)) {
+      await this.deleteCoverFiles(String(record._id), record.cover.version);
+    }
+    return purged;
+  }
+
+  /**
+   * Stores a JPEG or PNG upload and its thumbnail as the record's cover. The
+   * files of the cover it replaces are removed once the record points at the
+   * new one. Covers are not part of the revision history.
+   */
+  async uploadCover(id: string, data: Buffer): Promise<Record> {
+    const existingRecord = await this.recordRepository.findCoverById(id);
+    if (!existingRecord) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const images = await processRecordCover(data);
+    if (!images) {
+      throw new BadRequestException('The cover must be a JPEG or PNG image');
+    }
+    const { version } = images.cover;
+    await Promise.all(
+      RECORD_COVER_SIZES.map((size) =>
+        this.fileStorage.put(
+          buildRecordCoverKey(id, version, size),
+          images[size],
+        ),
+      ),
+    );
+
     const record = await this.recordRepository.updateById(id, {
-      deletedAt: new Date(),
+      cover: { ...images.cover, updatedAt: new Date() },
+      coverUrl: buildRecordCoverUrl(id, version),
     });
+    if (!record) {
+      // Deleted while the files were written
+      await this.deleteCoverFiles(id, version);
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
 
+    await this.invalidateCache(id);
+    const previousVersion = existingRecord.cover?.version;
+    if (previousVersion && previousVersion !== version) {
+      await this.deleteCoverFiles(id, previousVersion);
+    }
+    return record;
+  }
+
+  async findCover(id: string): Promise<RecordCover> {
+    const record = await this.recordRepository.findCoverById(id);
     if (!record) {
       throw new NotFoundException(`Record with ID ${id} not found`);
     }
+    if (!record.cover) {
+      throw new NotFoundException(`Record with ID ${id} has no cover`);
+    }
+    return record.cover;
+  }
+
+  async readCover(
+    id: string,
+    cover: RecordCover,
+    size: RecordCoverSize,
+  ): Promise<Readable> {
+    const stream = await this.fileStorage.get(
+      buildRecordCoverKey(id, cover.version, size),
+    );
+    if (!stream) {
+      throw new NotFoundException(`Cover of record ${id} is missing`);
+    }
+    return stream;
+  }
+
+  getCacheStats(): RecordCacheStats {
+    const namespaces = Object.fromEntries(
+      RECORD_CACHE_SCOPES.map((scope) => {
+        const { hits, misses } = this.cacheCounters[scope];
+        const lookups = hits + misses;
+        return [scope, { hits, misses, hitRate: lookups ? hits / lookups : 0 }];
+      }),
+    ) as RecordCacheStats['namespaces'];
+
+    return { store: AppConfig.cacheStore, namespaces };
+  }
+
+  /** Drops every cached entry of the given namespaces, on all instances */
+  async flushCache(
+    scopes: readonly RecordCacheScope[] = RECORD_CACHE_SCOPES,
+  ): Promise<void> {
+    await Promise.all(scopes.map((scope) => this.startCacheGeneration(scope)));
+  }
+
+  async findHistory(
+    id: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<RecordRevisionPage> {
+    return await this.recordRevisionRepository.findByRecordId(
+      id,
+      limit,
+      offset,
+    );
+  }
+
+  /**
+   * Undoes one revision by setting the fields it changed back to their
+   * previous values. Refused when any of those fields changed again since.
+   */
+  async revert(id: string, revisionId: string): Promise<Record> {
+    const revision = await this.recordRevisionRepository.findById(
+      id,
+      revisionId,
+    );
+    if (!revision) {
+      throw new NotFoundException(
+        `Revision ${revisionId} of record ${id} not found`,
+      );
+    }
+    if (revision.changes.some(({ field }) => field === 'deletedAt')) {
+      throw new BadRequestException(
+        'Deletions are undone with POST /records/:id/restore',
+      );
+    }
+
+    const existingRecord = await this.recordRepository.findById(id);
+    if (!existingRecord) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const changedSince = revision.changes
+      .filter(({ field, after }) => {
+        return !isSameRevisionValue(existingRecord[field], after);
+      })
+      .map(({ field }) => field);
+    if (changedSince.length) {
+      throw new ConflictException(
+        `Cannot revert revision ${revisionId}: ${changedSince.join(', ')} changed since`,
+      );
+    }
+
+    return await this.applyUpdate(
+      existingRecord,
+      Object.fromEntries(
+        revision.changes.map(({ field, before }) => [field, before]),
+      ),
+      RecordRevisionSource.REVERT,
+      revision,
+    );
+  }
+
+  /** The price schedule of a record, latest start first, and its price now */
+  async findPrices(
+    id: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<RecordPricePage> {
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const [page, current] = await Promise.all([
+      this.recordPriceRepository.findByRecordId(id, limit, offset),
+      this.resolvePrice(record),
+    ]);
+    return { current, ...page };
+  }
+
+  /**
+   * Schedules a regular price change, or a sale when `endsAt` is given. A
+   * price starting now is applied to the record at once, later ones by
+   * applyScheduledPrices. Sales of a record cannot overlap.
+   */
+  async schedulePrice(
+    id: string,
+    dto: ScheduleRecordPriceRequestDTO,
+    now = new Date(),
+  ): Promise<RecordPrice> {
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const startsAt = dto.startsAt ?? now;
+    if (startsAt < now) {
+      throw new BadRequestException(
+        'startsAt cannot be in the past; omit it to start now',
+      );
+    }
+    if (dto.endsAt && dto.endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+
+    if (dto.endsAt) {
+      const [sale] = await this.recordPriceRepository.findSales(
+        id,
+        startsAt,
+        dto.endsAt,
+      );
+      if (sale) {
+        throw new ConflictException(
+          `Record with ID ${id} already has a sale from ${sale.startsAt.toISOString()} to ${sale.endsAt.toISOString()}`,
+        );
+      }
+    }
+
+    await this.ensureInitialPrice(record);
+    const price = await this.recordPriceRepository.create({
+      recordId: record._id as Types.ObjectId,
+      kind: dto.endsAt ? RecordPriceKind.SALE : RecordPriceKind.CHANGE,
+      source: RecordPriceSource.SCHEDULE,
+      price: dto.price,
+      startsAt,
+      endsAt: dto.endsAt,
+    });
+
+    if (startsAt <= now) await this.applyRecordPrice(id, now);
+    return price;
+  }
+
+  /**
+   * Withdraws a price that has not started yet, or ends a running sale now.
+   * Prices that already took effect stay in the schedule.
+   */
+  async cancelPrice(
+    id: string,
+    priceId: string,
+    now = new Date(),
+  ): Promise<void> {
+    const price = await this.recordPriceRepository.findById(id, priceId);
+    if (!price) {
+      throw new NotFoundException(`Price ${priceId} of record ${id} not found`);
+    }
+
+    if (price.startsAt > now) {
+      await this.recordPriceRepository.delete(id, priceId);
+      return;
+    }
+    if (price.kind === RecordPriceKind.SALE && price.endsAt > now) {
+      await this.recordPriceRepository.endSale(id, priceId, now);
+      await this.applyRecordPrice(id, now);
+      return;
+    }
+    throw new ConflictException(
+      `Price ${priceId} of record ${id} already took effect; schedule a new price instead`,
+    );
+  }
+
+  /** What the record costs at `at` in the base currency, sales included */
+  async resolvePrice(record: Record, at = new Date()): Promise<number> {
+    const id = String(record._id);
+    const [latestChange, activeSale] = await Promise.all([
+      this.recordPriceRepository.findLatestChange(id, at),
+      this.recordPriceRepository.findActiveSale(id, at),
+    ]);
+    return resolveRecordPrice(record.price, latestChange, activeSale);
+  }
+
+  /**
+   * Stores the current price on every record with a scheduled price starting
+   * or a sale ending by now, so listings, filters and sorting catch up. Meant
+   * to run periodically; orders resolve the price themselves in between.
+   * Returns how many records were repriced.
+   */
+  async applyScheduledPrices(now = new Date()): Promise<number> {
+    const recordIds = await this.recordPriceRepository.findDueRecordIds(now);
+
+    let repriced = 0;
+    for (const recordId of recordIds) {
+      if (await this.applyRecordPrice(String(recordId), now)) repriced++;
+    }
+    return repriced;
+  }
+
+  async countByTaxonomyValue(
+    kind: TaxonomyKind,
+    value: string,
+  ): Promise<number> {
+    return await this.recordRepository.countByTaxonomyValue(kind, value);
+  }
+
+  /**
+   * Refuses moving the records using a format to another one when a moved
+   * record would duplicate one that already has the target format.
+   */
+  async checkTaxonomyReassign(
+    kind: TaxonomyKind,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    if (kind !== TaxonomyKind.FORMAT) return;
+
+    const clashes = await this.recordRepository.findFormatClashes(from, to);
+    if (clashes.length) {
+      throw new ConflictException(
+        `Moving ${from} records to ${to} would duplicate: ${clashes
+          .map(
+            ({ artist, album, mediaCondition, sleeveCondition }) =>
+              `${artist} - ${album} (${mediaCondition}/${sleeveCondition})`,
+          )
+          .join('; ')}`,
+      );
+    }
+  }
+
+  /**
+   * Moves the records using a format or category to another value of the
+   * same kind, refused as checkTaxonomyReassign does. Returns how many
+   * records were moved.
+   */
+  async reassignTaxonomyValue(
+    kind: TaxonomyKind,
+    from: string,
+    to: string,
+  ): Promise<number> {
+    await this.checkTaxonomyReassign(kind, from, to);
+
+    let moved: number;
+    try {
+      moved = await this.recordRepository.reassignTaxonomyValue(kind, from, to);
+    } catch (error) {
+      // A clashing record was written after the check
+      if (error.code === MongoErrorCode.DUPLICATE_KEY) {
+        throw new ConflictException(
+          `Moving ${from} records to ${to} stopped at a record that duplicates one written meanwhile; the rest still use ${from}`,
+        );
+      }
+      throw error;
+    }
+
+    await this.flushCache();
+    return moved;
   }
 
+  /** Takes stock for an order; null when the location has too little */
   async decrementStockIfAvailable(
     recordId: string,
     quantity: number,
+    movement: RecordStockMovementNote = {},
   ): Promise<Record | null> {
-    return await this.recordRepository.decrementStockIfAvailable(
+    const moved = await this.moveStock(
       recordId,
-      quantity,
+      -quantity,
+      { ...movement, type: RecordStockMovementType.SALE },
+      RecordRevisionSource.STOCK_DECREMENT,
     );
+    return moved?.record ?? null;
   }
 
+  /** Puts stock back, e.g. units of an order that could not be placed */
   async incrementStock(
     recordId: string,
     quantity: number,
+    movement: RecordStockMovementNote = {},
+  ): Promise<Record | null> {
+    const moved = await this.moveStock(
+      recordId,
+      quantity,
+      { ...movement, type: RecordStockMovementType.RETURN },
+      RecordRevisionSource.STOCK_INCREMENT,
+    );
+    return moved?.record ?? null;
+  }
+
+  /**
+   * Books a manual stock movement (a delivery, damage, a count that came
+   * out different) and returns the ledger entry.
+   */
+  async adjustStock(
+    id: string,
+    dto: CreateStockAdjustmentRequestDTO,
+  ): Promise<RecordStockMovement> {
+    const delta = stockMovementDelta(dto.type, dto.quantity);
+    if (delta === null) {
+      throw new BadRequestException(
+        `A ${dto.type} takes a positive quantity; use a correction to take stock out otherwise`,
+      );
+    }
+
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const location = dto.location ?? RECORD_DEFAULT_STOCK_LOCATION;
+    const moved = await this.moveStock(
+      id,
+      delta,
+      {
+        type: dto.type,
+        location,
+        reason: dto.reason,
+        reference: dto.reference,
+      },
+      RecordRevisionSource.STOCK_ADJUSTMENT,
+    );
+    if (!moved) {
+      throw new ConflictException(
+        `Insufficient stock: record with ID ${id} has ${stockAt(record, location)} at ${location}`,
+      );
+    }
+
+    if (delta < 0) await this.alertLowStock(moved.record, -delta);
+    return moved.movement;
+  }
+
+  /** A record's stock per location */
+  async findStock(id: string): Promise<RecordStockBreakdown> {
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+    return buildStockBreakdown(record);
+  }
+
+  /**
+   * Moves stock from one location to another, booked as a transfer out of
+   * one and into the other. The record's total does not change.
+   */
+  async transferStock(
+    id: string,
+    dto: TransferStockRequestDTO,
+  ): Promise<RecordStockBreakdown> {
+    if (dto.from === dto.to) {
+      throw new BadRequestException('Cannot transfer stock to where it is');
+    }
+
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    const moved = await this.recordRepository.transferStock(
+      id,
+      dto.from,
+      dto.to,
+      dto.quantity,
+    );
+    if (!moved) {
+      throw new ConflictException(
+        `Insufficient stock: record with ID ${id} has ${stockAt(record, dto.from)} at ${dto.from}`,
+      );
+    }
+
+    const movement = {
+      recordId: moved._id as Types.ObjectId,
+      type: RecordStockMovementType.TRANSFER,
+      reason: dto.reason,
+      reference: dto.reference,
+    };
+    try {
+      await this.recordStockMovementRepository.insertMany([
+        {
+          ...movement,
+          location: dto.from,
+          quantity: -dto.quantity,
+          balance: stockAt(moved, dto.from),
+        },
+        {
+          ...movement,
+          location: dto.to,
+          quantity: dto.quantity,
+          balance: stockAt(moved, dto.to),
+        },
+      ]);
+    } catch (error) {
+      await this.recordRepository.transferStock(
+        id,
+        dto.to,
+        dto.from,
+        dto.quantity,
+      );
+      throw error;
+    }
+
+    await this.invalidateCache(id);
+    return buildStockBreakdown(moved);
+  }
+
+  /** The stock ledger of a record, newest movement first */
+  async findStockMovements(
+    id: string,
+    type?: RecordStockMovementType,
+    limit?: number,
+    offset?: number,
+  ): Promise<RecordStockMovementPage> {
+    const record = await this.recordRepository.findById(id);
+    if (!record) {
+      throw new NotFoundException(`Record with ID ${id} not found`);
+    }
+
+    return await this.recordStockMovementRepository.findByRecordId(
+      id,
+      type,
+      limit,
+      offset,
+    );
+  }
+
+  /** Live records at or below their reorder threshold, lowest stock first */
+  async findLowStock(
+    limit?: number,
+    offset?: number,
+  ): Promise<RecordLowStockPage> {
+    const thresholds = await this.stockThresholds();
+    const page = await this.recordRepository.findLowStock(
+      buildLowStockQuery(thresholds),
+      limit,
+      offset,
+    );
+    return {
+      ...page,
+      data: page.data.map((record) => withReorderThreshold(record, thresholds)),
+    };
+  }
+
+  /**
+   * Sends a stock alert when taking `quantity` units (an order) brought the
+   * record down to its reorder threshold. Failures are logged, not thrown:
+   * the order is placed by then.
+   */
+  async alertLowStock(record: Record, quantity: number): Promise<void> {
+    try {
+      const threshold = recordReorderThreshold(
+        record,
+        await this.stockThresholds(),
+      );
+      if (!crossedReorderThreshold(record.qty, quantity, threshold)) return;
+
+      await this.stockAlertNotifier.notify({
+        recordId: String(record._id),
+        artist: record.artist,
+        album: record.album,
+        format: record.format,
+        qty: record.qty,
+        threshold,
+        at: new Date(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Stock alert for record ${record._id} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private async stockThresholds(): Promise<RecordStockThresholds> {
+    return {
+      categories: await this.taxonomyService.reorderThresholds(),
+      fallback: AppConfig.reorderThreshold,
+    };
+  }
+
+  private async applyUpdate(
+    existingRecord: Record,
+    changes: Partial<Record>,
+    source: RecordRevisionSource,
+    revertedRevision?: RecordRevision,
+    expectedVersion?: number,
+  ): Promise<Record> {
+    const id = String(existingRecord._id);
+    // Stock only moves through the ledger, so each change has its movement
+    if (changes.qty !== undefined && changes.qty !== existingRecord.qty) {
+      throw new BadRequestException(
+        `qty is changed through POST /records/${id}/adjustments`,
+      );
+    }
+
+    const updateData: Partial<Record> = { ...changes };
+    const priceChange =
+      changes.price !== undefined && changes.price !== existingRecord.price
+        ? await this.startPriceChange(existingRecord, changes.price)
+        : null;
+    const isMbidChanged =
+      changes.mbid !== undefined && changes.mbid !== existingRecord.mbid;
+
+    if (isMbidChanged) {
+      updateData.tracklist = await this.fetchTracklistIfMbidProvided(
+        changes.mbid,
+      );
+    }
+
+    // The category stays among the genres whichever of the two changes
+    if (changes.category !== undefined || changes.genres !== undefined) {
+      updateData.genres = withPrimaryGenre(
+        changes.category ?? existingRecord.category,
+        changes.genres === undefined ? existingRecord.genres : changes.genres,
+      );
+    }
+    if (changes.tags !== undefined) {
+      updateData.tags = normalizeRecordTags(changes.tags);
+    }
+
+    // A new artist or album moves the record to that album's title
+    const identity = {
+      artist: changes.artist ?? existingRecord.artist,
+      album: changes.album ?? existingRecord.album,
+    };
+    if (
+      !existingRecord.titleId ||
+      normalizeText(identity.artist) !== normalizeText(existingRecord.artist) ||
+      normalizeText(identity.album) !== normalizeText(existingRecord.album)
+    ) {
+      updateData.titleId = await this.titleService.resolveTitleId(identity);
+    }
+
+    let updatedRecord: Record | null;
+    try {
+      updatedRecord = await this.recordRepository.updateById(
+        id,
+        updateData,
+        expectedVersion,
+      );
+    } catch (error) {
+      await this.discardPriceChange(priceChange);
+      this.handleDuplicateKeyError(error, {
+        artist: changes.artist ?? existingRecord.artist,
+        album: changes.album ?? existingRecord.album,
+        format: changes.format ?? existingRecord.format,
+        mediaCondition: changes.mediaCondition ?? existingRecord.mediaCondition,
+        sleeveCondition:
+          changes.sleeveCondition ?? existingRecord.sleeveCondition,
+      });
+      throw error;
+    }
+    if (!updatedRecord) await this.discardPriceChange(priceChange);
+    if (!updatedRecord && expectedVersion !== undefined) {
+      // Changed by someone else between our read and the write
+      throw new PreconditionFailedException(
+        `Record with ID ${id} has been modified`,
+      );
+    }
+    if (!updatedRecord) {
+      throw new NotFoundException(`Failed to update record with ID ${id}`);
+    }
+
+    await this.invalidateCache(id);
+    await this.recordRevision(
+      id,
+      source,
+      diffRecordRevision(existingRecord, updatedRecord),
+      revertedRevision?._id as Types.ObjectId,
+    );
+    return updatedRecord;
+  }
+
+  /**
+   * Records a price set through update, patch or revert as a regular price
+   * starting now. Refused while a sale runs, since the sale would hide it.
+   */
+  private async startPriceChange(
+    record: Record,
+    price: number,
+  ): Promise<RecordPrice> {
+    const id = String(record._id);
+    const now = new Date();
+
+    const sale = await this.recordPriceRepository.findActiveSale(id, now);
+    if (sale) {
+      throw new ConflictException(
+        `Record with ID ${id} is on sale at ${sale.price} until ${sale.endsAt.toISOString()}; schedule the new price with POST /records/${id}/prices`,
+      );
+    }
+
+    await this.ensureInitialPrice(record);
+    return await this.recordPriceRepository.create({
+      recordId: record._id as Types.ObjectId,
+      kind: RecordPriceKind.CHANGE,
+      source: RecordPriceSource.UPDATE,
+      price,
+      startsAt: now,
+      appliedAt: now,
+    });
+  }
+
+  // The update it belonged to failed, so the price never took effect
+  private async discardPriceChange(price: RecordPrice | null): Promise<void> {
+    if (!price) return;
+    await this.recordPriceRepository.delete(
+      String(price.recordId),
+      String(price._id),
+    );
+  }
+
+  // Keeps the price from before the first schedule entry, so a sale ending
+  // later has a regular price to return to
+  private async ensureInitialPrice(record: Record): Promise<void> {
+    if (await this.recordPriceRepository.hasChanges(String(record._id))) {
+      return;
+    }
+    await this.recordPriceRepository.create({
+      recordId: record._id as Types.ObjectId,
+      kind: RecordPriceKind.CHANGE,
+      source: RecordPriceSource.INITIAL,
+      price: record.price,
+      startsAt: record.createdAt,
+      appliedAt: record.createdAt,
+    });
+  }
+
+  /**
+   * Stores the price in effect at `now` and marks the schedule entries due by
+   * then as applied. Returns the record when its price changed. Trashed
+   * records are skipped (restoring applies their schedule), and records
+   * written meanwhile are left for the next run.
+   */
+  private async applyRecordPrice(
+    id: string,
+    now: Date,
   ): Promise<Record | null> {
-    return await this.recordRepository.incrementStock(recordId, quantity);
+    const record = await this.recordRepository.findById(id);
+    let repriced: Record | null = null;
+
+    if (record) {
+      const price = await this.resolvePrice(record, now);
+      if (price !== record.price) {
+        repriced = await this.recordRepository.updateById(
+          id,
+          { price },
+          recordVersion(record),
+        );
+        if (!repriced) return null;
+
+        await this.invalidateCache(id);
+        await this.recordRevision(id, RecordRevisionSource.PRICE_SCHEDULE, [
+          { field: 'price', before: record.price, after: price },
+        ]);
+      }
+    }
+
+    await this.recordPriceRepository.markApplied(id, now);
+    return repriced;
+  }
+
+  /**
+   * Changes the stock of a record at a location by `delta` and appends the
+   * movement to its ledger. Stock is only taken out while the location has
+   * enough of it. Returns null when the record is missing or short of
+   * stock. There are no transactions, so the change is undone when its
+   * movement cannot be written: the ledger and the stock never disagree.
+   */
+  private async moveStock(
+    recordId: string,
+    delta: number,
+    movement: RecordStockMovementNote & Pick<RecordStockMovement, 'type'>,
+    source: RecordRevisionSource,
+  ): Promise<{ record: Record; movement: RecordStockMovement } | null> {
+    const location = movement.location ?? RECORD_DEFAULT_STOCK_LOCATION;
+    const record =
+      delta < 0
+        ? await this.recordRepository.decrementStockIfAvailable(
+            recordId,
+            -delta,
+            location,
+          )
+        : await this.recordRepository.incrementStock(recordId, delta, location);
+    if (!record) return null;
+
+    let entry: RecordStockMovement;
+    try {
+      entry = await this.recordStockMovementRepository.create({
+        ...movement,
+        recordId: record._id as Types.ObjectId,
+        location,
+        quantity: delta,
+        balance: stockAt(record, location),
+      });
+    } catch (error) {
+      await this.recordRepository.incrementStock(recordId, -delta, location);
+      throw error;
+    }
+
+    await this.invalidateCache(recordId);
+    await this.recordRevision(recordId, source, [
+      { field: 'qty', before: record.qty - delta, after: record.qty },
+    ]);
+    return { record, movement: entry };
+  }
+
+  // The records exist by now, so a failed ledger write is logged rather than
+  // thrown; reconcile:record-stock books the missing openings
+  private async recordOpeningStock(records: Record[]): Promise<void> {
+    try {
+      await this.recordStockMovementRepository.insertMany(
+        records
+          .filter(({ qty }) => qty > 0)
+          .map((record) => ({
+            recordId: record._id as Types.ObjectId,
+            type: RecordStockMovementType.OPENING,
+            location: RECORD_DEFAULT_STOCK_LOCATION,
+            quantity: record.qty,
+            balance: record.qty,
+          })),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to write opening stock of ${records.length} records: ${error.message}`,
+      );
+    }
+  }
+
+  // Orphaned files only waste space, so failures are logged rather than thrown
+  private async deleteCoverFiles(
+    recordId: string,
+    version: string,
+  ): Promise<void> {
+    try {
+      await Promise.all(
+        RECORD_COVER_SIZES.map((size) =>
+          this.fileStorage.delete(buildRecordCoverKey(recordId, version, size)),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete cover ${version} of record ${recordId}: ${error.message}`,
+      );
+    }
+  }
+
+  // The change is already applied, so a failed history write is logged rather than thrown
+  private async recordRevision(
+    recordId: string,
+    source: RecordRevisionSource,
+    changes: RecordRevisionChange[],
+    revertedRevisionId?: Types.ObjectId,
+  ): Promise<void> {
+    if (!changes.length) return;
+
+    try {
+      await this.recordRevisionRepository.create({
+        recordId: new Types.ObjectId(recordId),
+        source,
+        changes,
+        revertedRevisionId,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write ${source} revision for record ${recordId}: ${error.message}`,
+      );
+    }
+  }
+
+  // Returns the current version, or throws if If-Match asks for another one
+  private checkIfMatch(record: Record, ifMatch?: number[] | null): number {
+    const version = recordVersion(record);
+    if (ifMatch && !ifMatch.includes(version)) {
+      throw new PreconditionFailedException(
+        `Record with ID ${record._id} has been modified (current version ${version})`,
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Turns a patched record into the changes to apply (removed fields become
+   * null) and checks them against the same rules as a PUT body.
+   */
+  private async validatePatchChanges(
+    id: string,
+    current: { [field: string]: unknown },
+    patched: unknown,
+  ): Promise<Partial<Record>> {
+    if (
+      typeof patched !== 'object' ||
+      patched === null ||
+      Array.isArray(patched)
+    ) {
+      throw new BadRequestException('The patched record must be an object');
+    }
+
+    const changes: { [field: string]: unknown } = {};
+    for (const field of new Set([
+      ...Object.keys(current),
+      ...Object.keys(patched),
+    ])) {
+      if (!isSameRevisionValue(current[field], patched[field])) {
+        changes[field] = patched[field] ?? null;
+      }
+    }
+
+    const errors = Object.keys(changes)
+      .filter((field) => changes[field] === null)
+      .filter((field) => RecordSchema.path(field)?.isRequired)
+      .map((field) => `${field} cannot be removed`);
+    if ('qty' in changes) {
+      errors.push(`qty is changed through POST /records/${id}/adjustments`);
+    }
+    const validationErrors = await validate(
+      plainToInstance(UpdateRecordRequestDTO, changes),
+      { whitelist: true, forbidNonWhitelisted: true },
+    );
+    errors.push(
+      ...validationErrors.flatMap(({ constraints }) =>
+        Object.values(constraints ?? {}),
+      ),
+    );
+    if (errors.length) throw new BadRequestException(errors);
+
+    return changes as Partial<Record>;
+  }
+
+  private validateFilter(filter: RecordFilter): void {
+    if (
+      filter.minPrice !== undefined &&
+      filter.maxPrice !== undefined &&
+      filter.minPrice > filter.maxPrice
+    ) {
+      throw new BadRequestException('minPrice cannot be greater than maxPrice');
+    }
+  }
+
+  private async priceConversion(
+    currency?: string,
+  ): Promise<Required<RecordPriceConversion> | null> {
+    if (!currency) return null;
+    return {
+      currency,
+      exchangeRate: await this.exchangeRateService.getRate(currency),
+    };
+  }
+
+  private validatePagination(filter: RecordFilter): void {
+    const sort = parseRecordSort(filter.sort);
+    if (!sort) {
+      throw new BadRequestException(
+        `Invalid sort "${filter.sort}". Sortable fields: ${RECORD_SORT_FIELDS.join(', ')}`,
+      );
+    }
+
+    if (!filter.cursor) return;
+
+    if (filter.q && !sort.length) {
+      throw new BadRequestException(
+        'Relevance-ranked searches page with offset; pass an explicit sort to use a cursor',
+      );
+    }
+
+    // A cursor only makes sense for the sort it was issued under
+    const cursor = decodeRecordCursor(filter.cursor);
+    if (!cursor || cursor.values.length !== sort.length) {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+  }
+
+  private async processBulkRows(
+    rows: unknown[],
+    dryRun: boolean,
+  ): Promise<RecordBulkResult> {
+    const results: RecordBulkRowResult[] = [];
+    const pending: { index: number; data: Partial<Record> }[] = [];
+    const seenInDryRun = new Set<string>();
+
+    // Lookups run one at a time to stay within MusicBrainz rate limits
+    for (const [index, row] of rows.entries()) {
+      const prepared = await this.prepareBulkRow(row, !dryRun);
+      if ('status' in prepared) {
+        results.push({ index, ...prepared });
+      } else {
+        pending.push({ index, data: prepared });
+      }
+    }
+
+    for (
+      let start = 0;
+      start < pending.length;
+      start += RECORD_BULK_BATCH_SIZE
+    ) {
+      const batch = pending.slice(start, start + RECORD_BULK_BATCH_SIZE);
+      results.push(
+        ...(dryRun
+          ? await this.checkBulkBatch(batch, seenInDryRun)
+          : await this.insertBulkBatch(batch)),
+      );
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    const summary = { total: rows.length } as RecordBulkResult['summary'];
+    for (const status of Object.values(RecordBulkRowStatus)) {
+      summary[status] = results.filter((r) => r.status === status).length;
+    }
+
+    if (summary.created) await this.invalidateCache();
+    return { summary, results };
+  }
+
+  private async insertBulkBatch(
+    batch: { index: number; data: Partial<Record> }[],
+  ): Promise<RecordBulkRowResult[]> {
+    const titleIds = await this.titleService.resolveTitleIds(
+      batch.map(({ data }) => ({ artist: data.artist, album: data.album })),
+    );
+    const outcomes = await this.recordRepository.insertMany(
+      batch.map(({ data }, i) => ({ ...data, titleId: titleIds[i] })),
+    );
+    await this.recordOpeningStock(
+      outcomes.filter(({ record }) => record).map(({ record }) => record),
+    );
+
+    return outcomes.map(({ record, error }, i) => {
+      const { index, data } = batch[i];
+      if (record) {
+        return {
+          index,
+          status: RecordBulkRowStatus.CREATED,
+          id: String(record._id),
+        };
+      }
+      if (error?.code === MongoErrorCode.DUPLICATE_KEY) {
+        return {
+          index,
+          status: RecordBulkRowStatus.DUPLICATE,
+          errors: [this.duplicateMessage(data)],
+        };
+      }
+      return {
+        index,
+        status: RecordBulkRowStatus.FAILED,
+        errors: [error?.message ?? 'Insert failed'],
+      };
+    });
+  }
+
+  // Dry run: flag rows clashing with stored records or earlier rows in the file
+  private async checkBulkBatch(
+    batch: { index: number; data: Partial<Record> }[],
+    seen: Set<string>,
+  ): Promise<RecordBulkRowResult[]> {
+    const existing = await this.recordRepository.findExistingIdentities(
+      batch.map(({ data }) => data),
+    );
+    const stored = new Set(existing.map(recordIdentityKey));
+
+    return batch.map(({ index, data }) => {
+      const key = recordIdentityKey(data);
+      if (stored.has(key) || seen.has(key)) {
+        return {
+          index,
+          status: RecordBulkRowStatus.DUPLICATE,
+          errors: [this.duplicateMessage(data)],
+        };
+      }
+      seen.add(key);
+      return { index, status: RecordBulkRowStatus.VALID };
+    });
+  }
+
+  private async *serializeExport(
+    records: AsyncIterable<Partial<Record>>,
+    format: RecordTransferFormat,
+  ): AsyncGenerator<string> {
+    const header = serializeRecordHeader(format);
+    if (header) yield header;
+
+    for await (const record of records) {
+      yield serializeRecord(record, format);
+    }
+  }
+
+  private async prepareBulkRow(
+    row: unknown,
+    lookupTracklist: boolean,
+  ): Promise<Partial<Record> | Omit<RecordBulkRowResult, 'index'>> {
+    if (row instanceof RecordImportParseError) {
+      return { status: RecordBulkRowStatus.INVALID, errors: [row.message] };
+    }
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      return {
+        status: RecordBulkRowStatus.INVALID,
+        errors: ['Each record must be an object'],
+      };
+    }
+
+    const dto = plainToInstance(CreateRecordRequestDTO, row);
+    const validationErrors = await validate(dto, { whitelist: true });
+    if (validationErrors.length) {
+      return {
+        status: RecordBulkRowStatus.INVALID,
+        errors: validationErrors.flatMap((e) =>
+          Object.values(e.constraints ?? {}),
+        ),
+      };
+    }
+
+    try {
+      const tracklist = lookupTracklist
+        ? await this.fetchTracklistIfMbidProvided(dto.mbid)
+        : [];
+      return {
+        artist: dto.artist,
+        album: dto.album,
+        price: dto.price,
+        qty: dto.qty,
+        stock: [{ location: RECORD_DEFAULT_STOCK_LOCATION, qty: dto.qty }],
+        reorderThreshold: dto.reorderThreshold,
+        format: dto.format,
+        category: dto.category,
+        genres: dto.genres,
+        tags: dto.tags,
+        mediaCondition: dto.mediaCondition,
+        sleeveCondition: dto.sleeveCondition,
+        mbid: dto.mbid,
+        tracklist,
+      };
+    } catch (error) {
+      return {
+        status: RecordBulkRowStatus.LOOKUP_FAILED,
+        errors: [`MusicBrainz lookup failed: ${error.message}`],
+      };
+    }
   }
 
   private async fetchTracklistIfMbidProvided(
@@ -142,20 +1638,93 @@ export class RecordService {
     return release?.tracklist ?? [];
   }
 
-  private handleDuplicateKeyError(
-    error: any,
-    artist: string,
-    album: string,
-    format: string,
-  ): void {
+  private handleDuplicateKeyError(error: any, identity: RecordIdentity): void {
     if (error.code === MongoErrorCode.DUPLICATE_KEY) {
-      throw new ConflictException(
-        `Record with artist "${artist}", album "${album}", and format "${format}" already exists`,
+      throw new ConflictException(this.duplicateMessage(identity));
+    }
+  }
+
+  private duplicateMessage({
+    artist,
+    album,
+    format,
+    mediaCondition = RECORD_DEFAULT_CONDITION,
+    sleeveCondition = RECORD_DEFAULT_CONDITION,
+  }: RecordIdentity): string {
+    return `Record with artist "${artist}", album "${album}", format "${format}", and condition ${mediaCondition}/${sleeveCondition} (media/sleeve) already exists`;
+  }
+
+  private async cached<T>(
+    scope: RecordCacheScope,
+    params: object,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const generation =
+      (await this.cacheManager.get<string>(recordCacheGenerationKey(scope))) ??
+      (await this.startCacheGeneration(scope));
+    const cacheKey = buildRecordCacheKey(scope, generation, params);
+
+    const cached = await this.cacheManager.get<T>(cacheKey);
+    if (cached) {
+      this.cacheCounters[scope].hits++;
+      return cached;
+    }
+    this.cacheCounters[scope].misses++;
+
+    const result = await load();
+
+    // Misses (e.g. an unknown id) are not cached
+    if (result) {
+      await this.cacheManager.set(cacheKey, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Called after every record write: flushes listings and facets, and evicts
+   * the written record when given. Failures are logged since the write itself
+   * already happened.
+   */
+  private async invalidateCache(recordId?: string): Promise<void> {
+    await Promise.all([
+      this.startCacheGeneration('list'),
+      this.startCacheGeneration('facets'),
+      recordId && this.evictCachedRecord(recordId),
+    ]);
+  }
+
+  private async evictCachedRecord(recordId: string): Promise<void> {
+    try {
+      const generation = await this.cacheManager.get<string>(
+        recordCacheGenerationKey('record'),
+      );
+      if (generation) {
+        await this.cacheManager.del(
+          buildRecordCacheKey('record', generation, { id: recordId }),
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to evict cached record ${recordId}: ${error.message}`,
       );
     }
   }
 
-  private buildCacheKey(filter: RecordFilter): string {
-    return `records:${JSON.stringify(filter)}`;
+  // A ttl of 0 keeps the generation until it is replaced
+  private async startCacheGeneration(scope: RecordCacheScope): Promise<string> {
+    const generation = newRecordCacheGeneration();
+    try {
+      await this.cacheManager.set(
+        recordCacheGenerationKey(scope),
+        generation,
+        0,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to flush the ${scope} cache namespace: ${error.message}`,
+      );
+    }
+    return generation;
   }
 }
@@ -0,0 +1,61 @@
+export const RECORD_SORT_FIELDS = [
+  'artist',
+  'album',
+  'price',
+  'qty',
+  'format',
+  'category',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type RecordSortField = (typeof RECORD_SORT_FIELDS)[number];
+
+export type RecordSortDirection = 1 | -1;
+
+export type RecordSort = Array<[RecordSortField, RecordSortDirection]>;
+
+const RECORD_DATE_SORT_FIELDS: ReadonlySet<RecordSortField> = new Set([
+  'createdAt',
+  'updatedAt',
+]);
+
+/**
+ * Parses a `sort=price,-createdAt,artist` expression. A leading `-` sorts
+ * descending. Returns null when a field is not sortable or repeated.
+ */
+export function parseRecordSort(expression?: string): RecordSort | null {
+  if (!expression) return [];
+
+  const sort: RecordSort = [];
+  const seen = new Set<string>();
+
+  for (const token of expression.split(',')) {
+    const trimmed = token.trim();
+    if (!trimmed) continue;
+
+    const descending = trimmed.startsWith('-');
+    const field = trimmed.replace(/^[-+]/, '') as RecordSortField;
+
+    if (!RECORD_SORT_FIELDS.includes(field) || seen.has(field)) return null;
+
+    seen.add(field);
+    sort.push([field, descending ? -1 : 1]);
+  }
+
+  return sort;
+}
+
+/**
+ * Cursor values travel as JSON, so date fields come back as ISO strings and
+ * must be turned into Dates again before being compared in Mongo.
+ */
+export function reviveRecordSortValue(
+  field: RecordSortField,
+  value: unknown,
+): unknown {
+  if (RECORD_DATE_SORT_FIELDS.has(field) && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+}
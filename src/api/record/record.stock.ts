@@ -0,0 +1,168 @@
+import { FilterQuery } from 'mongoose';
+import { Record } from './record.schema';
+import { AppConfig } from '../../app.config';
+
+/** Where stock goes when no location is named: the first of STOCK_LOCATIONS */
+export const RECORD_DEFAULT_STOCK_LOCATION = AppConfig.stockLocations[0];
+
+/** Where a stock movement happens and why; the location defaults to RECORD_DEFAULT_STOCK_LOCATION */
+export interface RecordStockMovementNote {
+  location?: string;
+  reason?: string;
+  reference?: string;
+}
+
+/** A record's stock per location, every configured location included */
+export interface RecordStockBreakdown {
+  recordId: string;
+  qty: number;
+  locations: { location: string; qty: number }[];
+}
+
+/** Where reorder thresholds come from when a record sets none */
+export interface RecordStockThresholds {
+  /** Per category, from the taxonomy */
+  categories: Map<string, number>;
+  /** For records whose category sets none either */
+  fallback: number;
+}
+
+/** Stock level a record is reordered at: its own, its category's or the fallback */
+export function recordReorderThreshold(
+  record: Pick<Record, 'category' | 'reorderThreshold'>,
+  thresholds: RecordStockThresholds,
+): number {
+  return (
+    record.reorderThreshold ??
+    thresholds.categories.get(record.category) ??
+    thresholds.fallback
+  );
+}
+
+/** The record as a plain object with its `threshold` */
+export function withReorderThreshold(
+  record: Record,
+  thresholds: RecordStockThresholds,
+): Record {
+  const plain =
+    typeof record.toObject === 'function' ? record.toObject() : record;
+  return {
+    ...plain,
+    threshold: recordReorderThreshold(record, thresholds),
+  } as Record;
+}
+
+/** Query for records at or below their reorder threshold */
+export function buildLowStockQuery(
+  thresholds: RecordStockThresholds,
+): FilterQuery<Record> {
+  const categories = [...thresholds.categories];
+  return {
+    $or: [
+      {
+        reorderThreshold: { $ne: null },
+        $expr: { $lte: ['$qty', '$reorderThreshold'] },
+      },
+      ...categories.map(([category, threshold]) => ({
+        reorderThreshold: null,
+        category,
+        qty: { $lte: threshold },
+      })),
+      {
+        reorderThreshold: null,
+        category: { $nin: categories.map(([category]) => category) },
+        qty: { $lte: thresholds.fallback },
+      },
+    ],
+  };
+}
+
+/**
+ * Whether taking `quantity` units brought the stock from above the
+ * threshold to at or below it. Alerting on the crossing only means one
+ * alert per restock cycle rather than one per order.
+ */
+export function crossedReorderThreshold(
+  qty: number,
+  quantity: number,
+  threshold: number,
+): boolean {
+  return qty <= threshold && qty + quantity > threshold;
+}
+
+/** Why a record's stock moved; every change of `qty` is one of these */
+export enum RecordStockMovementType {
+  // Stock a record was created (or backfilled) with
+  OPENING = 'opening',
+  RECEIPT = 'receipt',
+  SALE = 'sale',
+  RETURN = 'return',
+  DAMAGE = 'damage',
+  SHRINKAGE = 'shrinkage',
+  CORRECTION = 'correction',
+  // Booked twice: out of one location and into another
+  TRANSFER = 'transfer',
+}
+
+/** Movements that can be entered by hand; sales and openings come from orders and imports, transfers from POST /records/:id/transfers */
+export const RECORD_ADJUSTMENT_TYPES = [
+  RecordStockMovementType.RECEIPT,
+  RecordStockMovementType.RETURN,
+  RecordStockMovementType.DAMAGE,
+  RecordStockMovementType.SHRINKAGE,
+  RecordStockMovementType.CORRECTION,
+] as const;
+
+const OUTGOING_MOVEMENTS = [
+  RecordStockMovementType.SALE,
+  RecordStockMovementType.DAMAGE,
+  RecordStockMovementType.SHRINKAGE,
+];
+
+/**
+ * Signed change of stock for a movement. Corrections take the signed
+ * quantity as given; the other types a positive count whose direction
+ * follows from the type. Returns null when the quantity does not fit.
+ */
+export function stockMovementDelta(
+  type: RecordStockMovementType,
+  quantity: number,
+): number | null {
+  if (type === RecordStockMovementType.CORRECTION) return quantity || null;
+  if (!(quantity > 0)) return null;
+  return OUTGOING_MOVEMENTS.includes(type) ? -quantity : quantity;
+}
+
+/** Stock of a record at a location, 0 where it was never stocked */
+export function stockAt(
+  record: Pick<Record, 'stock'>,
+  location: string,
+): number {
+  return (
+    (record.stock ?? []).find((level) => level.location === location)?.qty ?? 0
+  );
+}
+
+/**
+ * Stock per location in the configured order, followed by any location no
+ * longer configured that still holds stock.
+ */
+export function buildStockBreakdown(
+  record: Pick<Record, '_id' | 'qty' | 'stock'>,
+): RecordStockBreakdown {
+  const retired = (record.stock ?? [])
+    .filter(
+      ({ location, qty }) =>
+        qty && !AppConfig.stockLocations.includes(location),
+    )
+    .map(({ location }) => location);
+
+  return {
+    recordId: String(record._id),
+    qty: record.qty,
+    locations: [...AppConfig.stockLocations, ...retired].map((location) => ({
+      location,
+      qty: stockAt(record, location),
+    })),
+  };
+}
@@ -0,0 +1,178 @@
+import { Record } from './record.schema';
+import {
+  parseCsv,
+  toCsvLine,
+  unguardCsvCell,
+} from '../../common/utils/csv.util';
+
+export const RECORD_TRANSFER_FORMATS = ['csv', 'ndjson'] as const;
+
+export type RecordTransferFormat = (typeof RECORD_TRANSFER_FORMATS)[number];
+
+export const RECORD_TRANSFER_CONTENT_TYPES: {
+  [format in RecordTransferFormat]: string;
+} = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+export const RECORD_EXPORT_COLUMNS = [
+  '_id',
+  'artist',
+  'album',
+  'price',
+  'currency',
+  'qty',
+  'format',
+  'mediaCondition',
+  'sleeveCondition',
+  'category',
+  'genres',
+  'tags',
+  'mbid',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export const RECORD_IMPORT_FIELDS = [
+  'artist',
+  'album',
+  'price',
+  'qty',
+  'format',
+  'mediaCondition',
+  'sleeveCondition',
+  'category',
+  'genres',
+  'tags',
+  'mbid',
+] as const;
+
+export type RecordImportField = (typeof RECORD_IMPORT_FIELDS)[number];
+
+/** Source column (CSV header or NDJSON key) to record field */
+export type RecordColumnMapping = { [column: string]: RecordImportField };
+
+const NUMERIC_IMPORT_FIELDS: ReadonlySet<string> = new Set(['price', 'qty']);
+
+// Comma-separated within their CSV cell
+const LIST_IMPORT_FIELDS: ReadonlySet<string> = new Set(['genres', 'tags']);
+
+export const RECORD_IMPORT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export function detectRecordTransferFormat(
+  fileName = '',
+  mimeType = '',
+): RecordTransferFormat {
+  return /\.(ndjson|jsonl)$/i.test(fileName) || /ndjson/i.test(mimeType)
+    ? 'ndjson'
+    : 'csv';
+}
+
+/** Stands in for a row that could not be parsed at all */
+export class RecordImportParseError {
+  constructor(readonly message: string) {}
+}
+
+export function serializeRecordHeader(format: RecordTransferFormat): string {
+  return format === 'csv' ? `${toCsvLine([...RECORD_EXPORT_COLUMNS])}\n` : '';
+}
+
+export function serializeRecord(
+  record: Partial<Record>,
+  format: RecordTransferFormat,
+): string {
+  const values = RECORD_EXPORT_COLUMNS.map((column) => record[column]);
+  if (format === 'csv') {
+    // Lists share one cell, joined as text so the formula guard applies
+    return `${toCsvLine(
+      values.map((value) => (Array.isArray(value) ? value.join(',') : value)),
+    )}\n`;
+  }
+
+  return `${JSON.stringify(
+    Object.fromEntries(
+      RECORD_EXPORT_COLUMNS.map((column, i) => [column, values[i]]),
+    ),
+  )}\n`;
+}
+
+/**
+ * Turns an uploaded CSV or NDJSON file into plain objects keyed by record
+ * field. Columns are matched through the mapping first, then by name
+ * (case-insensitive); anything else (e.g. exported _id/timestamps) is ignored.
+ */
+export function parseRecordImport(
+  content: string,
+  format: RecordTransferFormat,
+  mapping: RecordColumnMapping = {},
+): Array<{ [field: string]: unknown } | RecordImportParseError> {
+  return format === 'csv'
+    ? parseCsvImport(content, mapping)
+    : parseNdjsonImport(content, mapping);
+}
+
+function resolveField(
+  column: string,
+  mapping: RecordColumnMapping,
+): RecordImportField | undefined {
+  if (mapping[column]) return mapping[column];
+  const name = column.trim().toLowerCase();
+  return RECORD_IMPORT_FIELDS.find((field) => field.toLowerCase() === name);
+}
+
+function parseCsvImport(
+  content: string,
+  mapping: RecordColumnMapping,
+): Array<{ [field: string]: unknown }> {
+  const [header = [], ...rows] = parseCsv(content);
+  const fields = header.map((column) => resolveField(column, mapping));
+
+  return rows.map((cells) => {
+    const row: { [field: string]: unknown } = {};
+    fields.forEach((field, i) => {
+      const cell = unguardCsvCell(cells[i]?.trim() ?? '');
+      if (!field || cell === '') return;
+      row[field] = parseCsvImportCell(field, cell);
+    });
+    return row;
+  });
+}
+
+function parseCsvImportCell(field: string, cell: string): unknown {
+  if (NUMERIC_IMPORT_FIELDS.has(field)) return Number(cell);
+  if (LIST_IMPORT_FIELDS.has(field)) {
+    return cell
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return cell;
+}
+
+function parseNdjsonImport(
+  content: string,
+  mapping: RecordColumnMapping,
+): Array<{ [field: string]: unknown } | RecordImportParseError> {
+  return content
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        return new RecordImportParseError('Line is not valid JSON');
+      }
+      if (typeof parsed !== 'object' || parsed === null) {
+        return new RecordImportParseError('Line is not a JSON object');
+      }
+
+      const row: { [field: string]: unknown } = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        const field = resolveField(key, mapping);
+        if (field && value !== null && value !== '') row[field] = value;
+      }
+      return row;
+    });
+}
@@ -0,0 +1,46 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTaxonomyTermRequestDTO {
+  @ApiProperty({
+    description: 'Value as stored on records (case-sensitive)',
+    example: '8-Track',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(40)
+  // Record filters take comma-separated values
+  @Matches(/^[^,]*$/, { message: 'value cannot contain commas' })
+  value: string;
+
+  @ApiProperty({
+    description: 'Notes for catalog staff',
+    example: 'Stereo 8 cartridges',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Categories only: reorder threshold of their records that set none',
+    example: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  reorderThreshold?: number;
+}
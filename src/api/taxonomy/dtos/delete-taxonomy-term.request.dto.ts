@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DeleteTaxonomyTermRequestDTO {
+  @ApiProperty({
+    description:
+      'Value of the same kind to move records to; without it, a value in use cannot be deleted',
+    example: 'Cassette',
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  reassignTo?: string;
+}
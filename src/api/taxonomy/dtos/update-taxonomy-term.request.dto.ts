@@ -0,0 +1,47 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateTaxonomyTermRequestDTO {
+  @ApiProperty({
+    description: 'New value; records using the old one are renamed with it',
+    example: '8-Track',
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(40)
+  @Matches(/^[^,]*$/, { message: 'value cannot contain commas' })
+  value?: string;
+
+  @ApiProperty({
+    description: 'Notes for catalog staff',
+    example: 'Stereo 8 cartridges',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Categories only: reorder threshold of their records that set none; null removes it',
+    example: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  reorderThreshold?: number;
+}
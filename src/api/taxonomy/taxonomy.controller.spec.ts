@@ -0,0 +1,76 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaxonomyController } from './taxonomy.controller';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyKind } from './taxonomy.enum';
+
+describe('TaxonomyController', () => {
+  let controller: TaxonomyController;
+  let service: jest.Mocked<TaxonomyService>;
+
+  const term = { kind: TaxonomyKind.FORMAT, value: '8-Track' };
+
+  beforeEach(async () => {
+    const mockTaxonomyService = {
+      findByKind: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TaxonomyController],
+      providers: [{ provide: TaxonomyService, useValue: mockTaxonomyService }],
+    }).compile();
+
+    controller = module.get<TaxonomyController>(TaxonomyController);
+    service = module.get(TaxonomyService);
+  });
+
+  it('should list the values of a kind', async () => {
+    service.findByKind.mockResolvedValue([term] as any);
+
+    const result = await controller.findByKind(TaxonomyKind.FORMAT);
+
+    expect(result).toEqual([term]);
+    expect(service.findByKind).toHaveBeenCalledWith(TaxonomyKind.FORMAT);
+  });
+
+  it('should create a value', async () => {
+    service.create.mockResolvedValue(term as any);
+
+    const result = await controller.create(TaxonomyKind.FORMAT, {
+      value: '8-Track',
+    });
+
+    expect(result).toEqual(term);
+    expect(service.create).toHaveBeenCalledWith(TaxonomyKind.FORMAT, {
+      value: '8-Track',
+    });
+  });
+
+  it('should update a value', async () => {
+    service.update.mockResolvedValue(term as any);
+
+    await controller.update(TaxonomyKind.FORMAT, '8 Track', {
+      value: '8-Track',
+    });
+
+    expect(service.update).toHaveBeenCalledWith(
+      TaxonomyKind.FORMAT,
+      '8 Track',
+      { value: '8-Track' },
+    );
+  });
+
+  it('should delete a value, passing reassignTo along', async () => {
+    await controller.delete(TaxonomyKind.FORMAT, '8-Track', {
+      reassignTo: 'Cassette',
+    });
+
+    expect(service.delete).toHaveBeenCalledWith(
+      TaxonomyKind.FORMAT,
+      '8-Track',
+      'Cassette',
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyTerm } from './taxonomy.schema';
+import { TaxonomyKind } from './taxonomy.enum';
+import { CreateTaxonomyTermRequestDTO } from './dtos/create-taxonomy-term.request.dto';
+import { UpdateTaxonomyTermRequestDTO } from './dtos/update-taxonomy-term.request.dto';
+import { DeleteTaxonomyTermRequestDTO } from './dtos/delete-taxonomy-term.request.dto';
+
+const kindPipe = new ParseEnumPipe(TaxonomyKind);
+
+@Controller('taxonomy')
+@ApiParam({ name: 'kind', enum: TaxonomyKind })
+export class TaxonomyController {
+  constructor(private readonly taxonomyService: TaxonomyService) {}
+
+  @Get(':kind')
+  @ApiOperation({ summary: 'List the allowed record formats or categories' })
+  @ApiResponse({ status: 200, description: 'Values of the kind' })
+  async findByKind(
+    @Param('kind', kindPipe) kind: TaxonomyKind,
+  ): Promise<TaxonomyTerm[]> {
+    return await this.taxonomyService.findByKind(kind);
+  }
+
+  @Post(':kind')
+  @ApiOperation({ summary: 'Add a record format or category' })
+  @ApiResponse({ status: 201, description: 'Value added' })
+  @ApiResponse({ status: 409, description: 'Value already exists' })
+  async create(
+    @Param('kind', kindPipe) kind: TaxonomyKind,
+    @Body() dto: CreateTaxonomyTermRequestDTO,
+  ): Promise<TaxonomyTerm> {
+    return await this.taxonomyService.create(kind, dto);
+  }
+
+  @Put(':kind/:value')
+  @ApiOperation({
+    summary:
+      'Rename or describe a value; renaming updates the records using it',
+  })
+  @ApiResponse({ status: 200, description: 'Value updated' })
+  @ApiResponse({ status: 404, description: 'Value not found' })
+  @ApiResponse({ status: 409, description: 'New value already exists' })
+  async update(
+    @Param('kind', kindPipe) kind: TaxonomyKind,
+    @Param('value') value: string,
+    @Body() dto: UpdateTaxonomyTermRequestDTO,
+  ): Promise<TaxonomyTerm> {
+    return await this.taxonomyService.update(kind, value, dto);
+  }
+
+  @Delete(':kind/:value')
+  @HttpCode(204)
+  @ApiOperation({
+    summary:
+      'Delete a value; records using it must be moved with reassignTo first',
+  })
+  @ApiResponse({ status: 204, description: 'Value deleted' })
+  @ApiResponse({ status: 400, description: 'Invalid reassignTo value' })
+  @ApiResponse({ status: 404, description: 'Value not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Value still in use, or moving its records would duplicate others',
+  })
+  async delete(
+    @Param('kind', kindPipe) kind: TaxonomyKind,
+    @Param('value') value: string,
+    @Query() query: DeleteTaxonomyTermRequestDTO,
+  ): Promise<void> {
+    await this.taxonomyService.delete(kind, value, query.reassignTo);
+  }
+}
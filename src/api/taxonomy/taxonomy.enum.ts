@@ -0,0 +1,4 @@
+export enum TaxonomyKind {
+  FORMAT = 'format',
+  CATEGORY = 'category',
+}
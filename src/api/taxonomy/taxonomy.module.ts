@@ -0,0 +1,23 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TaxonomyController } from './taxonomy.controller';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyRepository } from './taxonomy.repository';
+import { TaxonomyTermSchema } from './taxonomy.schema';
+import { TaxonomyValueConstraint } from './taxonomy.validator';
+import { RecordModule } from '../record/record.module';
+import { PromotionModule } from '../promotion/promotion.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: 'TaxonomyTerm', schema: TaxonomyTermSchema },
+    ]),
+    forwardRef(() => RecordModule),
+    forwardRef(() => PromotionModule),
+  ],
+  controllers: [TaxonomyController],
+  providers: [TaxonomyService, TaxonomyRepository, TaxonomyValueConstraint],
+  exports: [TaxonomyService],
+})
+export class TaxonomyModule {}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { TaxonomyTerm } from './taxonomy.schema';
+import { TaxonomyKind } from './taxonomy.enum';
+
+@Injectable()
+export class TaxonomyRepository {
+  constructor(
+    @InjectModel('TaxonomyTerm')
+    private readonly taxonomyTermModel: Model<TaxonomyTerm>,
+  ) {}
+
+  async findAll(): Promise<TaxonomyTerm[]> {
+    return await this.taxonomyTermModel.find().sort({ value: 1 }).exec();
+  }
+
+  async findByKind(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+    return await this.taxonomyTermModel
+      .find({ kind })
+      .sort({ value: 1 })
+      .exec();
+  }
+
+  async findOne(
+    kind: TaxonomyKind,
+    value: string,
+  ): Promise<TaxonomyTerm | null> {
+    return await this.taxonomyTermModel.findOne({ kind, value }).exec();
+  }
+
+  async countByKind(kind: TaxonomyKind): Promise<number> {
+    return await this.taxonomyTermModel.countDocuments({ kind }).exec();
+  }
+
+  async create(data: Partial<TaxonomyTerm>): Promise<TaxonomyTerm> {
+    return await this.taxonomyTermModel.create(data);
+  }
+
+  // Upserts, so instances starting side by side do not seed twice
+  async insertMissing(kind: TaxonomyKind, values: string[]): Promise<void> {
+    await this.taxonomyTermModel.bulkWrite(
+      values.map((value) => ({
+        updateOne: {
+          filter: { kind, value },
+          update: { $setOnInsert: { kind, value } },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  async update(
+    kind: TaxonomyKind,
+    value: string,
+    changes: Partial<TaxonomyTerm>,
+  ): Promise<TaxonomyTerm | null> {
+    return await this.taxonomyTermModel
+      .findOneAndUpdate({ kind, value }, changes, { new: true })
+      .exec();
+  }
+
+  async delete(kind: TaxonomyKind, value: string): Promise<boolean> {
+    const { deletedCount } = await this.taxonomyTermModel
+      .deleteOne({ kind, value })
+      .exec();
+    return deletedCount > 0;
+  }
+}
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { TaxonomyKind } from './taxonomy.enum';
+
+/** One allowed value of a record format or category */
+@Schema({ timestamps: true })
+export class TaxonomyTerm extends Document {
+  @Prop({ enum: TaxonomyKind, required: true })
+  kind: TaxonomyKind;
+
+  @Prop({ required: true })
+  value: string;
+
+  @Prop({ required: false })
+  description?: string;
+
+  // Categories only: stock level their records are reordered at, unless a
+  // record sets its own
+  @Prop({ required: false, min: 0 })
+  reorderThreshold?: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const TaxonomyTermSchema = SchemaFactory.createForClass(TaxonomyTerm);
+
+TaxonomyTermSchema.index({ kind: 1, value: 1 }, { unique: true });
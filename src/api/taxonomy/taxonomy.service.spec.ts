@@ -0,0 +1,310 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyRepository } from './taxonomy.repository';
+import { TaxonomyKind } from './taxonomy.enum';
+import { RecordService } from '../record/record.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { RecordFormat } from '../record/record.enum';
+import { MongoErrorCode } from '../../common/constants/error-codes.constants';
+
+describe('TaxonomyService', () => {
+  let service: TaxonomyService;
+  let taxonomyRepository: jest.Mocked<TaxonomyRepository>;
+  let recordService: jest.Mocked<RecordService>;
+  let promotionService: jest.Mocked<PromotionService>;
+
+  const eightTrack = { kind: TaxonomyKind.FORMAT, value: '8-Track' };
+
+  beforeEach(async () => {
+    const mockTaxonomyRepository = {
+      findAll: jest.fn(),
+      findByKind: jest.fn(),
+      findOne: jest.fn(),
+      countByKind: jest.fn(),
+      create: jest.fn(),
+      insertMissing: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const mockRecordService = {
+      countByTaxonomyValue: jest.fn(),
+      checkTaxonomyReassign: jest.fn(),
+      reassignTaxonomyValue: jest.fn(),
+    };
+
+    const mockPromotionService = {
+      countByTaxonomyValue: jest.fn(),
+      reassignTaxonomyValue: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxonomyService,
+        { provide: TaxonomyRepository, useValue: mockTaxonomyRepository },
+        { provide: RecordService, useValue: mockRecordService },
+        { provide: PromotionService, useValue: mockPromotionService },
+      ],
+    }).compile();
+
+    service = module.get<TaxonomyService>(TaxonomyService);
+    taxonomyRepository = module.get(TaxonomyRepository);
+    recordService = module.get(RecordService);
+    promotionService = module.get(PromotionService);
+  });
+
+  describe('onModuleInit', () => {
+    it('should seed the built-in values of kinds that have none', async () => {
+      taxonomyRepository.countByKind.mockImplementation(async (kind) =>
+        kind === TaxonomyKind.FORMAT ? 0 : 7,
+      );
+
+      await service.onModuleInit();
+
+      expect(taxonomyRepository.insertMissing).toHaveBeenCalledTimes(1);
+      expect(taxonomyRepository.insertMissing).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        Object.values(RecordFormat),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should add a value that records can use right away', async () => {
+      taxonomyRepository.findAll.mockResolvedValue([]);
+      expect(await service.hasValue(TaxonomyKind.FORMAT, '8-Track')).toBe(
+        false,
+      );
+      taxonomyRepository.create.mockResolvedValue(eightTrack as any);
+      taxonomyRepository.findAll.mockResolvedValue([eightTrack] as any);
+
+      const result = await service.create(TaxonomyKind.FORMAT, {
+        value: '8-Track',
+      });
+
+      expect(result).toEqual(eightTrack);
+      expect(await service.hasValue(TaxonomyKind.FORMAT, '8-Track')).toBe(true);
+      expect(await service.hasValue(TaxonomyKind.CATEGORY, '8-Track')).toBe(
+        false,
+      );
+    });
+
+    it('should throw ConflictException for an existing value', async () => {
+      taxonomyRepository.create.mockRejectedValue({
+        code: MongoErrorCode.DUPLICATE_KEY,
+      });
+
+      await expect(
+        service.create(TaxonomyKind.FORMAT, { value: RecordFormat.VINYL }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('reorder thresholds', () => {
+    it('should list the categories that set one', async () => {
+      taxonomyRepository.findAll.mockResolvedValue([
+        { kind: TaxonomyKind.CATEGORY, value: 'Jazz', reorderThreshold: 5 },
+        { kind: TaxonomyKind.CATEGORY, value: 'Rock' },
+        { kind: TaxonomyKind.FORMAT, value: 'Vinyl' },
+      ] as any);
+
+      expect(await service.reorderThresholds()).toEqual(new Map([['Jazz', 5]]));
+    });
+
+    it('should reject one on a format', async () => {
+      await expect(
+        service.create(TaxonomyKind.FORMAT, {
+          value: '8-Track',
+          reorderThreshold: 2,
+        }),
+      ).rejects.toThrow('Only categories have a reorder threshold');
+      await expect(
+        service.update(TaxonomyKind.FORMAT, RecordFormat.VINYL, {
+          reorderThreshold: 2,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(taxonomyRepository.create).not.toHaveBeenCalled();
+      expect(taxonomyRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should rename the value on the records and promotions using it', async () => {
+      taxonomyRepository.update.mockResolvedValue({
+        ...eightTrack,
+        value: '8-Track Cartridge',
+      } as any);
+
+      await service.update(TaxonomyKind.FORMAT, '8-Track', {
+        value: '8-Track Cartridge',
+      });
+
+      expect(taxonomyRepository.update).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        { value: '8-Track Cartridge' },
+      );
+      expect(recordService.reassignTaxonomyValue).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        '8-Track Cartridge',
+      );
+      expect(promotionService.reassignTaxonomyValue).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        '8-Track Cartridge',
+      );
+    });
+
+    it('should not rename a value whose records would clash', async () => {
+      recordService.checkTaxonomyReassign.mockRejectedValue(
+        new ConflictException(),
+      );
+
+      await expect(
+        service.update(TaxonomyKind.FORMAT, '8-Track', { value: 'Cassette' }),
+      ).rejects.toThrow(ConflictException);
+      expect(taxonomyRepository.update).not.toHaveBeenCalled();
+      expect(recordService.reassignTaxonomyValue).not.toHaveBeenCalled();
+    });
+
+    it('should undo the rename when moving the records fails', async () => {
+      taxonomyRepository.update.mockResolvedValue({
+        ...eightTrack,
+        value: '8-Track Cartridge',
+      } as any);
+      recordService.reassignTaxonomyValue.mockRejectedValueOnce(
+        new ConflictException(),
+      );
+
+      await expect(
+        service.update(TaxonomyKind.FORMAT, '8-Track', {
+          value: '8-Track Cartridge',
+        }),
+      ).rejects.toThrow('nothing was renamed');
+      expect(recordService.reassignTaxonomyValue).toHaveBeenLastCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track Cartridge',
+        '8-Track',
+      );
+      expect(taxonomyRepository.update).toHaveBeenLastCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track Cartridge',
+        { value: '8-Track' },
+      );
+    });
+
+    it('should leave records alone when only the description changes', async () => {
+      taxonomyRepository.update.mockResolvedValue(eightTrack as any);
+
+      await service.update(TaxonomyKind.FORMAT, '8-Track', {
+        description: 'Stereo 8',
+      });
+
+      expect(recordService.reassignTaxonomyValue).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown value', async () => {
+      taxonomyRepository.update.mockResolvedValue(null);
+
+      await expect(
+        service.update(TaxonomyKind.FORMAT, 'Wax Cylinder', { value: 'X' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(recordService.reassignTaxonomyValue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete a value no record uses', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(eightTrack as any);
+      recordService.countByTaxonomyValue.mockResolvedValue(0);
+
+      await service.delete(TaxonomyKind.FORMAT, '8-Track');
+
+      expect(taxonomyRepository.delete).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+      );
+    });
+
+    it('should block deleting a value in use', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(eightTrack as any);
+      recordService.countByTaxonomyValue.mockResolvedValue(2);
+
+      await expect(
+        service.delete(TaxonomyKind.FORMAT, '8-Track'),
+      ).rejects.toThrow(ConflictException);
+      expect(taxonomyRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should block deleting a value promotions are scoped to', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(eightTrack as any);
+      recordService.countByTaxonomyValue.mockResolvedValue(0);
+      promotionService.countByTaxonomyValue.mockResolvedValue(1);
+
+      await expect(
+        service.delete(TaxonomyKind.FORMAT, '8-Track'),
+      ).rejects.toThrow('"8-Track" is used by 1 promotions');
+      expect(taxonomyRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should move the records to reassignTo before deleting', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(eightTrack as any);
+
+      await service.delete(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+
+      expect(recordService.reassignTaxonomyValue).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+      expect(promotionService.reassignTaxonomyValue).toHaveBeenCalledWith(
+        TaxonomyKind.FORMAT,
+        '8-Track',
+        RecordFormat.CASSETTE,
+      );
+      expect(recordService.countByTaxonomyValue).not.toHaveBeenCalled();
+      expect(taxonomyRepository.delete).toHaveBeenCalled();
+    });
+
+    it('should not delete when moving the records fails', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(eightTrack as any);
+      recordService.reassignTaxonomyValue.mockRejectedValue(
+        new ConflictException(),
+      );
+
+      await expect(
+        service.delete(TaxonomyKind.FORMAT, '8-Track', RecordFormat.VINYL),
+      ).rejects.toThrow(ConflictException);
+      expect(taxonomyRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject a reassignTo value that does not exist', async () => {
+      taxonomyRepository.findOne.mockImplementation(async (_kind, value) =>
+        value === '8-Track' ? (eightTrack as any) : null,
+      );
+
+      await expect(
+        service.delete(TaxonomyKind.FORMAT, '8-Track', 'Wax Cylinder'),
+      ).rejects.toThrow(BadRequestException);
+      expect(recordService.reassignTaxonomyValue).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown value', async () => {
+      taxonomyRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.delete(TaxonomyKind.FORMAT, 'Wax Cylinder'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
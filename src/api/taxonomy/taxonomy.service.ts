@@ -0,0 +1,236 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
+import { TaxonomyRepository } from './taxonomy.repository';
+import { TaxonomyTerm } from './taxonomy.schema';
+import { TaxonomyKind } from './taxonomy.enum';
+import { CreateTaxonomyTermRequestDTO } from './dtos/create-taxonomy-term.request.dto';
+import { UpdateTaxonomyTermRequestDTO } from './dtos/update-taxonomy-term.request.dto';
+import { RecordService } from '../record/record.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { RecordCategory, RecordFormat } from '../record/record.enum';
+import { MongoErrorCode } from '../../common/constants/error-codes.constants';
+
+// Seeded while a kind has no values, so records written before the taxonomy stay valid
+const DEFAULT_TERMS: { [kind in TaxonomyKind]: string[] } = {
+  [TaxonomyKind.FORMAT]: Object.values(RecordFormat),
+  [TaxonomyKind.CATEGORY]: Object.values(RecordCategory),
+};
+
+// How long an instance validates against its copy of the taxonomy; writes on
+// the same instance refresh it at once
+const TAXONOMY_CACHE_MS = 5000;
+
+@Injectable()
+export class TaxonomyService implements OnModuleInit {
+  private terms?: Promise<Map<TaxonomyKind, Map<string, TaxonomyTerm>>>;
+  private loadedAt = 0;
+
+  constructor(
+    private readonly taxonomyRepository: TaxonomyRepository,
+    // Record DTOs import the taxonomy validator, which imports this file
+    @Inject(forwardRef(() => RecordService))
+    private readonly recordService: RecordService,
+    // Promotions check their scope against this service
+    @Inject(forwardRef(() => PromotionService))
+    private readonly promotionService: PromotionService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    for (const kind of Object.values(TaxonomyKind)) {
+      if (!(await this.taxonomyRepository.countByKind(kind))) {
+        await this.taxonomyRepository.insertMissing(kind, DEFAULT_TERMS[kind]);
+      }
+    }
+  }
+
+  async findByKind(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+    return await this.taxonomyRepository.findByKind(kind);
+  }
+
+  async create(
+    kind: TaxonomyKind,
+    dto: CreateTaxonomyTermRequestDTO,
+  ): Promise<TaxonomyTerm> {
+    this.checkReorderThreshold(kind, dto.reorderThreshold);
+    try {
+      return await this.taxonomyRepository.create({
+        kind,
+        value: dto.value,
+        description: dto.description,
+        reorderThreshold: dto.reorderThreshold,
+      });
+    } catch (error) {
+      if (error.code === MongoErrorCode.DUPLICATE_KEY) {
+        throw new ConflictException(`${kind} "${dto.value}" already exists`);
+      }
+      throw error;
+    } finally {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Renaming a value also renames it on every record and promotion that
+   * uses it. A rename
+   * that would duplicate records is refused before the term changes, and one
+   * whose records cannot all be moved is undone.
+   */
+  async update(
+    kind: TaxonomyKind,
+    value: string,
+    dto: UpdateTaxonomyTermRequestDTO,
+  ): Promise<TaxonomyTerm> {
+    this.checkReorderThreshold(kind, dto.reorderThreshold);
+    const renamed = dto.value !== undefined && dto.value !== value;
+    if (renamed) {
+      await this.recordService.checkTaxonomyReassign(kind, value, dto.value);
+    }
+
+    let term: TaxonomyTerm | null;
+    try {
+      term = await this.taxonomyRepository.update(kind, value, dto);
+    } catch (error) {
+      if (error.code === MongoErrorCode.DUPLICATE_KEY) {
+        throw new ConflictException(`${kind} "${dto.value}" already exists`);
+      }
+      throw error;
+    } finally {
+      this.refresh();
+    }
+    if (!term) {
+      throw new NotFoundException(`${kind} "${value}" not found`);
+    }
+
+    if (renamed) {
+      try {
+        await this.recordService.reassignTaxonomyValue(kind, value, dto.value);
+        await this.promotionService.reassignTaxonomyValue(
+          kind,
+          value,
+          dto.value,
+        );
+      } catch (error) {
+        // Records and promotions moved before the failure go back first, so
+        // none is left with a value the taxonomy no longer has
+        await this.recordService.reassignTaxonomyValue(kind, dto.value, value);
+        await this.promotionService.reassignTaxonomyValue(
+          kind,
+          dto.value,
+          value,
+        );
+        await this.taxonomyRepository.update(kind, dto.value, { value });
+        this.refresh();
+        if (error instanceof ConflictException) {
+          throw new ConflictException(
+            `Renaming ${kind} "${value}" to "${dto.value}" would duplicate a record written meanwhile; nothing was renamed`,
+          );
+        }
+        throw error;
+      }
+    }
+    return term;
+  }
+
+  /**
+   * Removes a value. Records or promotions still using it block the removal
+   * unless reassignTo names another value of the same kind to move them to.
+   */
+  async delete(
+    kind: TaxonomyKind,
+    value: string,
+    reassignTo?: string,
+  ): Promise<void> {
+    const term = await this.taxonomyRepository.findOne(kind, value);
+    if (!term) {
+      throw new NotFoundException(`${kind} "${value}" not found`);
+    }
+
+    if (reassignTo !== undefined) {
+      if (reassignTo === value) {
+        throw new BadRequestException(
+          `Cannot reassign ${kind} "${value}" to itself`,
+        );
+      }
+      if (!(await this.taxonomyRepository.findOne(kind, reassignTo))) {
+        throw new BadRequestException(`${kind} "${reassignTo}" not found`);
+      }
+      await this.recordService.reassignTaxonomyValue(kind, value, reassignTo);
+      await this.promotionService.reassignTaxonomyValue(
+        kind,
+        value,
+        reassignTo,
+      );
+    } else {
+      const used = await this.recordService.countByTaxonomyValue(kind, value);
+      if (used) {
+        throw new ConflictException(
+          `${kind} "${value}" is used by ${used} records (trash included); pass reassignTo to move them to another ${kind}`,
+        );
+      }
+      const promotions = await this.promotionService.countByTaxonomyValue(
+        kind,
+        value,
+      );
+      if (promotions) {
+        throw new ConflictException(
+          `${kind} "${value}" is used by ${promotions} promotions; pass reassignTo to move them to another ${kind}`,
+        );
+      }
+    }
+
+    await this.taxonomyRepository.delete(kind, value);
+    this.refresh();
+  }
+
+  async hasValue(kind: TaxonomyKind, value: string): Promise<boolean> {
+    const terms = await this.loadTerms();
+    return terms.get(kind)?.has(value) ?? false;
+  }
+
+  /** Reorder thresholds of the categories that set one */
+  async reorderThresholds(): Promise<Map<string, number>> {
+    const terms = await this.loadTerms();
+    return new Map(
+      [...(terms.get(TaxonomyKind.CATEGORY)?.values() ?? [])]
+        .filter(({ reorderThreshold }) => reorderThreshold != null)
+        .map(({ value, reorderThreshold }) => [value, reorderThreshold]),
+    );
+  }
+
+  private checkReorderThreshold(
+    kind: TaxonomyKind,
+    reorderThreshold?: number,
+  ): void {
+    if (kind !== TaxonomyKind.CATEGORY && reorderThreshold != null) {
+      throw new BadRequestException('Only categories have a reorder threshold');
+    }
+  }
+
+  private loadTerms(): Promise<Map<TaxonomyKind, Map<string, TaxonomyTerm>>> {
+    if (!this.terms || Date.now() - this.loadedAt > TAXONOMY_CACHE_MS) {
+      this.loadedAt = Date.now();
+      this.terms = this.taxonomyRepository.findAll().then((terms) => {
+        const byKind = new Map<TaxonomyKind, Map<string, TaxonomyTerm>>();
+        for (const term of terms) {
+          if (!byKind.has(term.kind)) byKind.set(term.kind, new Map());
+          byKind.get(term.kind).set(term.value, term);
+        }
+        return byKind;
+      });
+      // A failed load must not be served until the next expiry
+      this.terms.catch(() => this.refresh());
+    }
+    return this.terms;
+  }
+
+  private refresh(): void {
+    this.terms = undefined;
+  }
+}
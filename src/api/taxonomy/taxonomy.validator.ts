@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  registerDecorator,
+} from 'class-validator';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyKind } from './taxonomy.enum';
+
+/**
+ * Resolved through the Nest container (see useContainer in main.ts), so it
+ * checks values against the taxonomy currently stored.
+ */
+@ValidatorConstraint({ name: 'isTaxonomyValue', async: true })
+@Injectable()
+export class TaxonomyValueConstraint implements ValidatorConstraintInterface {
+  constructor(private readonly taxonomyService: TaxonomyService) {}
+
+  async validate(value: unknown, args: ValidationArguments): Promise<boolean> {
+    const [kind] = args.constraints as [TaxonomyKind];
+    return (
+      typeof value === 'string' &&
+      (await this.taxonomyService.hasValue(kind, value))
+    );
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    const [kind] = args.constraints as [TaxonomyKind];
+    return `${args.property} must be a ${kind} listed by GET /taxonomy/${kind}`;
+  }
+}
+
+/** The value (or with { each: true } every value) must exist in the taxonomy */
+export function IsTaxonomyValue(
+  kind: TaxonomyKind,
+  options?: ValidationOptions,
+): PropertyDecorator {
+  return (target: object, propertyName: string) => {
+    registerDecorator({
+      target: target.constructor,
+      propertyName,
+      options,
+      constraints: [kind],
+      validator: TaxonomyValueConstraint,
+    });
+  };
+}
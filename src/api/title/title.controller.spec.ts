@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { TitleController } from './title.controller';
+import { TitleService } from './title.service';
+import { RecordCategory, RecordFormat } from '../record/record.enum';
+
+describe('TitleController', () => {
+  let controller: TitleController;
+  let service: jest.Mocked<TitleService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TitleController],
+      providers: [{ provide: TitleService, useValue: { findById: jest.fn() } }],
+    }).compile();
+
+    controller = module.get<TitleController>(TitleController);
+    service = module.get(TitleService);
+  });
+
+  describe('findById', () => {
+    it('should return the title with its variants', async () => {
+      const title = {
+        _id: '65f1f77bcf86cd7994390abc',
+        artist: 'The Beatles',
+        album: 'Abbey Road',
+        variants: [
+          {
+            _id: '507f1f77bcf86cd799439011',
+            format: RecordFormat.VINYL,
+            category: RecordCategory.ROCK,
+            price: 25,
+            qty: 10,
+          },
+        ],
+        totalQty: 10,
+      };
+      service.findById.mockResolvedValue(title as any);
+
+      const result = await controller.findById('65f1f77bcf86cd7994390abc');
+
+      expect(result).toEqual(title);
+      expect(service.findById).toHaveBeenCalledWith('65f1f77bcf86cd7994390abc');
+    });
+
+    it('should propagate NotFoundException', async () => {
+      service.findById.mockRejectedValue(new NotFoundException());
+
+      await expect(controller.findById('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
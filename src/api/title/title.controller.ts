@@ -0,0 +1,19 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { TitleService } from './title.service';
+import { TitleWithVariants } from './title.repository';
+
+@Controller('titles')
+export class TitleController {
+  constructor(private readonly titleService: TitleService) {}
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a title with all its format variants and their stock',
+  })
+  @ApiResponse({ status: 200, description: 'Title found' })
+  @ApiResponse({ status: 404, description: 'Title not found' })
+  async findById(@Param('id') id: string): Promise<TitleWithVariants> {
+    return await this.titleService.findById(id);
+  }
+}
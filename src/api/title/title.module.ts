@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TitleController } from './title.controller';
+import { TitleService } from './title.service';
+import { TitleRepository } from './title.repository';
+import { TitleSchema } from './title.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: 'Title', schema: TitleSchema }]),
+  ],
+  controllers: [TitleController],
+  providers: [TitleService, TitleRepository],
+  exports: [TitleService],
+})
+export class TitleModule {}
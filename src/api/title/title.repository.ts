@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Title } from './title.schema';
+
+export interface TitleIdentity {
+  artistKey: string;
+  albumKey: string;
+  artist: string;
+  album: string;
+}
+
+export interface TitleVariant {
+  _id: Types.ObjectId;
+  format: string;
+  mediaCondition: string;
+  sleeveCondition: string;
+  category: string;
+  price: number;
+  currency: string;
+  qty: number;
+  mbid?: string;
+}
+
+export interface TitleWithVariants {
+  _id: Types.ObjectId;
+  artist: string;
+  album: string;
+  variants: TitleVariant[];
+  /** Sum of qty over all variants */
+  totalQty: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+@Injectable()
+export class TitleRepository {
+  constructor(
+    @InjectModel('Title') private readonly titleModel: Model<Title>,
+  ) {}
+
+  /**
+   * Creates the titles that do not exist yet and returns all of them with
+   * their keys. Upserts keep concurrent writers from creating duplicates;
+   * existing titles keep their original spelling.
+   */
+  async upsertMany(identities: TitleIdentity[]): Promise<Title[]> {
+    if (!identities.length) return [];
+
+    await this.titleModel.bulkWrite(
+      identities.map(({ artistKey, albumKey, artist, album }) => ({
+        updateOne: {
+          filter: { artistKey, albumKey },
+          update: { $setOnInsert: { artist, album } },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+
+    return await this.titleModel
+      .find({
+        $or: identities.map(({ artistKey, albumKey }) => ({
+          artistKey,
+          albumKey,
+        })),
+      })
+      .select('+artistKey +albumKey')
+      .exec();
+  }
+
+  // Variants are the live records of the title (formats and graded copies),
+  // grouped by format
+  async findWithVariants(id: string): Promise<TitleWithVariants | null> {
+    const [title] = await this.titleModel
+      .aggregate<TitleWithVariants>([
+        { $match: { _id: new Types.ObjectId(id) } },
+        {
+          $lookup: {
+            from: 'records',
+            let: { titleId: '$_id' },
+            pipeline: [
+              {
+                $match: {
+                  $expr: { $eq: ['$titleId', '$$titleId'] },
+                  deletedAt: { $exists: false },
+                },
+              },
+              { $sort: { format: 1, _id: 1 } },
+              {
+                $project: {
+                  format: 1,
+                  mediaCondition: 1,
+                  sleeveCondition: 1,
+                  category: 1,
+                  price: 1,
+                  currency: 1,
+                  qty: 1,
+                  mbid: 1,
+                },
+              },
+            ],
+            as: 'variants',
+          },
+        },
+        { $addFields: { totalQty: { $sum: '$variants.qty' } } },
+        { $project: { artistKey: 0, albumKey: 0, __v: 0 } },
+      ])
+      .exec();
+
+    return title ?? null;
+  }
+}
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * An album as released by an artist, grouping its format variants (records
+ * that share artist and album but each have their own format, price and qty).
+ */
+@Schema({ timestamps: true })
+export class Title extends Document {
+  @Prop({ required: true })
+  artist: string;
+
+  @Prop({ required: true })
+  album: string;
+
+  // Case- and accent-folded copies, compared like the record identity
+  @Prop({ required: true, select: false })
+  artistKey: string;
+
+  @Prop({ required: true, select: false })
+  albumKey: string;
+}
+
+export const TitleSchema = SchemaFactory.createForClass(Title);
+
+// One title per artist + album, whatever the case or accents
+TitleSchema.index({ artistKey: 1, albumKey: 1 }, { unique: true });
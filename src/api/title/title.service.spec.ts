@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { TitleService } from './title.service';
+import { TitleRepository } from './title.repository';
+
+describe('TitleService', () => {
+  let service: TitleService;
+  let titleRepository: jest.Mocked<TitleRepository>;
+
+  const abbeyRoadId = new Types.ObjectId('65f1f77bcf86cd7994390abc');
+  const letItBeId = new Types.ObjectId('65f1f77bcf86cd7994390abd');
+
+  beforeEach(async () => {
+    const mockTitleRepository = {
+      upsertMany: jest.fn(),
+      findWithVariants: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TitleService,
+        { provide: TitleRepository, useValue: mockTitleRepository },
+      ],
+    }).compile();
+
+    service = module.get<TitleService>(TitleService);
+    titleRepository = module.get(TitleRepository);
+  });
+
+  describe('findById', () => {
+    it('should return a title with its variants', async () => {
+      const title = {
+        _id: abbeyRoadId,
+        artist: 'The Beatles',
+        album: 'Abbey Road',
+        variants: [],
+        totalQty: 0,
+      };
+      titleRepository.findWithVariants.mockResolvedValue(title as any);
+
+      const result = await service.findById(abbeyRoadId.toString());
+
+      expect(result).toEqual(title);
+      expect(titleRepository.findWithVariants).toHaveBeenCalledWith(
+        abbeyRoadId.toString(),
+      );
+    });
+
+    it('should throw NotFoundException for an unknown title', async () => {
+      titleRepository.findWithVariants.mockResolvedValue(null);
+
+      await expect(service.findById(abbeyRoadId.toString())).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw NotFoundException for an invalid id', async () => {
+      await expect(service.findById('not-an-id')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(titleRepository.findWithVariants).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveTitleIds', () => {
+    it('should upsert each title once and return ids in input order', async () => {
+      titleRepository.upsertMany.mockResolvedValue([
+        {
+          _id: abbeyRoadId,
+          artistKey: 'the beatles',
+          albumKey: 'abbey road',
+        },
+        { _id: letItBeId, artistKey: 'the beatles', albumKey: 'let it be' },
+      ] as any);
+
+      const result = await service.resolveTitleIds([
+        { artist: 'The Beatles', album: 'Abbey Road' },
+        { artist: 'The Beatles', album: 'Let It Be' },
+        { artist: 'THE BEATLES', album: 'abbey road' },
+      ]);
+
+      expect(result).toEqual([abbeyRoadId, letItBeId, abbeyRoadId]);
+      expect(titleRepository.upsertMany).toHaveBeenCalledWith([
+        {
+          artistKey: 'the beatles',
+          albumKey: 'abbey road',
+          artist: 'The Beatles',
+          album: 'Abbey Road',
+        },
+        {
+          artistKey: 'the beatles',
+          albumKey: 'let it be',
+          artist: 'The Beatles',
+          album: 'Let It Be',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  TitleIdentity,
+  TitleRepository,
+  TitleWithVariants,
+} from './title.repository';
+import { normalizeText } from '../../common/utils/normalize-text.util';
+
+@Injectable()
+export class TitleService {
+  constructor(private readonly titleRepository: TitleRepository) {}
+
+  async findById(id: string): Promise<TitleWithVariants> {
+    const title = Types.ObjectId.isValid(id)
+      ? await this.titleRepository.findWithVariants(id)
+      : null;
+    if (!title) {
+      throw new NotFoundException(`Title with ID ${id} not found`);
+    }
+    return title;
+  }
+
+  async resolveTitleId(record: {
+    artist: string;
+    album: string;
+  }): Promise<Types.ObjectId> {
+    const [titleId] = await this.resolveTitleIds([record]);
+    return titleId;
+  }
+
+  /**
+   * Title ids for the given artist/album pairs, in the same order. Titles are
+   * created on first use, so a record never waits on a separate setup step.
+   */
+  async resolveTitleIds(
+    records: { artist: string; album: string }[],
+  ): Promise<Types.ObjectId[]> {
+    const identities = new Map<string, TitleIdentity>();
+    for (const { artist, album } of records) {
+      const identity = {
+        artistKey: normalizeText(artist),
+        albumKey: normalizeText(album),
+        artist,
+        album,
+      };
+      const key = this.identityKey(identity);
+      if (!identities.has(key)) identities.set(key, identity);
+    }
+
+    const titles = await this.titleRepository.upsertMany([
+      ...identities.values(),
+    ]);
+    const titleIds = new Map(
+      titles.map((title) => [
+        this.identityKey(title),
+        title._id as Types.ObjectId,
+      ]),
+    );
+
+    return records.map(({ artist, album }) =>
+      titleIds.get(
+        this.identityKey({
+          artistKey: normalizeText(artist),
+          albumKey: normalizeText(album),
+        }),
+      ),
+    );
+  }
+
+  private identityKey(title: { artistKey: string; albumKey: string }): string {
+    return `${title.artistKey}\u0000${title.albumKey}`;
+  }
+}
@@ -5,4 +5,33 @@ dotenv.config();
 export const AppConfig = {
   mongoUrl: process.env.MONGO_URL || 'mongodb://localhost:27017/records',
   port: process.env.PORT || 3000,
+  // Soft-deleted records older than this are removed for good by purge:records
+  recordTrashRetentionDays:
+    Number(process.env.RECORD_TRASH_RETENTION_DAYS) || 30,
+  // 'memory' keeps the cache per process; 'redis' shares it between instances
+  cacheStore: process.env.CACHE_STORE || 'memory',
+  cacheUrl: process.env.CACHE_URL || 'redis://localhost:6379',
+  cacheTtlSeconds: Number(process.env.CACHE_TTL_SECONDS) || 60,
+  // Only applies to the memory store; Redis evicts by its own maxmemory policy
+  cacheMaxEntries: Number(process.env.CACHE_MAX_ENTRIES) || 100,
+  // ISO 4217 code record prices are stored in; other currencies go through
+  // the exchange-rate table
+  baseCurrency: (process.env.BASE_CURRENCY || 'EUR').toUpperCase(),
+  // Root directory of uploaded files (record covers)
+  storageDir: process.env.STORAGE_DIR || 'storage',
+  // Stock level records are reordered at, unless set on the record or its
+  // category; the default only flags records that sold out
+  reorderThreshold: Number(process.env.REORDER_THRESHOLD) || 0,
+  // 'log' writes low-stock alerts to the application log; 'webhook' POSTs them
+  stockAlertNotifier: process.env.STOCK_ALERT_NOTIFIER || 'log',
+  stockAlertWebhookUrl:
+    process.env.STOCK_ALERT_WEBHOOK_URL || 'http://localhost:4000/stock-alerts',
+  // Places stock is kept, comma-separated; the first one takes the stock of
+  // new records and of orders and adjustments that name no location
+  stockLocations: (
+    process.env.STOCK_LOCATIONS || 'shop-floor,back-room,warehouse'
+  )
+    .split(',')
+    .map((location) => location.trim())
+    .filter(Boolean),
 };
@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { RecordModule } from './api/record/record.module';
 import { OrderModule } from './api/order/order.module';
+import { TitleModule } from './api/title/title.module';
+import { TaxonomyModule } from './api/taxonomy/taxonomy.module';
+import { ExchangeRateModule } from './api/exchange-rate/exchange-rate.module';
+import { PromotionModule } from './api/promotion/promotion.module';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AppConfig } from './app.config';
 
@@ -8,6 +12,10 @@ import { AppConfig } from './app.config';
   imports: [
     MongooseModule.forRoot(AppConfig.mongoUrl),
     RecordModule,
+    TitleModule,
+    TaxonomyModule,
+    ExchangeRateModule,
+    PromotionModule,
     OrderModule,
   ],
   controllers: [],
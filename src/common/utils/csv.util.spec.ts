@@ -0,0 +1,42 @@
+import { parseCsv, toCsvLine, unguardCsvCell } from './csv.util';
+
+describe('csv util', () => {
+  describe('toCsvLine', () => {
+    it('should quote cells with commas, quotes and newlines', () => {
+      expect(toCsvLine(['a,b', 'say "hi"', 'two\nlines', 3, null])).toBe(
+        '"a,b","say ""hi""","two\nlines",3,',
+      );
+    });
+
+    it('should guard text cells that spreadsheets read as formulas', () => {
+      expect(toCsvLine(['=SUM(A1)', '-M-', -5])).toBe(`'=SUM(A1),'-M-,-5`);
+    });
+
+    it('should write dates as ISO strings', () => {
+      expect(toCsvLine([new Date('2024-01-01T00:00:00.000Z')])).toBe(
+        '2024-01-01T00:00:00.000Z',
+      );
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted cells, CRLF line endings and skip blank lines', () => {
+      const text =
+        '\uFEFFartist,album\r\n"Crosby, Stills","A ""B""\nC"\r\n\r\nX,Y';
+
+      expect(parseCsv(text)).toEqual([
+        ['artist', 'album'],
+        ['Crosby, Stills', 'A "B"\nC'],
+        ['X', 'Y'],
+      ]);
+    });
+
+    it('should round-trip a line written by toCsvLine', () => {
+      const values = ['=1+1', 'a,"b"', 'plain'];
+
+      const [cells] = parseCsv(toCsvLine(values));
+
+      expect(cells.map(unguardCsvCell)).toEqual(values);
+    });
+  });
+});
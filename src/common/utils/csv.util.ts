@@ -0,0 +1,81 @@
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Serializes one CSV line (RFC 4180). Text cells that a spreadsheet would
+ * read as a formula are prefixed with a quote to prevent CSV injection.
+ */
+export function toCsvLine(values: unknown[]): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return '';
+
+      let cell = value instanceof Date ? value.toISOString() : String(value);
+      if (typeof value === 'string' && FORMULA_PREFIXES.includes(cell[0])) {
+        cell = `'${cell}`;
+      }
+
+      return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    })
+    .join(',');
+}
+
+/**
+ * Reverses the formula guard added by toCsvLine, so exported files can be
+ * imported again unchanged.
+ */
+export function unguardCsvCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIXES.includes(cell[1])
+    ? cell.slice(1)
+    : cell;
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, embedded commas
+ * and newlines) into rows of cells. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Strip a UTF-8 BOM, which spreadsheet exports commonly add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length) endRow();
+
+  return rows;
+}
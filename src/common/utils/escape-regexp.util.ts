@@ -0,0 +1,7 @@
+/**
+ * Escapes user input so it is matched literally when embedded in a RegExp,
+ * preventing regex injection and catastrophic backtracking (ReDoS).
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
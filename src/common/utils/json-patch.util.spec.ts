@@ -0,0 +1,66 @@
+import {
+  JsonPatchError,
+  JsonPatchTestFailedError,
+  applyJsonPatch,
+  applyMergePatch,
+} from './json-patch.util';
+
+describe('json patch util', () => {
+  describe('applyMergePatch', () => {
+    it('should set, remove and merge members without touching the target', () => {
+      const target = { a: 1, b: 2, nested: { x: 1, y: 2 } };
+
+      expect(
+        applyMergePatch(target, { a: 3, b: null, nested: { y: null, z: 3 } }),
+      ).toEqual({ a: 3, nested: { x: 1, z: 3 } });
+      expect(target).toEqual({ a: 1, b: 2, nested: { x: 1, y: 2 } });
+    });
+
+    it('should replace the target when the patch is not an object', () => {
+      expect(applyMergePatch({ a: 1 }, ['x'])).toEqual(['x']);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    const document = { price: 25, tags: ['a', 'b'], 'a/b': 1 };
+
+    it('should apply add, remove, replace, move and copy in order', () => {
+      expect(
+        applyJsonPatch(document, [
+          { op: 'replace', path: '/price', value: 30 },
+          { op: 'add', path: '/tags/-', value: 'c' },
+          { op: 'remove', path: '/tags/0' },
+          { op: 'copy', from: '/price', path: '/oldPrice' },
+          { op: 'move', from: '/a~1b', path: '/ab' },
+        ]),
+      ).toEqual({ price: 30, tags: ['b', 'c'], oldPrice: 30, ab: 1 });
+      expect(document.price).toBe(25);
+    });
+
+    it('should pass a matching test and fail a mismatching one', () => {
+      expect(
+        applyJsonPatch(document, [
+          { op: 'test', path: '/tags', value: ['a', 'b'] },
+        ]),
+      ).toEqual(document);
+      expect(() =>
+        applyJsonPatch(document, [{ op: 'test', path: '/price', value: 20 }]),
+      ).toThrow(JsonPatchTestFailedError);
+    });
+
+    it('should reject malformed operations and missing paths', () => {
+      expect(() => applyJsonPatch(document, { op: 'add' })).toThrow(
+        JsonPatchError,
+      );
+      expect(() =>
+        applyJsonPatch(document, [{ op: 'increment', path: '/price' }]),
+      ).toThrow('Operation 0: unknown op "increment"');
+      expect(() =>
+        applyJsonPatch(document, [{ op: 'remove', path: '/mbid' }]),
+      ).toThrow(JsonPatchError);
+      expect(() =>
+        applyJsonPatch(document, [{ op: 'add', path: '/tags/5', value: 1 }]),
+      ).toThrow(JsonPatchError);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/** A patch document that is malformed or cannot be applied to the target */
+export class JsonPatchError extends Error {}
+
+/** A JSON Patch `test` operation did not match the target */
+export class JsonPatchTestFailedError extends JsonPatchError {}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+type Container = { [key: string]: unknown } | unknown[];
+
+const { hasOwnProperty } = Object.prototype;
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Applies a JSON Merge Patch (RFC 7386): null removes a member, objects are
+ * merged recursively and anything else replaces the target value.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return structuredClone(patch);
+
+  const result = isObject(target) ? structuredClone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+}
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a copy of the document. Operations are
+ * all-or-nothing: the first failing one throws and the input is left as is.
+ */
+export function applyJsonPatch<T>(document: T, operations: unknown): T {
+  if (!Array.isArray(operations)) {
+    throw new JsonPatchError('A JSON Patch must be an array of operations');
+  }
+
+  let result: unknown = structuredClone(document);
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, toOperation(operation));
+    } catch (error) {
+      error.message = `Operation ${index}: ${error.message}`;
+      throw error;
+    }
+  });
+  return result as T;
+}
+
+function toOperation(operation: unknown): JsonPatchOperation {
+  if (!isObject(operation) || typeof operation.path !== 'string') {
+    throw new JsonPatchError('must be an object with a string "path"');
+  }
+  switch (operation.op) {
+    case 'add':
+    case 'replace':
+    case 'test':
+      if (!('value' in operation)) {
+        throw new JsonPatchError(`"${operation.op}" requires a "value"`);
+      }
+      break;
+    case 'move':
+    case 'copy':
+      if (typeof operation.from !== 'string') {
+        throw new JsonPatchError(`"${operation.op}" requires a "from" path`);
+      }
+      break;
+    case 'remove':
+      break;
+    default:
+      throw new JsonPatchError(`unknown op "${operation.op}"`);
+  }
+  return operation as unknown as JsonPatchOperation;
+}
+
+function applyOperation(
+  document: unknown,
+  operation: JsonPatchOperation,
+): unknown {
+  const { op, path, value, from } = operation;
+
+  switch (op) {
+    case 'add':
+      return add(document, path, structuredClone(value));
+    case 'remove':
+      return remove(document, path);
+    case 'replace':
+      return add(remove(document, path), path, structuredClone(value));
+    case 'move': {
+      if (path.startsWith(`${from}/`)) {
+        throw new JsonPatchError(`cannot move "${from}" into itself`);
+      }
+      const moved = get(document, from);
+      return add(remove(document, from), path, moved);
+    }
+    case 'copy':
+      return add(document, path, structuredClone(get(document, from)));
+    case 'test':
+      if (!isDeepEqual(get(document, path), value)) {
+        throw new JsonPatchTestFailedError(`test failed at "${path}"`);
+      }
+      return document;
+  }
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// Resolves the container holding the last token of the pointer
+function resolveParent(
+  document: unknown,
+  pointer: string,
+): { parent: Container; key: string } {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop();
+  let parent: unknown = document;
+
+  for (const token of tokens) {
+    parent = hasMember(parent, token) ? parent[token] : undefined;
+  }
+  if (typeof parent !== 'object' || parent === null) {
+    throw new JsonPatchError(`path "${pointer}" does not exist`);
+  }
+  return { parent: parent as Container, key };
+}
+
+function hasMember(container: unknown, key: string): boolean {
+  if (Array.isArray(container)) {
+    return /^(0|[1-9]\d*)$/.test(key) && Number(key) < container.length;
+  }
+  return isObject(container) && hasOwnProperty.call(container, key);
+}
+
+function get(document: unknown, pointer: string): unknown {
+  if (pointer === '') return document;
+
+  const { parent, key } = resolveParent(document, pointer);
+  if (!hasMember(parent, key)) {
+    throw new JsonPatchError(`path "${pointer}" does not exist`);
+  }
+  return parent[key];
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+
+  const { parent, key } = resolveParent(document, pointer);
+  if (!Array.isArray(parent)) {
+    parent[key] = value;
+    return document;
+  }
+
+  const index = key === '-' ? parent.length : Number(key);
+  if (!/^(0|[1-9]\d*|-)$/.test(key) || index > parent.length) {
+    throw new JsonPatchError(`invalid array index in "${pointer}"`);
+  }
+  parent.splice(index, 0, value);
+  return document;
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    throw new JsonPatchError('cannot remove the whole document');
+  }
+
+  const { parent, key } = resolveParent(document, pointer);
+  if (!hasMember(parent, key)) {
+    throw new JsonPatchError(`path "${pointer}" does not exist`);
+  }
+  if (Array.isArray(parent)) parent.splice(Number(key), 1);
+  else delete parent[key];
+  return document;
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) => hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]),
+      )
+    );
+  }
+  return false;
+}
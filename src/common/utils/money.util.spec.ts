@@ -0,0 +1,21 @@
+import { convertMoney, currencyFractionDigits, roundMoney } from './money.util';
+
+describe('money', () => {
+  it('should know the minor unit of a currency', () => {
+    expect(currencyFractionDigits('EUR')).toBe(2);
+    expect(currencyFractionDigits('JPY')).toBe(0);
+    expect(currencyFractionDigits('KWD')).toBe(3);
+  });
+
+  it('should round halves away from zero without float drift', () => {
+    expect(roundMoney(1.005, 'EUR')).toBe(1.01);
+    expect(roundMoney(-1.005, 'EUR')).toBe(-1.01);
+    expect(roundMoney(1234.5, 'JPY')).toBe(1235);
+  });
+
+  it('should convert and round to the target currency', () => {
+    expect(convertMoney(25, 0.8567, 'GBP')).toBe(21.42);
+    expect(convertMoney(25, 162.37, 'JPY')).toBe(4059);
+    expect(convertMoney(0, 1.08, 'USD')).toBe(0);
+  });
+});
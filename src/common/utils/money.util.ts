@@ -0,0 +1,27 @@
+/** Decimal places of an ISO 4217 currency: 2 for EUR, 0 for JPY, 3 for KWD */
+export function currencyFractionDigits(currency: string): number {
+  return new Intl.NumberFormat('en', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions().maximumFractionDigits;
+}
+
+/**
+ * Rounds an amount to the smallest unit of its currency, halves away from
+ * zero. Trimming to 15 significant digits first drops the float error that
+ * would otherwise round 1.005 (100.49999... cents) down.
+ */
+export function roundMoney(amount: number, currency: string): number {
+  const scale = 10 ** currencyFractionDigits(currency);
+  const units = Number((Math.abs(amount) * scale).toPrecision(15));
+  return (Math.sign(amount) * Math.round(units)) / scale;
+}
+
+/** Converts a base-currency amount at `rate` units of `currency` per unit */
+export function convertMoney(
+  amount: number,
+  rate: number,
+  currency: string,
+): number {
+  return roundMoney(amount * rate, currency);
+}
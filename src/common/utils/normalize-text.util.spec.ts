@@ -0,0 +1,17 @@
+import { normalizeText } from './normalize-text.util';
+
+describe('normalizeText', () => {
+  it('should fold case and accents', () => {
+    expect(normalizeText('Björk')).toBe('bjork');
+    expect(normalizeText('Sigur Rós')).toBe('sigur ros');
+  });
+
+  it('should fold letters without combining marks', () => {
+    expect(normalizeText('Mø')).toBe('mo');
+    expect(normalizeText('Die Ärzte Straße')).toBe('die arzte strasse');
+  });
+
+  it('should collapse and trim whitespace', () => {
+    expect(normalizeText('  The   Beatles ')).toBe('the beatles');
+  });
+});
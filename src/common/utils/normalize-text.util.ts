@@ -0,0 +1,23 @@
+// Letters that carry no combining mark to strip under Unicode decomposition
+const FOLDED_LETTERS: { [letter: string]: string } = {
+  ø: 'o',
+  æ: 'ae',
+  œ: 'oe',
+  ß: 'ss',
+  ł: 'l',
+  đ: 'd',
+};
+
+/**
+ * Folds text to a case- and accent-insensitive key, so "Björk" and "bjork",
+ * or "The Beatles" and "the  beatles", compare equal.
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[øæœßłđ]/g, (letter) => FOLDED_LETTERS[letter])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,10 @@
+/**
+ * class-transformer @Transform for boolean query parameters: query strings
+ * carry booleans as text, and Boolean('false') is true. Anything else is
+ * passed through for @IsBoolean to reject.
+ */
+export const toBoolean = ({ value }: { value: unknown }) => {
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  return value;
+};
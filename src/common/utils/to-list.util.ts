@@ -0,0 +1,12 @@
+/**
+ * class-transformer @Transform for comma-separated query parameters
+ * (e.g. facets=format,price): splits text into trimmed, non-empty items.
+ * Anything else is passed through for @IsArray to check.
+ */
+export const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
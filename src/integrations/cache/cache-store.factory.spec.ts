@@ -0,0 +1,44 @@
+import { Keyv } from 'keyv';
+import { createCacheOptions, createCacheStore } from './cache-store.factory';
+import { MemoryStore } from './memory.store';
+import { RedisStore } from './redis.store';
+
+describe('cache store factory', () => {
+  const config = {
+    cacheStore: 'memory',
+    cacheUrl: 'redis://cache.internal:6380',
+    cacheTtlSeconds: 30,
+    cacheMaxEntries: 2,
+  };
+
+  it('should build cache options with the TTL in milliseconds', () => {
+    const options = createCacheOptions(config);
+
+    expect(options.ttl).toBe(30000);
+    expect(options.stores[0]).toBeInstanceOf(Keyv);
+    expect((options.stores[0] as Keyv).store).toBeInstanceOf(MemoryStore);
+  });
+
+  it('should select the Redis store', () => {
+    const store = createCacheStore({ ...config, cacheStore: 'redis' });
+
+    expect(store).toBeInstanceOf(RedisStore);
+    expect((store as RedisStore).opts.url).toBe('redis://cache.internal:6380');
+  });
+
+  it('should reject an unknown store', () => {
+    expect(() => createCacheStore({ ...config, cacheStore: 'disk' })).toThrow(
+      'Unknown cache store "disk", expected one of: memory, redis',
+    );
+  });
+
+  it('should evict the least recently used entry from the memory store', () => {
+    const store = createCacheStore(config) as MemoryStore;
+    store.set('a', 1);
+    store.set('b', 2);
+    store.get('a');
+    store.set('c', 3);
+
+    expect([...store.keys()]).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,44 @@
+import { CacheModuleOptions } from '@nestjs/cache-manager';
+import { Keyv } from 'keyv';
+import { AppConfig } from '../../app.config';
+import { MemoryStore } from './memory.store';
+import { RedisStore } from './redis.store';
+
+export const CACHE_STORES = ['memory', 'redis'] as const;
+
+export type CacheStoreType = (typeof CACHE_STORES)[number];
+
+export interface CacheStoreConfig {
+  cacheStore: string;
+  cacheUrl: string;
+  cacheTtlSeconds: number;
+  cacheMaxEntries: number;
+}
+
+/** CacheModule options for the store selected through AppConfig */
+export function createCacheOptions(
+  config: CacheStoreConfig = AppConfig,
+): CacheModuleOptions {
+  // cache-manager v7 takes milliseconds
+  const ttl = config.cacheTtlSeconds * 1000;
+
+  return {
+    stores: [new Keyv({ store: createCacheStore(config), ttl })],
+    ttl,
+  };
+}
+
+export function createCacheStore(
+  config: CacheStoreConfig,
+): MemoryStore | RedisStore {
+  switch (config.cacheStore as CacheStoreType) {
+    case 'memory':
+      return new MemoryStore(config.cacheMaxEntries);
+    case 'redis':
+      return new RedisStore({ url: config.cacheUrl });
+    default:
+      throw new Error(
+        `Unknown cache store "${config.cacheStore}", expected one of: ${CACHE_STORES.join(', ')}`,
+      );
+  }
+}
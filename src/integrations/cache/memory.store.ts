@@ -0,0 +1,28 @@
+/**
+ * In-process cache store: a Map that Keyv can use directly, bounded to
+ * maxEntries by evicting the least recently used entry.
+ */
+export class MemoryStore<K = string, V = unknown> extends Map<K, V> {
+  constructor(private readonly maxEntries: number) {
+    super();
+  }
+
+  get(key: K): V | undefined {
+    if (!super.has(key)) return undefined;
+
+    // Re-insert so the entry becomes the most recently used
+    const value = super.get(key);
+    super.delete(key);
+    super.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): this {
+    super.delete(key);
+    super.set(key, value);
+    if (this.size > this.maxEntries) {
+      super.delete(this.keys().next().value);
+    }
+    return this;
+  }
+}
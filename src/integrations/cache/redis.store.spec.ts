@@ -0,0 +1,200 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+import { Keyv } from 'keyv';
+import {
+  RedisReplyError,
+  RedisStore,
+  encodeRedisCommand,
+  parseRedisReply,
+} from './redis.store';
+
+// Local stand-in for a Redis server: the handful of commands the store uses
+function startStandIn(password?: string) {
+  const data = new Map<string, { value: string; expires?: number }>();
+  const commands: string[][] = [];
+  let silent = false;
+
+  const reply = (value: unknown): string => {
+    if (value === null) return '$-1\r\n';
+    if (typeof value === 'number') return `:${value}\r\n`;
+    if (Array.isArray(value))
+      return `*${value.length}\r\n${value.map(reply).join('')}`;
+    return `$${Buffer.byteLength(String(value))}\r\n${value}\r\n`;
+  };
+
+  const run = ([name, ...args]: string[], authed: boolean): string => {
+    if (password && !authed && name !== 'AUTH') return '-NOAUTH\r\n';
+    const live = (key: string) => {
+      const entry = data.get(key);
+      return entry && (!entry.expires || entry.expires > Date.now())
+        ? entry
+        : undefined;
+    };
+    switch (name) {
+      case 'AUTH':
+        return args[0] === password ? '+OK\r\n' : '-WRONGPASS\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET':
+        return reply(live(args[0])?.value ?? null);
+      case 'SET':
+        data.set(args[0], {
+          value: args[1],
+          expires: args[2] === 'PX' ? Date.now() + Number(args[3]) : undefined,
+        });
+        return '+OK\r\n';
+      case 'DEL':
+        return reply(args.filter((key) => data.delete(key)).length);
+      case 'EXISTS':
+        return reply(live(args[0]) ? 1 : 0);
+      case 'SCAN': {
+        const prefix = args[2].replace(/\*$/, '');
+        return reply([
+          '0',
+          [...data.keys()].filter((k) => k.startsWith(prefix)),
+        ]);
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server: Server = createServer((socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+    let authed = false;
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: ReturnType<typeof parseRedisReply>;
+      while ((parsed = parseRedisReply(buffer))) {
+        buffer = buffer.subarray(parsed.end);
+        const command = parsed.reply as string[];
+        commands.push(command);
+        if (command[0] === 'AUTH') authed = command[1] === password;
+        if (!silent) socket.write(run(command, authed));
+      }
+    });
+  });
+
+  return {
+    data,
+    commands,
+    mute: () => (silent = true),
+    listen: () =>
+      new Promise<string>((resolve) =>
+        server.listen(0, '127.0.0.1', () =>
+          resolve(
+            `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          ),
+        ),
+      ),
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('RedisStore', () => {
+  let standIn: ReturnType<typeof startStandIn>;
+  let store: RedisStore;
+
+  afterEach(async () => {
+    await store?.disconnect();
+    await standIn.close();
+  });
+
+  const setup = async (password?: string, userInfo = '', path = '') => {
+    standIn = startStandIn(password);
+    const url = await standIn.listen();
+    store = new RedisStore({
+      url: `${url.replace('//', `//${userInfo}`)}${path}`,
+      timeout: 200,
+    });
+  };
+
+  it('should get, set with expiry, check and delete keys', async () => {
+    await setup();
+
+    expect(await store.get('missing')).toBeUndefined();
+    expect(await store.set('a', 'one', 1500)).toBe(true);
+    expect(await store.get('a')).toBe('one');
+    expect(await store.has('a')).toBe(true);
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect(standIn.commands).toContainEqual(['SET', 'a', 'one', 'PX', '1500']);
+  });
+
+  it('should only clear keys in its namespace', async () => {
+    await setup();
+    standIn.data.set('other:x', { value: '1' });
+    store.namespace = 'keyv';
+    await store.set('keyv:a', '1');
+    await store.set('keyv:b', '2');
+
+    await store.clear();
+
+    expect([...standIn.data.keys()]).toEqual(['other:x']);
+  });
+
+  it('should round-trip values through Keyv', async () => {
+    await setup();
+    const keyv = new Keyv({ store });
+    const page = { data: [{ artist: 'Björk', price: 25 }], total: 1 };
+
+    await keyv.set('records:list', page, 60000);
+
+    expect(await keyv.get('records:list')).toEqual(page);
+  });
+
+  it('should authenticate and select the database from the URL', async () => {
+    await setup('secret', ':secret@', '/2');
+
+    await store.set('a', '1');
+
+    expect(standIn.commands.slice(0, 2)).toEqual([
+      ['AUTH', 'secret'],
+      ['SELECT', '2'],
+    ]);
+  });
+
+  it('should reject error replies and reconnect afterwards', async () => {
+    await setup('secret', ':wrong@');
+
+    await expect(store.get('a')).rejects.toThrow(RedisReplyError);
+    await expect(store.get('a')).rejects.toThrow('WRONGPASS');
+    expect(standIn.commands.filter(([name]) => name === 'AUTH')).toHaveLength(
+      2,
+    );
+  });
+
+  it('should give up on a server that does not answer', async () => {
+    await setup();
+    standIn.mute();
+
+    await expect(store.get('a')).rejects.toThrow(
+      'Cache did not answer within 200ms',
+    );
+  });
+
+  it('should fail fast when nothing listens on the URL', async () => {
+    await setup();
+    await standIn.close();
+
+    await expect(store.get('a')).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
+
+describe('redis protocol', () => {
+  it('should encode commands as arrays of bulk strings', () => {
+    expect(encodeRedisCommand(['SET', 'k', 'é'])).toBe(
+      '*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n',
+    );
+  });
+
+  it('should parse nested replies and wait for incomplete ones', () => {
+    const reply = Buffer.from('*2\r\n$1\r\n0\r\n*2\r\n$1\r\na\r\n$-1\r\n');
+
+    expect(parseRedisReply(reply)).toEqual({
+      reply: ['0', ['a', null]],
+      end: reply.length,
+    });
+    expect(parseRedisReply(reply.subarray(0, 12))).toBeUndefined();
+    expect(parseRedisReply(Buffer.from(':3\r\n')).reply).toBe(3);
+  });
+});
@@ -0,0 +1,248 @@
+import { EventEmitter } from 'events';
+import { Socket, connect } from 'net';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+/** An error reply (-ERR ...) from the server */
+export class RedisReplyError extends Error {}
+
+export interface RedisStoreOptions {
+  /** redis://[:password@]host[:port][/db] */
+  url: string;
+  /** Per command, connecting included; a slow cache should not stall requests */
+  timeout?: number;
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Keys per SCAN round trip when clearing a namespace
+const SCAN_COUNT = '100';
+
+/**
+ * Keyv store speaking the Redis protocol (RESP) over a single connection, so
+ * API instances can share one cache. Works with Redis and compatible servers
+ * (Valkey, KeyDB, ...). The connection is opened on first use and again after
+ * it drops; commands are pipelined and answered in order.
+ */
+export class RedisStore extends EventEmitter {
+  readonly opts: Required<RedisStoreOptions>;
+  // Set by Keyv; clear() only removes keys under it
+  namespace?: string;
+
+  private socket?: Socket;
+  private ready?: Promise<void>;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(options: RedisStoreOptions) {
+    super();
+    this.opts = { timeout: 1000, ...options };
+  }
+
+  async get<Value>(key: string): Promise<Value | undefined> {
+    const reply = await this.command('GET', key);
+    return (reply ?? undefined) as Value | undefined;
+  }
+
+  async set(key: string, value: unknown, ttl?: number): Promise<boolean> {
+    const args = ['SET', key, String(value)];
+    if (ttl) args.push('PX', String(Math.ceil(ttl)));
+    return (await this.command(...args)) === 'OK';
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.command('DEL', key)) === 1;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.command('EXISTS', key)) === 1;
+  }
+
+  async clear(): Promise<void> {
+    const match = this.namespace ? `${this.namespace}:*` : '*';
+    let cursor = '0';
+    do {
+      const [next, keys] = (await this.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        match,
+        'COUNT',
+        SCAN_COUNT,
+      )) as [string, string[]];
+      if (keys.length) await this.command('DEL', ...keys);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async disconnect(): Promise<void> {
+    this.socket?.end();
+    this.reset(new Error('Connection closed'));
+  }
+
+  async command(...args: string[]): Promise<RedisReply> {
+    const reply = await this.withTimeout(async () => {
+      await this.connect();
+      return await this.send(args);
+    });
+    if (reply instanceof RedisReplyError) throw reply;
+    return reply;
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const url = new URL(this.opts.url);
+    if (url.protocol !== 'redis:') {
+      throw new Error(`Unsupported cache URL protocol "${url.protocol}"`);
+    }
+
+    const socket = connect(Number(url.port) || 6379, url.hostname);
+    this.socket = socket;
+    socket.setNoDelay(true);
+    socket.on('data', (chunk) => this.onData(chunk));
+    socket.on('error', (error) => this.onError(socket, error));
+    socket.on('close', () => {
+      if (this.socket === socket) this.reset(new Error('Connection closed'));
+    });
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    }).then(async () => {
+      if (url.password) {
+        const auth = url.username
+          ? [decodeURIComponent(url.username), decodeURIComponent(url.password)]
+          : [decodeURIComponent(url.password)];
+        expectOk(await this.send(['AUTH', ...auth]));
+      }
+      const db = url.pathname.slice(1);
+      if (db) expectOk(await this.send(['SELECT', db]));
+    });
+    // A failed handshake must not be reused by the next command
+    this.ready.catch((error) => this.onError(socket, error));
+
+    return this.ready;
+  }
+
+  private send(args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket.write(encodeRedisCommand(args));
+    });
+  }
+
+  private async withTimeout<T>(run: () => Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(
+          `Cache did not answer within ${this.opts.timeout}ms`,
+        );
+        // Later replies can no longer be matched to their commands
+        this.socket?.destroy();
+        this.reset(error);
+        reject(error);
+      }, this.opts.timeout);
+    });
+    try {
+      return await Promise.race([run(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed: { reply: RedisReply | RedisReplyError; end: number };
+    try {
+      while ((parsed = parseRedisReply(this.buffer))) {
+        this.buffer = this.buffer.subarray(parsed.end);
+        this.pending.shift()?.resolve(parsed.reply as RedisReply);
+      }
+    } catch (error) {
+      this.socket?.destroy();
+      this.onError(this.socket, error);
+    }
+  }
+
+  private onError(socket: Socket, error: Error): void {
+    if (this.socket !== socket) return;
+    this.socket.destroy();
+    this.reset(error);
+    if (this.listenerCount('error')) this.emit('error', error);
+  }
+
+  private reset(error: Error): void {
+    this.socket = undefined;
+    this.ready = undefined;
+    this.buffer = Buffer.alloc(0);
+    for (const command of this.pending.splice(0)) command.reject(error);
+  }
+}
+
+function expectOk(reply: RedisReply): void {
+  if (reply instanceof RedisReplyError) throw reply;
+}
+
+export function encodeRedisCommand(args: string[]): string {
+  return args.reduce(
+    (command, arg) => `${command}$${Buffer.byteLength(arg)}\r\n${arg}\r\n`,
+    `*${args.length}\r\n`,
+  );
+}
+
+/**
+ * Parses one reply from the start of the buffer. Returns undefined while the
+ * reply is still incomplete; error replies are returned, not thrown, so they
+ * can be handed to the command that caused them.
+ */
+export function parseRedisReply(
+  buffer: Buffer,
+  offset = 0,
+): { reply: RedisReply | RedisReplyError; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new RedisReplyError(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return {
+        reply: buffer.toString('utf8', next, next + length),
+        end: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { reply: null, end: next };
+
+      const items: RedisReply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseRedisReply(buffer, end);
+        if (!item) return undefined;
+        items.push(item.reply as RedisReply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error(`Unexpected reply type "${type}"`);
+  }
+}
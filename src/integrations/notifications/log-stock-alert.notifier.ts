@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { StockAlert, StockAlertNotifier } from './stock-alert-notifier';
+
+/** Writes alerts to the application log as warnings */
+export class LogStockAlertNotifier implements StockAlertNotifier {
+  private readonly logger = new Logger('StockAlert');
+
+  async notify(alert: StockAlert): Promise<void> {
+    this.logger.warn(
+      `Low stock: ${alert.artist} - ${alert.album} (${alert.format}, ${alert.recordId}) has ${alert.qty} left, reorder threshold ${alert.threshold}`,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { STOCK_ALERT_NOTIFIER } from './stock-alert-notifier';
+import { createStockAlertNotifier } from './stock-alert-notifier.factory';
+
+@Module({
+  providers: [
+    {
+      provide: STOCK_ALERT_NOTIFIER,
+      useFactory: () => createStockAlertNotifier(),
+    },
+  ],
+  exports: [STOCK_ALERT_NOTIFIER],
+})
+export class NotificationModule {}
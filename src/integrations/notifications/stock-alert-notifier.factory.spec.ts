@@ -0,0 +1,101 @@
+import { AddressInfo } from 'net';
+import { createServer, IncomingMessage, Server } from 'http';
+import { createStockAlertNotifier } from './stock-alert-notifier.factory';
+import { LogStockAlertNotifier } from './log-stock-alert.notifier';
+import { WebhookStockAlertNotifier } from './webhook-stock-alert.notifier';
+
+describe('stock alert notifiers', () => {
+  const alert = {
+    recordId: '507f1f77bcf86cd799439011',
+    artist: 'Miles Davis',
+    album: 'Kind of Blue',
+    format: 'Vinyl',
+    qty: 2,
+    threshold: 3,
+    at: new Date('2025-06-01T12:00:00.000Z'),
+  };
+
+  describe('factory', () => {
+    const config = {
+      stockAlertNotifier: 'log',
+      stockAlertWebhookUrl: 'http://localhost:4000/stock-alerts',
+    };
+
+    it('should select the log notifier', () => {
+      expect(createStockAlertNotifier(config)).toBeInstanceOf(
+        LogStockAlertNotifier,
+      );
+    });
+
+    it('should select the webhook notifier with its URL', () => {
+      const notifier = createStockAlertNotifier({
+        ...config,
+        stockAlertNotifier: 'webhook',
+      });
+
+      expect(notifier).toBeInstanceOf(WebhookStockAlertNotifier);
+      expect((notifier as WebhookStockAlertNotifier).opts.url).toBe(
+        'http://localhost:4000/stock-alerts',
+      );
+    });
+
+    it('should reject an unknown notifier', () => {
+      expect(() =>
+        createStockAlertNotifier({ ...config, stockAlertNotifier: 'email' }),
+      ).toThrow(
+        'Unknown stock alert notifier "email", expected one of: log, webhook',
+      );
+    });
+  });
+
+  describe('webhook', () => {
+    let server: Server;
+    let url: string;
+    let status: number;
+    const received: { method: string; body: unknown }[] = [];
+
+    beforeEach(async () => {
+      status = 204;
+      received.length = 0;
+      server = createServer((request: IncomingMessage, response) => {
+        let body = '';
+        request.on('data', (chunk) => (body += chunk));
+        request.on('end', () => {
+          received.push({ method: request.method, body: JSON.parse(body) });
+          response.writeHead(status).end();
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should POST the alert as JSON', async () => {
+      await new WebhookStockAlertNotifier({ url }).notify(alert);
+
+      expect(received).toEqual([
+        {
+          method: 'POST',
+          body: {
+            event: 'record.low-stock',
+            ...alert,
+            at: '2025-06-01T12:00:00.000Z',
+          },
+        },
+      ]);
+    });
+
+    it('should reject when the endpoint fails', async () => {
+      status = 500;
+
+      await expect(
+        new WebhookStockAlertNotifier({ url }).notify(alert),
+      ).rejects.toThrow('status code 500');
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { AppConfig } from '../../app.config';
+import { StockAlertNotifier } from './stock-alert-notifier';
+import { LogStockAlertNotifier } from './log-stock-alert.notifier';
+import { WebhookStockAlertNotifier } from './webhook-stock-alert.notifier';
+
+export const STOCK_ALERT_NOTIFIERS = ['log', 'webhook'] as const;
+
+export type StockAlertNotifierType = (typeof STOCK_ALERT_NOTIFIERS)[number];
+
+export interface StockAlertNotifierConfig {
+  stockAlertNotifier: string;
+  stockAlertWebhookUrl: string;
+}
+
+/** The notifier selected through AppConfig */
+export function createStockAlertNotifier(
+  config: StockAlertNotifierConfig = AppConfig,
+): StockAlertNotifier {
+  switch (config.stockAlertNotifier as StockAlertNotifierType) {
+    case 'log':
+      return new LogStockAlertNotifier();
+    case 'webhook':
+      return new WebhookStockAlertNotifier({
+        url: config.stockAlertWebhookUrl,
+      });
+    default:
+      throw new Error(
+        `Unknown stock alert notifier "${config.stockAlertNotifier}", expected one of: ${STOCK_ALERT_NOTIFIERS.join(', ')}`,
+      );
+  }
+}
@@ -0,0 +1,22 @@
+/** Injection token of the StockAlertNotifier used by the app */
+export const STOCK_ALERT_NOTIFIER = 'STOCK_ALERT_NOTIFIER';
+
+/** A record whose stock just reached its reorder threshold */
+export interface StockAlert {
+  recordId: string;
+  artist: string;
+  album: string;
+  format: string;
+  qty: number;
+  threshold: number;
+  at: Date;
+}
+
+/**
+ * Delivers low-stock alerts to whoever restocks. Implementations decide the
+ * channel (log, webhook, ...); a failed delivery rejects and is logged by
+ * the caller, it never fails the order that caused it.
+ */
+export interface StockAlertNotifier {
+  notify(alert: StockAlert): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import axios from 'axios';
+import { StockAlert, StockAlertNotifier } from './stock-alert-notifier';
+
+export interface WebhookStockAlertNotifierOptions {
+  url: string;
+  /** A slow endpoint should not hold up the order that raised the alert */
+  timeout?: number;
+}
+
+/** POSTs each alert as JSON to a URL, e.g. a local purchasing service */
+export class WebhookStockAlertNotifier implements StockAlertNotifier {
+  readonly opts: Required<WebhookStockAlertNotifierOptions>;
+
+  constructor(options: WebhookStockAlertNotifierOptions) {
+    this.opts = { timeout: 2000, ...options };
+  }
+
+  async notify(alert: StockAlert): Promise<void> {
+    await axios.post(
+      this.opts.url,
+      { event: 'record.low-stock', ...alert },
+      { timeout: this.opts.timeout },
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Readable } from 'stream';
+
+/** Injection token of the FileStorage used by the app */
+export const FILE_STORAGE = 'FILE_STORAGE';
+
+/**
+ * Where uploaded files live, addressed by slash-separated keys such as
+ * `covers/<recordId>/<version>-thumb`. Implementations can keep them on local
+ * disk or in an object store without the callers changing.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  /** Null when nothing is stored under the key */
+  get(key: string): Promise<Readable | null>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,56 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalFileStorage } from './local-file.storage';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalFileStorage', () => {
+  let root: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'storage-'));
+    storage = new LocalFileStorage(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete files by key', async () => {
+    await storage.put('covers/1/a-full', Buffer.from('image'));
+
+    expect(await readAll(await storage.get('covers/1/a-full'))).toBe('image');
+
+    await storage.delete('covers/1/a-full');
+
+    expect(await storage.get('covers/1/a-full')).toBeNull();
+  });
+
+  it('should replace a file without leaving temporary files behind', async () => {
+    await storage.put('covers/1/a-full', Buffer.from('old'));
+    await storage.put('covers/1/a-full', Buffer.from('new'));
+
+    expect(await readAll(await storage.get('covers/1/a-full'))).toBe('new');
+    expect(await readdir(join(root, 'covers/1'))).toEqual(['a-full']);
+  });
+
+  it('should ignore deleting a missing key', async () => {
+    await expect(storage.delete('covers/missing')).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys outside the root', async () => {
+    await expect(storage.get('../secret')).rejects.toThrow(
+      'outside the storage root',
+    );
+    await expect(storage.put('/etc/passwd', Buffer.from(''))).rejects.toThrow(
+      'outside the storage root',
+    );
+  });
+});
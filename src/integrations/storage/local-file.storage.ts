@@ -0,0 +1,50 @@
+import { mkdir, open, rename, rm, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { FileStorage } from './file-storage';
+
+/** Stores files under a root directory, one file per key */
+export class LocalFileStorage implements FileStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  // Written to a temporary file first, so readers never see a partial file
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    const temporaryPath = `${path}.${randomUUID()}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await writeFile(temporaryPath, data);
+      await rename(temporaryPath, path);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    try {
+      const file = await open(this.resolveKey(key), 'r');
+      return file.createReadStream();
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Storage key "${key}" is outside the storage root`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AppConfig } from '../../app.config';
+import { FILE_STORAGE } from './file-storage';
+import { LocalFileStorage } from './local-file.storage';
+
+@Module({
+  providers: [
+    {
+      provide: FILE_STORAGE,
+      useFactory: () => new LocalFileStorage(AppConfig.storageDir),
+    },
+  ],
+  exports: [FILE_STORAGE],
+})
+export class StorageModule {}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { useContainer } from 'class-validator';
+import { AppModule } from '../src/app.module';
+import { RecordFormat, RecordCategory } from '../src/api/record/record.enum';
+import { AppConfig } from '../src/app.config';
+
+describe('ExchangeRateController (e2e)', () => {
+  let app: INestApplication;
+  let recordModel;
+  let orderModel;
+  let exchangeRateModel;
+  const createdRecordIds: string[] = [];
+  const createdOrderIds: string[] = [];
+  // Icelandic króna: no minor unit, so converted prices are whole numbers
+  const currency = 'ISK';
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    recordModel = app.get('RecordModel');
+    orderModel = app.get('OrderModel');
+    exchangeRateModel = app.get('ExchangeRateModel');
+    await app.init();
+  });
+
+  afterEach(async () => {
+    for (const id of createdOrderIds) {
+      await orderModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdOrderIds.length = 0;
+    for (const id of createdRecordIds) {
+      await recordModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdRecordIds.length = 0;
+    await exchangeRateModel.deleteMany({ currency }).catch(() => {});
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function createTestRecord() {
+    const response = await request(app.getHttpServer())
+      .post('/records')
+      .send({
+        artist: `Currency Test Artist ${Date.now()}`,
+        album: 'Currency Test Album',
+        price: 25,
+        qty: 5,
+        format: RecordFormat.VINYL,
+        category: RecordCategory.JAZZ,
+      })
+      .expect(201);
+    createdRecordIds.push(response.body._id);
+    return response.body;
+  }
+
+  it('should manage rates against the base currency', async () => {
+    await request(app.getHttpServer())
+      .put(`/exchange-rates/${currency.toLowerCase()}`)
+      .send({ rate: 150.5 })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get('/exchange-rates')
+      .expect(200);
+    expect(response.body.base).toBe(AppConfig.baseCurrency);
+    expect(response.body.rates).toContainEqual(
+      expect.objectContaining({ currency, rate: 150.5 }),
+    );
+
+    await request(app.getHttpServer())
+      .put(`/exchange-rates/${AppConfig.baseCurrency}`)
+      .send({ rate: 2 })
+      .expect(400);
+    await request(app.getHttpServer())
+      .put(`/exchange-rates/${currency}`)
+      .send({ rate: 0 })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .delete(`/exchange-rates/${currency}`)
+      .expect(204);
+    await request(app.getHttpServer())
+      .delete(`/exchange-rates/${currency}`)
+      .expect(404);
+  });
+
+  it('should list and sell records in another currency', async () => {
+    const record = await createTestRecord();
+    expect(record.currency).toBe(AppConfig.baseCurrency);
+
+    await request(app.getHttpServer())
+      .get(
+        `/records?artist=${encodeURIComponent(record.artist)}&currency=${currency}`,
+      )
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .put(`/exchange-rates/${currency}`)
+      .send({ rate: 150.5 })
+      .expect(200);
+
+    const listing = await request(app.getHttpServer())
+      .get(
+        `/records?artist=${encodeURIComponent(record.artist)}&currency=${currency}&minPrice=3763`,
+      )
+      .expect(200);
+    expect(listing.body.currency).toBe(currency);
+    expect(listing.body.data).toEqual([
+      expect.objectContaining({ _id: record._id, price: 3763, currency }),
+    ]);
+
+    const order = await request(app.getHttpServer())
+      .post('/orders')
+      .send({ recordId: record._id, quantity: 1, currency })
+      .expect(201);
+    createdOrderIds.push(order.body._id);
+    expect(order.body).toMatchObject({
+      price: 3763,
+      currency,
+      exchangeRate: 150.5,
+      basePrice: 25,
+    });
+  });
+
+  it('should not take stock for an order in a currency without a rate', async () => {
+    const record = await createTestRecord();
+
+    await request(app.getHttpServer())
+      .post('/orders')
+      .send({ recordId: record._id, quantity: 1, currency })
+      .expect(400);
+
+    const response = await request(app.getHttpServer())
+      .get(`/records/${record._id}`)
+      .expect(200);
+    expect(response.body.qty).toBe(5);
+  });
+});
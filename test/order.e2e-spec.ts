@@ -1,8 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
+import { useContainer } from 'class-validator';
 import { AppModule } from '../src/app.module';
 import { RecordFormat, RecordCategory } from '../src/api/record/record.enum';
+import {
+  STOCK_ALERT_NOTIFIER,
+  StockAlertNotifier,
+} from '../src/integrations/notifications/stock-alert-notifier';
 
 describe('OrderController (e2e)', () => {
   let app: INestApplication;
@@ -17,6 +22,7 @@ describe('OrderController (e2e)', () => {
     }).compile();
 
     app = moduleFixture.createNestApplication();
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
     app.useGlobalPipes(
       new ValidationPipe({ whitelist: true, transform: true }),
     );
@@ -101,6 +107,47 @@ describe('OrderController (e2e)', () => {
         .expect(200);
 
       expect(recordResponse.body.qty).toBe(7);
+
+      const movements = await request(app.getHttpServer())
+        .get(`/records/${record._id}/movements?type=sale`)
+        .expect(200);
+      expect(movements.body.data).toEqual([
+        expect.objectContaining({
+          quantity: -3,
+          balance: 7,
+          reference: orderResponse.body._id,
+        }),
+      ]);
+    });
+
+    it('should take the stock from the fulfilment location', async () => {
+      const record = await createTestRecord(5);
+      await request(app.getHttpServer())
+        .post(`/records/${record._id}/transfers`)
+        .send({ from: 'shop-floor', to: 'warehouse', quantity: 3 })
+        .expect(201);
+
+      // The shop floor has 2 left
+      await request(app.getHttpServer())
+        .post('/orders')
+        .send({ recordId: record._id, quantity: 3 })
+        .expect(409);
+
+      const orderResponse = await request(app.getHttpServer())
+        .post('/orders')
+        .send({ recordId: record._id, quantity: 3, location: 'warehouse' })
+        .expect(201);
+      createdOrderIds.push(orderResponse.body._id);
+      expect(orderResponse.body.location).toBe('warehouse');
+
+      const stock = await request(app.getHttpServer())
+        .get(`/records/${record._id}/stock`)
+        .expect(200);
+      expect(stock.body.qty).toBe(2);
+      expect(stock.body.locations).toContainEqual({
+        location: 'warehouse',
+        qty: 0,
+      });
     });
 
     it('should return 409 for insufficient stock', async () => {
@@ -234,4 +281,52 @@ describe('OrderController (e2e)', () => {
       expect(recordResponse.body.qty).toBe(2);
     });
   });
+
+  describe('low stock', () => {
+    it('should alert and report a record an order takes to its threshold', async () => {
+      const record = await createTestRecord(5);
+      await request(app.getHttpServer())
+        .put(`/records/${record._id}`)
+        .send({ reorderThreshold: 3 })
+        .expect(200);
+      const notifier = app.get<StockAlertNotifier>(STOCK_ALERT_NOTIFIER);
+      const notify = jest.spyOn(notifier, 'notify');
+      // Orders do not wait for their alert
+      const alerted = new Promise((resolve) =>
+        notify.mockImplementation(async (alert) => resolve(alert)),
+      );
+
+      try {
+        const first = await request(app.getHttpServer())
+          .post('/orders')
+          .send({ recordId: record._id, quantity: 1 })
+          .expect(201);
+        createdOrderIds.push(first.body._id);
+        expect(notify).not.toHaveBeenCalled();
+
+        const second = await request(app.getHttpServer())
+          .post('/orders')
+          .send({ recordId: record._id, quantity: 2 })
+          .expect(201);
+        createdOrderIds.push(second.body._id);
+        await expect(alerted).resolves.toEqual(
+          expect.objectContaining({
+            recordId: record._id,
+            qty: 2,
+            threshold: 3,
+          }),
+        );
+        expect(notify).toHaveBeenCalledTimes(1);
+      } finally {
+        notify.mockRestore();
+      }
+
+      const report = await request(app.getHttpServer())
+        .get('/records/low-stock?limit=100')
+        .expect(200);
+      expect(report.body.data).toContainEqual(
+        expect.objectContaining({ _id: record._id, qty: 2, threshold: 3 }),
+      );
+    });
+  });
 });
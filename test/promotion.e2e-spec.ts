@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { useContainer } from 'class-validator';
+import { AppModule } from '../src/app.module';
+import { RecordFormat, RecordCategory } from '../src/api/record/record.enum';
+import { PromotionType } from '../src/api/promotion/promotion.enum';
+
+describe('PromotionController (e2e)', () => {
+  let app: INestApplication;
+  let recordModel;
+  let orderModel;
+  let promotionModel;
+  const createdRecordIds: string[] = [];
+  const createdOrderIds: string[] = [];
+  const createdPromotionIds: string[] = [];
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    recordModel = app.get('RecordModel');
+    orderModel = app.get('OrderModel');
+    promotionModel = app.get('PromotionModel');
+    await app.init();
+  });
+
+  afterEach(async () => {
+    for (const id of createdOrderIds) {
+      await orderModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdOrderIds.length = 0;
+    for (const id of createdPromotionIds) {
+      await promotionModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdPromotionIds.length = 0;
+    for (const id of createdRecordIds) {
+      await recordModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdRecordIds.length = 0;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function createTestRecord() {
+    const response = await request(app.getHttpServer())
+      .post('/records')
+      .send({
+        artist: `Promotion Test Artist ${Date.now()}`,
+        album: 'Promotion Test Album',
+        price: 20,
+        qty: 10,
+        format: RecordFormat.CD,
+        category: RecordCategory.JAZZ,
+      })
+      .expect(201);
+    createdRecordIds.push(response.body._id);
+    return response.body;
+  }
+
+  // Scoped to the test record, so orders placed by other suites are unaffected
+  async function createPromotion(record: { _id: string }, body: object) {
+    const response = await request(app.getHttpServer())
+      .post('/promotions')
+      .send({ name: 'Test promotion', recordIds: [record._id], ...body })
+      .expect(201);
+    createdPromotionIds.push(response.body._id);
+    return response.body;
+  }
+
+  async function placeOrder(body: object, status = 201) {
+    const response = await request(app.getHttpServer())
+      .post('/orders')
+      .send(body)
+      .expect(status);
+    if (status === 201) createdOrderIds.push(response.body._id);
+    return response.body;
+  }
+
+  it('should manage promotions', async () => {
+    const record = await createTestRecord();
+    const promotion = await createPromotion(record, {
+      type: PromotionType.PERCENTAGE,
+      value: 20,
+      categories: [RecordCategory.JAZZ],
+    });
+    expect(promotion).toMatchObject({ usageCount: 0, active: true });
+
+    await request(app.getHttpServer())
+      .put(`/promotions/${promotion._id}`)
+      .send({ value: 25 })
+      .expect(200);
+    const response = await request(app.getHttpServer())
+      .get(`/promotions/${promotion._id}`)
+      .expect(200);
+    expect(response.body.value).toBe(25);
+
+    await request(app.getHttpServer())
+      .put(`/promotions/${promotion._id}`)
+      .send({ value: 120 })
+      .expect(400);
+    await request(app.getHttpServer())
+      .post('/promotions')
+      .send({ name: 'No value', type: PromotionType.FIXED_AMOUNT })
+      .expect(400);
+    await request(app.getHttpServer())
+      .post('/promotions')
+      .send({
+        name: 'Unknown format',
+        type: PromotionType.PERCENTAGE,
+        value: 10,
+        formats: ['Wax Cylinder'],
+      })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .delete(`/promotions/${promotion._id}`)
+      .expect(204);
+    await request(app.getHttpServer())
+      .get(`/promotions/${promotion._id}`)
+      .expect(404);
+  });
+
+  it('should give every fourth CD free on buy 3 get 1', async () => {
+    const record = await createTestRecord();
+    const promotion = await createPromotion(record, {
+      type: PromotionType.BUY_X_GET_Y,
+      buyQuantity: 3,
+      freeQuantity: 1,
+      formats: [RecordFormat.CD],
+    });
+
+    const order = await placeOrder({ recordId: record._id, quantity: 4 });
+
+    expect(order).toMatchObject({
+      price: 20,
+      discount: 20,
+      total: 60,
+      promotionId: promotion._id,
+    });
+  });
+
+  it('should apply a coupon within its usage limit', async () => {
+    const record = await createTestRecord();
+    const code = `E2E${Date.now()}`;
+    const promotion = await createPromotion(record, {
+      type: PromotionType.FIXED_AMOUNT,
+      value: 5,
+      code: code.toLowerCase(),
+      usageLimit: 1,
+    });
+    expect(promotion.code).toBe(code);
+
+    // Without the coupon the promotion does not apply
+    const plain = await placeOrder({ recordId: record._id, quantity: 1 });
+    expect(plain).toMatchObject({ discount: 0, total: 20 });
+    expect(plain.promotionId).toBeUndefined();
+
+    const order = await placeOrder({
+      recordId: record._id,
+      quantity: 2,
+      couponCode: code,
+    });
+    expect(order).toMatchObject({
+      discount: 10,
+      total: 30,
+      couponCode: code,
+      promotionId: promotion._id,
+    });
+
+    // Used up: refused before any stock is taken
+    await placeOrder(
+      { recordId: record._id, quantity: 1, couponCode: code },
+      400,
+    );
+    const response = await request(app.getHttpServer())
+      .get(`/records/${record._id}`)
+      .expect(200);
+    expect(response.body.qty).toBe(7);
+
+    const used = await request(app.getHttpServer())
+      .get(`/promotions/${promotion._id}`)
+      .expect(200);
+    expect(used.body.usageCount).toBe(1);
+  });
+
+  it('should refuse a coupon code already in use', async () => {
+    const record = await createTestRecord();
+    const code = `DUP${Date.now()}`;
+    await createPromotion(record, {
+      type: PromotionType.PERCENTAGE,
+      value: 10,
+      code,
+    });
+
+    await request(app.getHttpServer())
+      .post('/promotions')
+      .send({
+        name: 'Duplicate',
+        type: PromotionType.PERCENTAGE,
+        value: 5,
+        code,
+      })
+      .expect(409);
+  });
+});
@@ -1,12 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
+import { useContainer } from 'class-validator';
+import * as sharp from 'sharp';
 import { AppModule } from '../src/app.module';
 import { RecordFormat, RecordCategory } from '../src/api/record/record.enum';
 
 describe('RecordController (e2e)', () => {
   let app: INestApplication;
   let recordModel;
+  let recordPriceModel;
+  let recordStockMovementModel;
   const createdRecordIds: string[] = [];
 
   beforeAll(async () => {
@@ -15,16 +19,23 @@ describe('RecordController (e2e)', () => {
     }).compile();
 
     app = moduleFixture.createNestApplication();
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
     app.useGlobalPipes(
       new ValidationPipe({ whitelist: true, transform: true }),
     );
     recordModel = app.get('RecordModel');
+    recordPriceModel = app.get('RecordPriceModel');
+    recordStockMovementModel = app.get('RecordStockMovementModel');
     await app.init();
   });
 
   afterEach(async () => {
     for (const id of createdRecordIds) {
       await recordModel.findByIdAndDelete(id).catch(() => {});
+      await recordPriceModel.deleteMany({ recordId: id }).catch(() => {});
+      await recordStockMovementModel
+        .deleteMany({ recordId: id })
+        .catch(() => {});
     }
     createdRecordIds.length = 0;
   });
@@ -96,6 +107,204 @@ describe('RecordController (e2e)', () => {
         .send(createRecordDto)
         .expect(409);
     });
+
+    it('should return 409 for a duplicate differing only in case and accents', async () => {
+      const uniqueAlbum = `Homogénic ${Date.now()}`;
+      const first = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Björk',
+          album: uniqueAlbum,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ALTERNATIVE,
+        })
+        .expect(201);
+
+      createdRecordIds.push(first.body._id);
+      expect(first.body).not.toHaveProperty('artistKey');
+
+      await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'BJORK',
+          album: uniqueAlbum.toLowerCase().replace('é', 'e'),
+          price: 20,
+          qty: 1,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ALTERNATIVE,
+        })
+        .expect(409);
+
+      const response = await request(app.getHttpServer())
+        .get(`/records?artist=bjork&album=${encodeURIComponent(uniqueAlbum)}`)
+        .expect(200);
+
+      expect(response.body.data.map((r) => r._id)).toEqual([first.body._id]);
+    });
+  });
+
+  describe('POST /records/bulk', () => {
+    it('should create valid rows and report the rest', async () => {
+      const album = `Bulk Album ${Date.now()}`;
+      const row = {
+        artist: 'Bulk Artist',
+        album,
+        price: 25,
+        qty: 10,
+        format: RecordFormat.VINYL,
+        category: RecordCategory.ROCK,
+      };
+
+      const response = await request(app.getHttpServer())
+        .post('/records/bulk')
+        .send([row, { ...row, price: 'free' }, row])
+        .expect(200);
+
+      const [created, invalid, duplicate] = response.body.results;
+      createdRecordIds.push(created.id);
+
+      expect(created).toMatchObject({ index: 0, status: 'created' });
+      expect(invalid).toMatchObject({ index: 1, status: 'invalid' });
+      expect(duplicate).toMatchObject({ index: 2, status: 'duplicate' });
+      expect(response.body.summary).toMatchObject({
+        total: 3,
+        created: 1,
+        invalid: 1,
+        duplicate: 1,
+      });
+    });
+
+    it('should return 400 when the body is not an array', async () => {
+      await request(app.getHttpServer())
+        .post('/records/bulk')
+        .send({ artist: 'Not an array' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /records/import and GET /records/export', () => {
+    it('should dry-run, import and export a CSV round trip', async () => {
+      const artist = `Csv Artist ${Date.now()}`;
+      const csv = [
+        'Artist Name,album,price,qty,format,category',
+        `${artist},"Live, Vol. 1",25,10,Vinyl,Rock`,
+        `${artist},Broken,abc,10,Vinyl,Rock`,
+      ].join('\n');
+      const mapping = encodeURIComponent(
+        JSON.stringify({ 'Artist Name': 'artist' }),
+      );
+
+      const dryRun = await request(app.getHttpServer())
+        .post(`/records/import?dryRun=true&mapping=${mapping}`)
+        .attach('file', Buffer.from(csv), 'stock.csv')
+        .expect(200);
+
+      expect(dryRun.body.summary).toMatchObject({ valid: 1, invalid: 1 });
+
+      const imported = await request(app.getHttpServer())
+        .post(`/records/import?mapping=${mapping}`)
+        .attach('file', Buffer.from(csv), 'stock.csv')
+        .expect(200);
+
+      expect(imported.body.summary).toMatchObject({ created: 1, invalid: 1 });
+      createdRecordIds.push(imported.body.results[0].id);
+
+      const exported = await request(app.getHttpServer())
+        .get(`/records/export?format=csv&artist=${encodeURIComponent(artist)}`)
+        .expect('Content-Type', /text\/csv/)
+        .expect(200);
+
+      const lines = exported.text.trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toContain('"Live, Vol. 1"');
+    });
+
+    it('should return 400 when no file is uploaded', async () => {
+      await request(app.getHttpServer()).post('/records/import').expect(400);
+    });
+  });
+
+  describe('POST /records/:id/cover and GET /records/:id/cover', () => {
+    it('should upload a cover and serve it in both sizes', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: `Cover Artist ${Date.now()}`,
+          album: 'Cover Album',
+          price: 20,
+          qty: 1,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.JAZZ,
+        })
+        .expect(201);
+      const id = created.body._id;
+      createdRecordIds.push(id);
+      const image = await sharp({
+        create: { width: 800, height: 800, channels: 3, background: '#1a5276' },
+      })
+        .jpeg()
+        .toBuffer();
+
+      await request(app.getHttpServer())
+        .post(`/records/${id}/cover`)
+        .attach('file', Buffer.from('not an image'), 'cover.jpg')
+        .expect(400);
+
+      const uploaded = await request(app.getHttpServer())
+        .post(`/records/${id}/cover`)
+        .attach('file', image, 'cover.jpg')
+        .expect(200);
+      const { coverUrl } = uploaded.body;
+      expect(coverUrl).toMatch(new RegExp(`^/records/${id}/cover\\?v=`));
+
+      const record = await request(app.getHttpServer())
+        .get(`/records/${id}`)
+        .expect(200);
+      expect(record.body.coverUrl).toBe(coverUrl);
+      expect(record.body.cover).toBeUndefined();
+
+      const thumb = await request(app.getHttpServer())
+        .get(`${coverUrl}&size=thumb`)
+        .expect('Content-Type', 'image/jpeg')
+        .expect('Cache-Control', /immutable/)
+        .expect(200);
+      expect(await sharp(thumb.body).metadata()).toMatchObject({
+        width: 300,
+        height: 300,
+      });
+
+      const full = await request(app.getHttpServer())
+        .get(`/records/${id}/cover`)
+        .expect('Cache-Control', 'public, no-cache')
+        .expect(200);
+      expect(Buffer.compare(full.body, image)).toBe(0);
+
+      await request(app.getHttpServer())
+        .get(`/records/${id}/cover`)
+        .set('If-None-Match', full.headers.etag)
+        .expect(304);
+    });
+
+    it('should return 404 for a record without a cover', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: `Coverless Artist ${Date.now()}`,
+          album: 'Coverless Album',
+          price: 20,
+          qty: 1,
+          format: RecordFormat.CD,
+          category: RecordCategory.JAZZ,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/cover`)
+        .expect(404);
+    });
   });
 
   describe('GET /records', () => {
@@ -168,6 +377,382 @@ describe('RecordController (e2e)', () => {
         .expect(200);
 
       expect(response.body.data.length).toBeGreaterThanOrEqual(1);
+      expect(response.body.data[0]).toHaveProperty('score');
+    });
+
+    it('should find partial words through the prefix fallback', async () => {
+      const uniqueWord = `Prefixsearch${Date.now()}`;
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Prefix Artist',
+          album: uniqueWord,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.CD,
+          category: RecordCategory.JAZZ,
+        })
+        .expect(201);
+
+      createdRecordIds.push(created.body._id);
+
+      const response = await request(app.getHttpServer())
+        .get(`/records?q=${uniqueWord.slice(0, -3)}`)
+        .expect(200);
+
+      expect(response.body.data.map((r) => r._id)).toContain(created.body._id);
+    });
+
+    it('should treat regex characters in q literally', async () => {
+      await request(app.getHttpServer())
+        .get(`/records?q=${encodeURIComponent('(a+)+$')}`)
+        .expect(200);
+    });
+  });
+
+  describe('GET /records (condition)', () => {
+    it('should keep graded copies apart and filter by minimum condition', async () => {
+      const artist = `Condition Artist ${Date.now()}`;
+      const copy = {
+        artist,
+        album: 'Graded Album',
+        price: 30,
+        qty: 1,
+        format: RecordFormat.VINYL,
+        category: RecordCategory.ROCK,
+      };
+
+      const sealed = await request(app.getHttpServer())
+        .post('/records')
+        .send(copy)
+        .expect(201);
+      createdRecordIds.push(sealed.body._id);
+      expect(sealed.body).toMatchObject({
+        mediaCondition: 'M',
+        sleeveCondition: 'M',
+      });
+
+      const used = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          ...copy,
+          price: 12,
+          mediaCondition: 'VG+',
+          sleeveCondition: 'G',
+        })
+        .expect(201);
+      createdRecordIds.push(used.body._id);
+
+      await request(app.getHttpServer())
+        .post('/records')
+        .send({ ...copy, mediaCondition: 'VG+', sleeveCondition: 'G' })
+        .expect(409);
+      await request(app.getHttpServer())
+        .post('/records')
+        .send({ ...copy, mediaCondition: 'Fair' })
+        .expect(400);
+
+      const nearMint = await request(app.getHttpServer())
+        .get('/records')
+        .query({ artist, minCondition: 'NM' })
+        .expect(200);
+      expect(nearMint.body.data.map((r) => r._id)).toEqual([sealed.body._id]);
+
+      const veryGoodPlus = await request(app.getHttpServer())
+        .get('/records')
+        .query({ artist, minCondition: 'VG+' })
+        .expect(200);
+      expect(veryGoodPlus.body.total).toBe(2);
+
+      // Typed into a URL, the + is not encoded and arrives as a space
+      const unencoded = await request(app.getHttpServer())
+        .get(`/records?artist=${encodeURIComponent(artist)}&minCondition=VG+`)
+        .expect(200);
+      expect(unencoded.body.total).toBe(2);
+      const unencodedSleeve = await request(app.getHttpServer())
+        .get(
+          `/records?artist=${encodeURIComponent(artist)}&minSleeveCondition=VG+`,
+        )
+        .expect(200);
+      expect(unencodedSleeve.body.data.map((r) => r._id)).toEqual([
+        sealed.body._id,
+      ]);
+
+      await request(app.getHttpServer())
+        .get('/records')
+        .query({ minCondition: 'Fair' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /records (genres and tags)', () => {
+    it('should filter by genres and tags with any/all semantics', async () => {
+      const artist = `Genre Artist ${Date.now()}`;
+      const created = {};
+      for (const [album, category, genres, tags] of [
+        [
+          'A',
+          RecordCategory.JAZZ,
+          [RecordCategory.HIPHOP],
+          ['Limited', '180g'],
+        ],
+        ['B', RecordCategory.HIPHOP, [], ['limited']],
+        ['C', RecordCategory.INDIE, [RecordCategory.ALTERNATIVE], []],
+      ] as const) {
+        const response = await request(app.getHttpServer())
+          .post('/records')
+          .send({
+            artist,
+            album,
+            price: 20,
+            qty: 1,
+            format: RecordFormat.VINYL,
+            category,
+            genres,
+            tags,
+          })
+          .expect(201);
+        createdRecordIds.push(response.body._id);
+        created[album] = response.body;
+      }
+
+      expect(created['A'].genres).toEqual([
+        RecordCategory.JAZZ,
+        RecordCategory.HIPHOP,
+      ]);
+      expect(created['A'].tags).toEqual(['limited', '180g']);
+
+      const albums = async (query: string) => {
+        const response = await request(app.getHttpServer())
+          .get(
+            `/records?artist=${encodeURIComponent(artist)}&sort=album&${query}`,
+          )
+          .expect(200);
+        return response.body.data.map((record) => record.album);
+      };
+
+      expect(await albums('genres=Hip-Hop')).toEqual(['A', 'B']);
+      expect(await albums('genres=Jazz,Alternative')).toEqual(['A', 'C']);
+      expect(await albums('genres=Jazz,Hip-Hop&genresMatch=all')).toEqual([
+        'A',
+      ]);
+      expect(await albums('tags=LIMITED')).toEqual(['A', 'B']);
+      expect(await albums('tags=limited,180g&tagsMatch=all')).toEqual(['A']);
+    });
+
+    it('should return 400 for an unknown genre or match mode', async () => {
+      await request(app.getHttpServer())
+        .get('/records?genres=Polka')
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/records?tags=limited&tagsMatch=some')
+        .expect(400);
+    });
+  });
+
+  describe('GET /records (range filters)', () => {
+    it('should filter records by price range and stock', async () => {
+      const artist = `Range Artist ${Date.now()}`;
+      for (const [album, price, qty] of [
+        ['Cheap', 5, 3],
+        ['Mid', 20, 0],
+        ['Pricey', 80, 4],
+      ] as const) {
+        const created = await request(app.getHttpServer())
+          .post('/records')
+          .send({
+            artist,
+            album,
+            price,
+            qty,
+            format: RecordFormat.VINYL,
+            category: RecordCategory.ROCK,
+          })
+          .expect(201);
+        createdRecordIds.push(created.body._id);
+      }
+
+      const response = await request(app.getHttpServer())
+        .get(
+          `/records?artist=${encodeURIComponent(artist)}&minPrice=1&maxPrice=50&inStock=true`,
+        )
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].album).toBe('Cheap');
+    });
+
+    it('should return 400 for invalid filter values', async () => {
+      await request(app.getHttpServer())
+        .get('/records?minPrice=abc')
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/records?createdAfter=not-a-date')
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/records?inStock=maybe')
+        .expect(400);
+    });
+  });
+
+  describe('GET /records (cursor pagination)', () => {
+    it('should walk pages with nextCursor without repeating records', async () => {
+      const artist = `Cursor Artist ${Date.now()}`;
+      for (const album of ['One', 'Two', 'Three']) {
+        const created = await request(app.getHttpServer())
+          .post('/records')
+          .send({
+            artist,
+            album,
+            price: 25,
+            qty: 10,
+            format: RecordFormat.VINYL,
+            category: RecordCategory.ROCK,
+          })
+          .expect(201);
+        createdRecordIds.push(created.body._id);
+      }
+
+      const first = await request(app.getHttpServer())
+        .get(`/records?artist=${encodeURIComponent(artist)}&limit=2`)
+        .expect(200);
+
+      expect(first.body.data).toHaveLength(2);
+      expect(first.body.total).toBe(3);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await request(app.getHttpServer())
+        .get(
+          `/records?artist=${encodeURIComponent(artist)}&limit=2&cursor=${first.body.nextCursor}`,
+        )
+        .expect(200);
+
+      expect(second.body.data).toHaveLength(1);
+      expect(second.body).not.toHaveProperty('total');
+      expect(second.body.nextCursor).toBeNull();
+
+      const ids = [...first.body.data, ...second.body.data].map((r) => r._id);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+      await request(app.getHttpServer())
+        .get('/records?cursor=garbage')
+        .expect(400);
+    });
+  });
+
+  describe('GET /records/facets', () => {
+    it('should count records per facet for the current filter', async () => {
+      const artist = `Facet Artist ${Date.now()}`;
+      for (const [album, format, price] of [
+        ['A', RecordFormat.VINYL, 15],
+        ['B', RecordFormat.VINYL, 120],
+        ['C', RecordFormat.CD, 15],
+      ] as const) {
+        const created = await request(app.getHttpServer())
+          .post('/records')
+          .send({
+            artist,
+            album,
+            price,
+            qty: 1,
+            format,
+            category: RecordCategory.JAZZ,
+          })
+          .expect(201);
+        createdRecordIds.push(created.body._id);
+      }
+
+      const response = await request(app.getHttpServer())
+        .get(
+          `/records/facets?artist=${encodeURIComponent(artist)}&facets=format,price`,
+        )
+        .expect(200);
+
+      expect(response.body).not.toHaveProperty('category');
+      expect(response.body.format).toEqual([
+        { value: RecordFormat.VINYL, count: 2 },
+        { value: RecordFormat.CD, count: 1 },
+      ]);
+      expect(response.body.price).toEqual([
+        { min: 10, max: 20, count: 2 },
+        { min: 100, max: null, count: 1 },
+      ]);
+    });
+
+    it('should return 400 for an unknown facet', async () => {
+      await request(app.getHttpServer())
+        .get('/records/facets?facets=color')
+        .expect(400);
+    });
+  });
+
+  describe('GET /titles/:id and GET /records?collapse=title', () => {
+    it('should group format variants under one title', async () => {
+      const artist = `Title Artist ${Date.now()}`;
+      const variants = [];
+      for (const [album, format, qty] of [
+        ['Blue', RecordFormat.VINYL, 3],
+        ['BLUE', RecordFormat.CD, 5],
+        ['Green', RecordFormat.CD, 1],
+      ] as const) {
+        const created = await request(app.getHttpServer())
+          .post('/records')
+          .send({
+            artist,
+            album,
+            price: 20,
+            qty,
+            format,
+            category: RecordCategory.JAZZ,
+          })
+          .expect(201);
+        createdRecordIds.push(created.body._id);
+        variants.push(created.body);
+      }
+      const [vinyl, cd, other] = variants;
+
+      expect(cd.titleId).toBe(vinyl.titleId);
+      expect(other.titleId).not.toBe(vinyl.titleId);
+
+      const title = await request(app.getHttpServer())
+        .get(`/titles/${vinyl.titleId}`)
+        .expect(200);
+
+      expect(title.body).toMatchObject({ artist, album: 'Blue', totalQty: 8 });
+      expect(title.body.variants.map((variant) => variant._id).sort()).toEqual(
+        [vinyl._id, cd._id].sort(),
+      );
+
+      const collapsed = await request(app.getHttpServer())
+        .get(
+          `/records?artist=${encodeURIComponent(artist)}&collapse=title&sort=album`,
+        )
+        .expect(200);
+
+      expect(collapsed.body.total).toBe(2);
+      expect(
+        collapsed.body.data.map((group) => [
+          group.titleId,
+          group.variants.length,
+        ]),
+      ).toEqual([
+        [vinyl.titleId, 2],
+        [other.titleId, 1],
+      ]);
+    });
+
+    it('should return 404 for an unknown title', async () => {
+      await request(app.getHttpServer())
+        .get('/titles/507f1f77bcf86cd799439011')
+        .expect(404);
+    });
+
+    it('should return 400 for an unknown collapse mode', async () => {
+      await request(app.getHttpServer())
+        .get('/records?collapse=artist')
+        .expect(400);
     });
   });
 
@@ -232,6 +817,72 @@ describe('RecordController (e2e)', () => {
       expect(response.body.price).toBe(30);
     });
 
+    it('should not serve a cached listing after the update', async () => {
+      const uniqueArtist = `Cache Artist ${Date.now()}`;
+
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: uniqueArtist,
+          album: 'Cache Album',
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+
+      createdRecordIds.push(created.body._id);
+
+      const listing = `/records?artist=${encodeURIComponent(uniqueArtist)}`;
+      const before = await request(app.getHttpServer())
+        .get(listing)
+        .expect(200);
+      expect(before.body.data[0].price).toBe(25);
+
+      await request(app.getHttpServer())
+        .put(`/records/${created.body._id}`)
+        .send({ price: 30 })
+        .expect(200);
+
+      const after = await request(app.getHttpServer()).get(listing).expect(200);
+      expect(after.body.data[0].price).toBe(30);
+    });
+
+    it('should honor If-Match and return 412 for a stale version', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'ETag Artist',
+          album: `ETag Album ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      const fetched = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}`)
+        .expect(200);
+      const etag = fetched.headers.etag;
+      expect(etag).toBe('"0"');
+
+      const updated = await request(app.getHttpServer())
+        .put(`/records/${created.body._id}`)
+        .set('If-Match', etag)
+        .send({ price: 30 })
+        .expect(200);
+      expect(updated.headers.etag).toBe('"1"');
+
+      await request(app.getHttpServer())
+        .put(`/records/${created.body._id}`)
+        .set('If-Match', etag)
+        .send({ price: 35 })
+        .expect(412);
+    });
+
     it('should return 404 for non-existent record', async () => {
       await request(app.getHttpServer())
         .put('/records/507f1f77bcf86cd799439011')
@@ -240,6 +891,131 @@ describe('RecordController (e2e)', () => {
     });
   });
 
+  describe('PATCH /records/:id', () => {
+    it('should apply merge patches and JSON Patches', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Patch Artist',
+          album: `Patch Album ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      const merged = await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify({ price: 30 }))
+        .expect(200);
+      expect(merged.body.price).toBe(30);
+
+      const patched = await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(
+          JSON.stringify([
+            { op: 'test', path: '/price', value: 30 },
+            { op: 'replace', path: '/price', value: 28 },
+          ]),
+        )
+        .expect(200);
+      expect(patched.body.price).toBe(28);
+
+      // The price is no longer 30
+      await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(
+          JSON.stringify([
+            { op: 'test', path: '/price', value: 30 },
+            { op: 'replace', path: '/price', value: 27 },
+          ]),
+        )
+        .expect(409);
+
+      // Stock moves through the ledger only
+      await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([{ op: 'replace', path: '/qty', value: 8 }]))
+        .expect(400);
+    });
+
+    it('should reject invalid results and unsupported content types', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Patch Artist',
+          album: `Patch Invalid ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify({ artist: null }))
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .patch(`/records/${created.body._id}`)
+        .send({ price: 30 })
+        .expect(415);
+    });
+  });
+
+  describe('GET /records/cache/stats and DELETE /records/cache', () => {
+    it('should count record lookups and flush namespaces', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Cache Stats Artist',
+          album: `Cache Stats Album ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+
+      createdRecordIds.push(created.body._id);
+
+      const before = await request(app.getHttpServer())
+        .get('/records/cache/stats')
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get(`/records/${created.body._id}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .get(`/records/${created.body._id}`)
+        .expect(200);
+
+      const after = await request(app.getHttpServer())
+        .get('/records/cache/stats')
+        .expect(200);
+
+      expect(after.body.namespaces.record.hits).toBe(
+        before.body.namespaces.record.hits + 1,
+      );
+
+      await request(app.getHttpServer())
+        .delete('/records/cache?namespaces=record')
+        .expect(204);
+      await request(app.getHttpServer())
+        .delete('/records/cache?namespaces=orders')
+        .expect(400);
+    });
+  });
+
   describe('DELETE /records/:id', () => {
     it('should delete a record', async () => {
       const createRecordDto = {
@@ -271,4 +1047,376 @@ describe('RecordController (e2e)', () => {
         .expect(404);
     });
   });
+
+  describe('GET /records/:id/history and POST /records/:id/revert/:revisionId', () => {
+    it('should record updates and revert one of them', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'History Artist',
+          album: `History Album ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      await request(app.getHttpServer())
+        .put(`/records/${created.body._id}`)
+        .send({ price: 30 })
+        .expect(200);
+
+      const history = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/history`)
+        .expect(200);
+
+      expect(history.body.total).toBe(1);
+      const [revision] = history.body.data;
+      expect(revision.source).toBe('update');
+      expect(revision.changes).toEqual([
+        { field: 'price', before: 25, after: 30 },
+      ]);
+
+      const reverted = await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/revert/${revision._id}`)
+        .expect(200);
+      expect(reverted.body.price).toBe(25);
+
+      // The revision no longer matches the current price
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/revert/${revision._id}`)
+        .expect(409);
+    });
+  });
+
+  describe('POST /records/:id/adjustments and GET /records/:id/movements', () => {
+    it('should keep qty in step with the stock ledger', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: 'Ledger Artist',
+          album: `Ledger Album ${Date.now()}`,
+          price: 25,
+          qty: 10,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      const receipt = await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/adjustments`)
+        .send({
+          type: 'receipt',
+          quantity: 5,
+          reason: 'Delivery',
+          reference: 'DN-1',
+        })
+        .expect(201);
+      expect(receipt.body).toMatchObject({ quantity: 5, balance: 15 });
+
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/adjustments`)
+        .send({ type: 'damage', quantity: 2, reason: 'Warped' })
+        .expect(201);
+
+      // More than is in stock
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/adjustments`)
+        .send({ type: 'shrinkage', quantity: 20, reason: 'Stock count' })
+        .expect(409);
+
+      // Only corrections take a signed quantity
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/adjustments`)
+        .send({ type: 'receipt', quantity: -1, reason: 'Delivery' })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .put(`/records/${created.body._id}`)
+        .send({ qty: 3 })
+        .expect(400);
+
+      const record = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}`)
+        .expect(200);
+      expect(record.body.qty).toBe(13);
+
+      const movements = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/movements`)
+        .expect(200);
+      expect(movements.body.total).toBe(3);
+      expect(
+        movements.body.data.map(({ type, quantity, balance }) => [
+          type,
+          quantity,
+          balance,
+        ]),
+      ).toEqual([
+        ['damage', -2, 13],
+        ['receipt', 5, 15],
+        ['opening', 10, 10],
+      ]);
+
+      const receipts = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/movements?type=receipt`)
+        .expect(200);
+      expect(receipts.body.total).toBe(1);
+      expect(receipts.body.data[0].reference).toBe('DN-1');
+    });
+
+    it('should return 404 for an unknown record', async () => {
+      await request(app.getHttpServer())
+        .get('/records/507f1f77bcf86cd799439011/movements')
+        .expect(404);
+    });
+  });
+
+  describe('GET /records/:id/stock and POST /records/:id/transfers', () => {
+    it('should track stock per location and filter listings by it', async () => {
+      const artist = `Location Artist ${Date.now()}`;
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist,
+          album: 'Location Album',
+          price: 25,
+          qty: 6,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.ROCK,
+        })
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/adjustments`)
+        .send({
+          type: 'receipt',
+          quantity: 4,
+          reason: 'Delivery',
+          location: 'warehouse',
+        })
+        .expect(201);
+
+      const transferred = await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/transfers`)
+        .send({ from: 'shop-floor', to: 'back-room', quantity: 2 })
+        .expect(201);
+      expect(transferred.body).toEqual({
+        recordId: created.body._id,
+        qty: 10,
+        locations: [
+          { location: 'shop-floor', qty: 4 },
+          { location: 'back-room', qty: 2 },
+          { location: 'warehouse', qty: 4 },
+        ],
+      });
+
+      // More than the back room holds
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/transfers`)
+        .send({ from: 'back-room', to: 'shop-floor', quantity: 3 })
+        .expect(409);
+
+      await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/transfers`)
+        .send({ from: 'warehouse', to: 'attic', quantity: 1 })
+        .expect(400);
+
+      const stock = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/stock`)
+        .expect(200);
+      expect(stock.body).toEqual(transferred.body);
+
+      const transfers = await request(app.getHttpServer())
+        .get(`/records/${created.body._id}/movements?type=transfer`)
+        .expect(200);
+      expect(
+        transfers.body.data.map(({ location, quantity, balance }) => [
+          location,
+          quantity,
+          balance,
+        ]),
+      ).toEqual(
+        expect.arrayContaining([
+          ['shop-floor', -2, 4],
+          ['back-room', 2, 2],
+        ]),
+      );
+
+      const atWarehouse = await request(app.getHttpServer())
+        .get('/records')
+        .query({ artist, location: 'warehouse', minQty: 4 })
+        .expect(200);
+      expect(atWarehouse.body.total).toBe(1);
+
+      const plenty = await request(app.getHttpServer())
+        .get('/records')
+        .query({ artist, location: 'warehouse', minQty: 5 })
+        .expect(200);
+      expect(plenty.body.total).toBe(0);
+    });
+  });
+
+  describe('GET /records/trash and POST /records/:id/restore', () => {
+    const createRecordDto = () => ({
+      artist: 'Trash Artist',
+      album: `Trash Album ${Date.now()}`,
+      price: 25,
+      qty: 10,
+      format: RecordFormat.VINYL,
+      category: RecordCategory.ROCK,
+    });
+
+    it('should list a deleted record in the trash and restore it', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send(createRecordDto())
+        .expect(201);
+      createdRecordIds.push(created.body._id);
+
+      await request(app.getHttpServer())
+        .delete(`/records/${created.body._id}`)
+        .expect(204);
+
+      const trash = await request(app.getHttpServer())
+        .get('/records/trash?limit=100')
+        .expect(200);
+      expect(trash.body.data.map((record) => record._id)).toContain(
+        created.body._id,
+      );
+
+      const restored = await request(app.getHttpServer())
+        .post(`/records/${created.body._id}/restore`)
+        .expect(200);
+      expect(restored.body.deletedAt).toBeUndefined();
+
+      await request(app.getHttpServer())
+        .get(`/records/${created.body._id}`)
+        .expect(200);
+    });
+
+    it('should return 409 when a live record has taken the identity', async () => {
+      const dto = createRecordDto();
+      const deleted = await request(app.getHttpServer())
+        .post('/records')
+        .send(dto)
+        .expect(201);
+      createdRecordIds.push(deleted.body._id);
+
+      await request(app.getHttpServer())
+        .delete(`/records/${deleted.body._id}`)
+        .expect(204);
+
+      const replacement = await request(app.getHttpServer())
+        .post('/records')
+        .send(dto)
+        .expect(201);
+      createdRecordIds.push(replacement.body._id);
+
+      await request(app.getHttpServer())
+        .post(`/records/${deleted.body._id}/restore`)
+        .expect(409);
+    });
+
+    it('should return 404 when restoring a record that is not deleted', async () => {
+      await request(app.getHttpServer())
+        .post('/records/507f1f77bcf86cd799439011/restore')
+        .expect(404);
+    });
+  });
+
+  describe('GET/POST/DELETE /records/:id/prices', () => {
+    it('should run a sale, refuse updates meanwhile and revert when it ends', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: `Price Schedule Artist ${Date.now()}`,
+          album: 'Price Schedule Album',
+          price: 25,
+          qty: 3,
+          format: RecordFormat.VINYL,
+          category: RecordCategory.JAZZ,
+        })
+        .expect(201);
+      const id = created.body._id;
+      createdRecordIds.push(id);
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const sale = await request(app.getHttpServer())
+        .post(`/records/${id}/prices`)
+        .send({ price: 20, endsAt: tomorrow.toISOString() })
+        .expect(201);
+      expect(sale.body).toMatchObject({ kind: 'sale', price: 20 });
+
+      const onSale = await request(app.getHttpServer())
+        .get(`/records/${id}`)
+        .expect(200);
+      expect(onSale.body.price).toBe(20);
+
+      await request(app.getHttpServer())
+        .put(`/records/${id}`)
+        .send({ price: 30 })
+        .expect(409);
+      await request(app.getHttpServer())
+        .post(`/records/${id}/prices`)
+        .send({ price: 18, endsAt: tomorrow.toISOString() })
+        .expect(409);
+
+      const schedule = await request(app.getHttpServer())
+        .get(`/records/${id}/prices`)
+        .expect(200);
+      expect(schedule.body.current).toBe(20);
+      expect(
+        schedule.body.data.map(({ source, price }) => [source, price]),
+      ).toEqual([
+        ['schedule', 20],
+        ['initial', 25],
+      ]);
+
+      await request(app.getHttpServer())
+        .delete(`/records/${id}/prices/${sale.body._id}`)
+        .expect(204);
+
+      const reverted = await request(app.getHttpServer())
+        .get(`/records/${id}`)
+        .expect(200);
+      expect(reverted.body.price).toBe(25);
+    });
+
+    it('should withdraw a future price and reject starts in the past', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/records')
+        .send({
+          artist: `Price Schedule Artist ${Date.now()}`,
+          album: 'Future Price Album',
+          price: 25,
+          qty: 3,
+          format: RecordFormat.CD,
+          category: RecordCategory.JAZZ,
+        })
+        .expect(201);
+      const id = created.body._id;
+      createdRecordIds.push(id);
+
+      await request(app.getHttpServer())
+        .post(`/records/${id}/prices`)
+        .send({ price: 30, startsAt: '2020-01-01T00:00:00.000Z' })
+        .expect(400);
+
+      const change = await request(app.getHttpServer())
+        .post(`/records/${id}/prices`)
+        .send({ price: 30, startsAt: '2099-01-01T00:00:00.000Z' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .delete(`/records/${id}/prices/${change.body._id}`)
+        .expect(204);
+      await request(app.getHttpServer())
+        .delete(`/records/${id}/prices/${change.body._id}`)
+        .expect(404);
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { useContainer } from 'class-validator';
+import { AppModule } from '../src/app.module';
+import { RecordFormat, RecordCategory } from '../src/api/record/record.enum';
+
+describe('TaxonomyController (e2e)', () => {
+  let app: INestApplication;
+  let recordModel;
+  let taxonomyTermModel;
+  const createdRecordIds: string[] = [];
+  const format = `8-Track ${Date.now()}`;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    useContainer(app.select(AppModule), { fallbackOnErrors: true });
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    recordModel = app.get('RecordModel');
+    taxonomyTermModel = app.get('TaxonomyTermModel');
+    await app.init();
+  });
+
+  afterEach(async () => {
+    for (const id of createdRecordIds) {
+      await recordModel.findByIdAndDelete(id).catch(() => {});
+    }
+    createdRecordIds.length = 0;
+    await taxonomyTermModel.deleteMany({ value: format }).catch(() => {});
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should list the built-in formats', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/taxonomy/format')
+      .expect(200);
+
+    expect(response.body.map((term) => term.value)).toEqual(
+      expect.arrayContaining(Object.values(RecordFormat)),
+    );
+  });
+
+  it('should reject an unknown kind', async () => {
+    await request(app.getHttpServer()).get('/taxonomy/label').expect(400);
+  });
+
+  it('should only accept records with a listed format', async () => {
+    const createRecordDto = {
+      artist: `Taxonomy Test Artist ${Date.now()}`,
+      album: 'Taxonomy Test Album',
+      price: 15,
+      qty: 1,
+      format,
+      category: RecordCategory.ROCK,
+    };
+
+    await request(app.getHttpServer())
+      .post('/records')
+      .send(createRecordDto)
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post('/taxonomy/format')
+      .send({ value: format })
+      .expect(201);
+    await request(app.getHttpServer())
+      .post('/taxonomy/format')
+      .send({ value: format })
+      .expect(409);
+
+    const response = await request(app.getHttpServer())
+      .post('/records')
+      .send(createRecordDto)
+      .expect(201);
+    createdRecordIds.push(response.body._id);
+  });
+
+  it('should block deleting a format in use until its records are moved', async () => {
+    await request(app.getHttpServer())
+      .post('/taxonomy/format')
+      .send({ value: format })
+      .expect(201);
+    const created = await request(app.getHttpServer())
+      .post('/records')
+      .send({
+        artist: `Taxonomy Test Artist ${Date.now()}`,
+        album: 'Taxonomy Test Album',
+        price: 15,
+        qty: 1,
+        format,
+        category: RecordCategory.ROCK,
+      })
+      .expect(201);
+    createdRecordIds.push(created.body._id);
+
+    const path = `/taxonomy/format/${encodeURIComponent(format)}`;
+    await request(app.getHttpServer()).delete(path).expect(409);
+    await request(app.getHttpServer())
+      .delete(path)
+      .query({ reassignTo: 'Wax Cylinder' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .delete(path)
+      .query({ reassignTo: RecordFormat.CASSETTE })
+      .expect(204);
+
+    const response = await request(app.getHttpServer())
+      .get(`/records/${created.body._id}`)
+      .expect(200);
+    expect(response.body.format).toBe(RecordFormat.CASSETTE);
+  });
+});